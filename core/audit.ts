@@ -0,0 +1,256 @@
+/**
+ * Polymer-X: Conformance Auditor
+ *
+ * Re-scores a LIVE design with the deterministic engine and reports every
+ * place the model departed from docs/LOGIC.md. Hard-rule violations are
+ * corrected in place where the engine knows the right answer (chassis,
+ * cocktail sizing, locks, disallowed mutations) and rejected where it does
+ * not.
+ */
+
+import type {
+    ConformanceFinding,
+    ConformanceReport,
+    EnzymeDesign,
+    WaterAnalysis,
+} from '../docs/INTERFACES.js';
+import { MANDATORY_SAFETY_LOCK } from './tables.js';
+import { DEFAULT_RULE_SET, type RuleSet } from './ruleset.js';
+import {
+    calculateEfficiencyScore,
+    determineChassisType,
+    enzymeName,
+    findMissingSafetyLocks,
+    normalizeComposition,
+    requiredSafetyLocks,
+    weightedEfficiencyScore,
+} from './rules.js';
+
+/** Largest score difference from the engine that is not reported */
+export const DEFAULT_SCORE_TOLERANCE = 0.05;
+
+/** Cocktail fractions may be this far from the site shares (rounding) */
+const FRACTION_TOLERANCE = 0.01;
+
+function describeShares(shares: readonly { plastic_type: string; fraction: number }[]): string {
+    return shares.map(share => `${Math.round(share.fraction * 100)}% ${share.plastic_type}`).join(', ');
+}
+
+export interface AuditOptions {
+    scoreTolerance?: number;
+}
+
+export interface AuditResult {
+    report: ConformanceReport;
+
+    /** The design with every OVERRIDDEN finding applied (undefined when REJECTED) */
+    design?: EnzymeDesign;
+}
+
+/**
+ * Cross-checks a (schema-valid) LIVE design against the deterministic engine
+ */
+export function auditDesign(
+    design: EnzymeDesign,
+    input: WaterAnalysis,
+    rules: RuleSet = DEFAULT_RULE_SET,
+    options: AuditOptions = {}
+): AuditResult {
+    const tolerance = options.scoreTolerance ?? DEFAULT_SCORE_TOLERANCE;
+    const findings: ConformanceFinding[] = [];
+    let rejected = false;
+    const corrected: EnzymeDesign = {
+        ...design,
+        safety_locks: [...design.safety_locks],
+        ...(design.cocktail && { cocktail: design.cocktail.map(component => ({ ...component })) }),
+    };
+
+    // Chassis (LOGIC.md §1.1)
+    const expectedChassis = determineChassisType(input, rules);
+    if (design.chassis_type !== expectedChassis) {
+        findings.push({
+            check: 'chassis',
+            severity: 'HARD',
+            expected: expectedChassis,
+            actual: design.chassis_type,
+            resolution: 'OVERRIDDEN',
+        });
+        corrected.chassis_type = expectedChassis;
+    }
+
+    // Components: one per polymer on site (LOGIC.md §1.4)
+    const shares = normalizeComposition(input);
+    const sitePolymers = shares.map(share => share.plastic_type);
+    if (shares.length > 1) {
+        const designed = (design.cocktail ?? []).map(component => component.plastic_type);
+        const missing = sitePolymers.filter(plastic => !designed.includes(plastic));
+        const extra = designed.filter(plastic => !sitePolymers.includes(plastic));
+        if (missing.length > 0) {
+            rejected = true;
+            findings.push({
+                check: 'cocktail',
+                severity: 'HARD',
+                expected: `one enzyme each for ${sitePolymers.join(', ')}`,
+                actual: designed.length > 0 ? `components for ${designed.join(', ')}` : 'no cocktail',
+                resolution: 'REJECTED',
+            });
+        } else if (extra.length > 0) {
+            findings.push({
+                check: 'cocktail',
+                severity: 'HARD',
+                expected: `components for ${sitePolymers.join(', ')} only`,
+                actual: `also ${extra.join(', ')}`,
+                resolution: 'OVERRIDDEN',
+            });
+            corrected.cocktail = corrected.cocktail!.filter(component => sitePolymers.includes(component.plastic_type));
+        }
+
+        // Each component is sized to its polymer's share of the site
+        if (missing.length === 0) {
+            const components = corrected.cocktail!;
+            const shareOf = (plastic: string) => shares.find(share => share.plastic_type === plastic)!.fraction;
+            if (components.some(component => Math.abs(component.fraction - shareOf(component.plastic_type)) > FRACTION_TOLERANCE)) {
+                findings.push({
+                    check: 'cocktail',
+                    severity: 'HARD',
+                    expected: `fractions ${describeShares(shares)}`,
+                    actual: `fractions ${describeShares(components)}`,
+                    resolution: 'OVERRIDDEN',
+                });
+            }
+            components.forEach(component => {
+                component.fraction = Math.round(shareOf(component.plastic_type) * 1000) / 1000;
+            });
+        }
+    } else if (design.cocktail) {
+        rejected = true;
+        findings.push({
+            check: 'cocktail',
+            severity: 'HARD',
+            expected: `single enzyme for ${sitePolymers[0]}`,
+            actual: `${design.cocktail.length}-component cocktail`,
+            resolution: 'REJECTED',
+        });
+    }
+
+    // Mutations must come from the rule set's list for their polymer (LOGIC.md §1.2)
+    if (!rejected) {
+        const units = corrected.cocktail
+            ? corrected.cocktail.map(component => ({ plastic: component.plastic_type, mutations: component.mutation_list }))
+            : [{ plastic: sitePolymers[0], mutations: design.mutation_list }];
+        const allowedUnits = units.map(unit => {
+            const allowed = rules.enzymes[unit.plastic].mutations;
+            const disallowed = unit.mutations.filter(mutation => !allowed.includes(mutation));
+            if (disallowed.length > 0) {
+                const remaining = unit.mutations.filter(mutation => allowed.includes(mutation));
+                if (remaining.length === 0) {
+                    rejected = true;
+                }
+                findings.push({
+                    check: 'mutations',
+                    severity: 'HARD',
+                    expected: `${unit.plastic}: subset of ${allowed.join(', ')}`,
+                    actual: `${unit.plastic}: ${disallowed.join(', ')} not allowed`,
+                    resolution: remaining.length === 0 ? 'REJECTED' : 'OVERRIDDEN',
+                });
+            }
+            return { plastic: unit.plastic, mutations: unit.mutations.filter(mutation => allowed.includes(mutation)) };
+        });
+
+        if (corrected.cocktail) {
+            corrected.cocktail.forEach((component, i) => {
+                component.mutation_list = allowedUnits[i].mutations;
+            });
+        }
+        corrected.mutation_list = allowedUnits.flatMap(unit => unit.mutations);
+
+        // A corrected chassis renames the enzymes, so the name matches the organism deployed
+        if (corrected.chassis_type !== design.chassis_type) {
+            if (corrected.cocktail) {
+                corrected.cocktail.forEach(component => {
+                    component.enzyme_name = enzymeName(component.plastic_type, corrected.chassis_type, rules);
+                });
+            } else {
+                corrected.enzyme_name = enzymeName(sitePolymers[0], corrected.chassis_type, rules);
+            }
+        }
+        // ...and a corrected cocktail names only the enzymes it kept
+        if (corrected.cocktail && (corrected.chassis_type !== design.chassis_type || corrected.cocktail.length !== design.cocktail!.length)) {
+            corrected.enzyme_name = corrected.cocktail.map(component => component.enzyme_name).join(' + ');
+        }
+    }
+
+    // Lock stack (LOGIC.md §2)
+    const missingLocks = findMissingSafetyLocks(design.safety_locks, requiredSafetyLocks(input, rules));
+    for (const lock of missingLocks) {
+        findings.push({
+            check: lock.type === MANDATORY_SAFETY_LOCK ? 'mandatory_lock' : 'site_lock',
+            severity: 'HARD',
+            expected: `${lock.type} [${lock.rule}]`,
+            actual: 'absent',
+            resolution: 'OVERRIDDEN',
+        });
+        corrected.safety_locks.push(lock);
+    }
+
+    // Re-score the corrected design (LOGIC.md §1.3)
+    const engineBreakdown = shares.map(share => {
+        const component = corrected.cocktail?.find(candidate => candidate.plastic_type === share.plastic_type);
+        const mutationCount = component ? component.mutation_list.length : corrected.mutation_list.length;
+        return {
+            plastic_type: share.plastic_type,
+            fraction: share.fraction,
+            efficiency_score: calculateEfficiencyScore(input, corrected.chassis_type, mutationCount, rules),
+        };
+    });
+    const engineScore = weightedEfficiencyScore(engineBreakdown);
+    const deviation = Math.round((design.predicted_efficiency_score - engineScore) * 100) / 100;
+
+    if (Math.abs(deviation) > tolerance) {
+        findings.push({
+            check: 'efficiency_score',
+            severity: 'SOFT',
+            expected: `${(engineScore * 100).toFixed(1)}% (±${(tolerance * 100).toFixed(0)}%)`,
+            actual: `${(design.predicted_efficiency_score * 100).toFixed(1)}%`,
+            resolution: 'OVERRIDDEN',
+        });
+        corrected.predicted_efficiency_score = engineScore;
+        corrected.cocktail?.forEach(component => {
+            const engine = engineBreakdown.find(entry => entry.plastic_type === component.plastic_type);
+            if (engine) {
+                component.predicted_efficiency_score = engine.efficiency_score;
+            }
+        });
+    }
+
+    const report: ConformanceReport = {
+        verdict: rejected ? 'REJECTED' : findings.length > 0 ? 'OVERRIDDEN' : 'CONFORMS',
+        findings,
+        model_efficiency_score: design.predicted_efficiency_score,
+        engine_efficiency_score: engineScore,
+        score_deviation: deviation,
+        rule_set_version: rules.version,
+    };
+
+    return rejected ? { report } : { report, design: corrected };
+}
+
+/**
+ * One-line summary of a report for monologues and logs
+ */
+export function describeConformance(report: ConformanceReport): string {
+    if (report.findings.length === 0) {
+        return `${report.verdict} - design matches the engine (score deviation ${formatDeviation(report.score_deviation)}).`;
+    }
+    return `${report.verdict} - ${describeFindings(report.findings)}.`;
+}
+
+function formatDeviation(deviation: number): string {
+    return `${deviation >= 0 ? '+' : ''}${(deviation * 100).toFixed(1)}%`;
+}
+
+function describeFindings(findings: readonly ConformanceFinding[]): string {
+    return findings
+        .map(finding => `${finding.check}: expected ${finding.expected}, got ${finding.actual} (${finding.resolution})`)
+        .join('; ');
+}
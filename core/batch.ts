@@ -0,0 +1,368 @@
+/**
+ * Polymer-X: Survey Batches
+ *
+ * Reads field-survey samples from CSV or JSONL, runs the committee on each
+ * with bounded concurrency, and checks every design against the site's rules.
+ * File access stays with the front-end (the CLI's --input).
+ *
+ * Columns are WaterAnalysis fields, toxin keys and site-context flags; the
+ * CLI flag names (plastic, stress, temp, depth, do, coastal, ...) work too.
+ * Each sample's water body is classified from its coordinates, and samples
+ * on land are reported as invalid.
+ */
+
+import type {
+    BatchResult,
+    BatchSummary,
+    CommitteeBioAgentResponse,
+    EnzymeDesign,
+    PlasticComposition,
+    WaterAnalysis,
+} from '../docs/INTERFACES.js';
+import { CHASSIS_TYPES, SITE_CONTEXT_FLAGS, TOXIN_KEYS } from './tables.js';
+import { DEFAULT_RULE_SET, type RuleSet } from './ruleset.js';
+import { determineChassisType, dominantPlasticType, findMissingSafetyLocks, requiredSafetyLocks } from './rules.js';
+import { validateWaterAnalysis } from './validation.js';
+import { classifyLocation } from './geography.js';
+import { failureFromError } from './failures.js';
+import { isRecord } from './schema.js';
+
+/** Samples designed at the same time */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+// =============================================================================
+// Sample Parsing
+// =============================================================================
+
+export interface SurveySample {
+    /** Line the sample starts on (1-based, header included) */
+    line: number;
+    sample_id?: string;
+
+    /** Absent when the row has issues */
+    input?: WaterAnalysis;
+    issues: string[];
+}
+
+const COLUMN_ALIASES: Record<string, string> = {
+    id: 'sample_id',
+    plastic: 'plastic_type',
+    stress: 'stress_signal_bool',
+    temp: 'temperature_c',
+    depth: 'depth_m',
+    do: 'dissolved_oxygen_mg_l',
+    urban: 'near_urban_water_supply',
+    'temp-extremes': 'temperature_extremes',
+    coastal: 'coastal_zone',
+};
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+function isBlank(value: unknown): boolean {
+    return value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+// Text cells become numbers and booleans where they read as one; anything
+// else is left as it is for validateWaterAnalysis to report
+
+function coerceNumber(value: unknown): unknown {
+    if (isBlank(value)) return undefined;
+    return typeof value === 'string' && Number.isFinite(Number(value)) ? Number(value) : value;
+}
+
+function coerceBoolean(value: unknown): unknown {
+    if (isBlank(value)) return undefined;
+    if (typeof value !== 'string') return value;
+    const text = value.trim().toLowerCase();
+    return TRUE_VALUES.includes(text) ? true : FALSE_VALUES.includes(text) ? false : value;
+}
+
+/** "PET:60;PP:40" (or space-separated) → { PET: 60, PP: 40 } */
+function coerceComposition(value: unknown): unknown {
+    if (isBlank(value)) return undefined;
+    if (typeof value !== 'string') return value;
+    const composition: Record<string, unknown> = {};
+    for (const pair of value.split(/[;,\s]+/).filter(Boolean)) {
+        const [plastic, share] = pair.split(':');
+        composition[plastic.toUpperCase()] = coerceNumber(share);
+    }
+    return composition;
+}
+
+function sampleFromFields(line: number, raw: Record<string, unknown>): SurveySample {
+    // toxins and site_context may be nested (JSONL) or flat columns (CSV)
+    const fields: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(raw)) {
+        if ((key === 'toxins' || key === 'site_context') && isRecord(value)) {
+            Object.assign(fields, value);
+        } else {
+            const column = key.trim().toLowerCase();
+            fields[COLUMN_ALIASES[column] ?? column] = value;
+        }
+    }
+
+    const composition = coerceComposition(fields.composition);
+    const plastic = isBlank(fields.plastic_type)
+        ? isRecord(composition) ? dominantPlasticType(composition as PlasticComposition) : undefined
+        : String(fields.plastic_type).trim().toUpperCase();
+    const toxins = Object.fromEntries(TOXIN_KEYS
+        .map(key => [key, coerceNumber(fields[key])])
+        .filter(([, value]) => value !== undefined));
+    const siteContext = Object.fromEntries(SITE_CONTEXT_FLAGS
+        .map(flag => [flag, coerceBoolean(fields[flag])])
+        .filter(([, value]) => value !== undefined));
+
+    const candidate: Record<string, unknown> = {
+        lat: coerceNumber(fields.lat),
+        lng: coerceNumber(fields.lng),
+        salinity: coerceNumber(fields.salinity),
+        plastic_type: plastic,
+        composition,
+        stress_signal_bool: coerceBoolean(fields.stress_signal_bool) ?? false,
+        temperature_c: coerceNumber(fields.temperature_c),
+        ph: coerceNumber(fields.ph),
+        depth_m: coerceNumber(fields.depth_m),
+        dissolved_oxygen_mg_l: coerceNumber(fields.dissolved_oxygen_mg_l),
+        toxins: Object.keys(toxins).length > 0 ? toxins : undefined,
+        site_context: Object.keys(siteContext).length > 0 ? siteContext : undefined,
+    };
+    for (const key of Object.keys(candidate)) {
+        if (candidate[key] === undefined) delete candidate[key];
+    }
+
+    const sample: SurveySample = { line, issues: validateWaterAnalysis(candidate) };
+    if (!isBlank(fields.sample_id)) {
+        sample.sample_id = String(fields.sample_id).trim();
+    }
+    if (sample.issues.length === 0) {
+        const input = candidate as unknown as WaterAnalysis;
+        const location = classifyLocation(input.lat, input.lng);
+        if (location.surface === 'land') {
+            sample.issues.push(`lat/lng: on land (${location.landmass})`);
+        } else {
+            sample.input = { ...input, water_body: location.water_body };
+        }
+    }
+    return sample;
+}
+
+/**
+ * Splits CSV text into records (RFC 4180 quoting), each with the line it starts on
+ */
+function parseCsvRecords(text: string): { line: number; fields: string[] }[] {
+    const records: { line: number; fields: string[] }[] = [];
+    let fields: string[] = [];
+    let field = '';
+    let quoted = false;
+    let line = 1;
+    let start = 1;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === '\n') line++;
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            fields.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            fields.push(field);
+            records.push({ line: start, fields });
+            fields = [];
+            field = '';
+            start = ++line;
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || fields.length > 0) {
+        fields.push(field);
+        records.push({ line: start, fields });
+    }
+    return records.filter(record => record.fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Reads samples from CSV with a header row
+ */
+export function parseSurveyCsv(text: string): SurveySample[] {
+    const [header, ...rows] = parseCsvRecords(text.replace(/^\uFEFF/, ''));
+    if (!header) {
+        return [];
+    }
+    return rows.map(row => sampleFromFields(
+        row.line,
+        Object.fromEntries(header.fields.map((column, i) => [column, row.fields[i]]))
+    ));
+}
+
+/**
+ * Reads samples from JSON Lines, one WaterAnalysis-shaped object per line
+ */
+export function parseSurveyJsonl(text: string): SurveySample[] {
+    const samples: SurveySample[] = [];
+    text.split(/\r?\n/).forEach((content, i) => {
+        if (content.trim() === '') {
+            return;
+        }
+        let raw: unknown;
+        try {
+            raw = JSON.parse(content);
+        } catch (error) {
+            samples.push({ line: i + 1, issues: [`not valid JSON (${error instanceof Error ? error.message : error})`] });
+            return;
+        }
+        samples.push(isRecord(raw) ? sampleFromFields(i + 1, raw) : { line: i + 1, issues: ['expected a JSON object'] });
+    });
+    return samples;
+}
+
+// =============================================================================
+// Rule Check
+// =============================================================================
+
+export interface DesignRuleCheck {
+    status: 'VALID' | 'SAFETY_VIOLATION' | 'CHASSIS_VIOLATION';
+    issues: string[];
+}
+
+/**
+ * Checks a design against the site's rules. A missing lock outranks a wrong chassis.
+ */
+export function checkDesignAgainstRules(design: EnzymeDesign, input: WaterAnalysis, rules: RuleSet = DEFAULT_RULE_SET): DesignRuleCheck {
+    const missing = findMissingSafetyLocks(design.safety_locks, requiredSafetyLocks(input, rules));
+    const expectedChassis = determineChassisType(input, rules);
+    const issues = missing.map(lock => `safety_locks: missing required ${lock.type} (${lock.rule})`);
+    if (design.chassis_type !== expectedChassis) {
+        issues.push(`chassis_type: expected ${expectedChassis}, got ${design.chassis_type}`);
+    }
+    const status = missing.length > 0 ? 'SAFETY_VIOLATION' : design.chassis_type !== expectedChassis ? 'CHASSIS_VIOLATION' : 'VALID';
+    return { status, issues };
+}
+
+// =============================================================================
+// Batch Run
+// =============================================================================
+
+/**
+ * Designs one sample; `sample` identifies the row (its line and id) for
+ * callers that record results per row
+ */
+export type SampleDesigner = (
+    input: WaterAnalysis,
+    signal: AbortSignal | undefined,
+    sample: SurveySample
+) => Promise<CommitteeBioAgentResponse>;
+
+export interface BatchOptions {
+    /** Samples designed at the same time (default: DEFAULT_BATCH_CONCURRENCY) */
+    concurrency?: number;
+
+    /** Rule set designs are checked against (default: DEFAULT_RULE_SET) */
+    ruleSet?: RuleSet;
+
+    /** Passed to every design call; rows not yet finished fail as CANCELLED */
+    signal?: AbortSignal;
+
+    /** Receives each result as its row finishes (rows finish out of order) */
+    onResult?: (result: BatchResult, finished: number) => void;
+}
+
+async function runSample(sample: SurveySample, design: SampleDesigner, rules: RuleSet, signal?: AbortSignal): Promise<BatchResult> {
+    const row = { line: sample.line, ...(sample.sample_id && { sample_id: sample.sample_id }) };
+    const { input } = sample;
+    if (!input) {
+        return { ...row, status: 'INVALID_INPUT', issues: sample.issues };
+    }
+
+    let response: CommitteeBioAgentResponse;
+    try {
+        response = await design(input, signal, sample);
+    } catch (error) {
+        const failure = failureFromError(error);
+        return { ...row, status: 'DESIGN_FAILED', input, issues: [failure.message], failure };
+    }
+    if (!response.data) {
+        return {
+            ...row,
+            status: 'DESIGN_FAILED',
+            input,
+            issues: [response.error ?? 'The committee produced no design'],
+            ...(response.failure && { failure: response.failure }),
+            mode: response.mode,
+        };
+    }
+    const check = checkDesignAgainstRules(response.data, input, rules);
+    return { ...row, status: check.status, input, design: response.data, issues: check.issues, mode: response.mode };
+}
+
+/**
+ * Designs every sample, at most `concurrency` at a time. Results are in sample order.
+ */
+export async function runBatch(
+    samples: readonly SurveySample[],
+    design: SampleDesigner,
+    options: BatchOptions = {}
+): Promise<BatchResult[]> {
+    const rules = options.ruleSet ?? DEFAULT_RULE_SET;
+    const concurrency = Math.max(1, Math.floor(options.concurrency ?? DEFAULT_BATCH_CONCURRENCY));
+    const results: BatchResult[] = new Array(samples.length);
+    let next = 0;
+    let finished = 0;
+
+    const worker = async () => {
+        while (next < samples.length) {
+            const index = next++;
+            results[index] = await runSample(samples[index], design, rules, options.signal);
+            options.onResult?.(results[index], ++finished);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, samples.length) }, worker));
+    return results;
+}
+
+export function summarizeBatch(results: readonly BatchResult[]): BatchSummary {
+    const statuses: BatchSummary['statuses'] = {
+        VALID: 0,
+        SAFETY_VIOLATION: 0,
+        CHASSIS_VIOLATION: 0,
+        DESIGN_FAILED: 0,
+        INVALID_INPUT: 0,
+    };
+    const chassisDistribution: BatchSummary['chassis_distribution'] = {};
+    let efficiencyTotal = 0;
+    let designs = 0;
+
+    for (const result of results) {
+        statuses[result.status]++;
+        if (result.design) {
+            chassisDistribution[result.design.chassis_type] = (chassisDistribution[result.design.chassis_type] ?? 0) + 1;
+            efficiencyTotal += result.design.predicted_efficiency_score;
+            designs++;
+        }
+    }
+
+    // Chassis in their table order
+    const ordered = Object.fromEntries(CHASSIS_TYPES
+        .filter(chassis => chassisDistribution[chassis] !== undefined)
+        .map(chassis => [chassis, chassisDistribution[chassis]]));
+
+    return {
+        rows: results.length,
+        statuses,
+        chassis_distribution: ordered,
+        ...(designs > 0 && { mean_efficiency: efficiencyTotal / designs }),
+        safety_failures: statuses.SAFETY_VIOLATION,
+    };
+}
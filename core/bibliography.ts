@@ -0,0 +1,96 @@
+/**
+ * Polymer-X: Bibliography
+ *
+ * Reads the numbered entries of docs/BIBLIOGRAPHY.md and matches them to the
+ * citations in a design's `references`. Front-ends load the markdown their
+ * own way (the CLI from disk, the web app at build time).
+ */
+
+import type { BibliographyEntry } from '../docs/INTERFACES.js';
+
+const ENTRY_HEADING = /^###\s+\d+\.\s+(.+)$/;
+const SOURCE_LINE = /^\*\*Source:\*\*\s+(\S+)\s+et al\.\s+\((\d{4})\)\s+-\s+"(.+)"\s*$/;
+const PUBLICATION_LINE = /^\*\*Publication:\*\*\s+\*?([^*]+)\*?\s*$/;
+const NOTE_LINE = /^-\s+(.+)$/;
+
+/** "Lee et al. 2025 - ..." or "Lee et al. (2025)" → "Lee et al. 2025" */
+const CITATION = /^(\S+)\s+et al\.?\s+\(?(\d{4})\)?/;
+
+/**
+ * Parses the numbered entries ("### 1. Topic" followed by Source,
+ * Publication and bullet lines). Entries without a Source line are skipped.
+ */
+export function parseBibliography(markdown: string): BibliographyEntry[] {
+    const entries: BibliographyEntry[] = [];
+    let current: Partial<BibliographyEntry> & { notes: string[] } | null = null;
+
+    const flush = () => {
+        if (current?.citation && current.title && current.year !== undefined) {
+            entries.push({
+                citation: current.citation,
+                topic: current.topic ?? '',
+                title: current.title,
+                publication: current.publication ?? '',
+                year: current.year,
+                notes: current.notes,
+            });
+        }
+        current = null;
+    };
+
+    for (const rawLine of markdown.split('\n')) {
+        const line = rawLine.trim();
+        const heading = ENTRY_HEADING.exec(line);
+        if (heading) {
+            flush();
+            current = { topic: heading[1], notes: [] };
+            continue;
+        }
+        // A new section or a rule ends the entry
+        if (line.startsWith('## ') || line === '---') {
+            flush();
+            continue;
+        }
+        if (!current) {
+            continue;
+        }
+
+        const source = SOURCE_LINE.exec(line);
+        const publication = PUBLICATION_LINE.exec(line);
+        const note = NOTE_LINE.exec(line);
+        if (source) {
+            current.citation = `${source[1]} et al. ${source[2]}`;
+            current.year = Number(source[2]);
+            current.title = source[3];
+        } else if (publication) {
+            current.publication = publication[1].trim();
+        } else if (note) {
+            current.notes.push(note[1].replace(/\*\*/g, ''));
+        }
+    }
+    flush();
+    return entries;
+}
+
+/**
+ * Lead author and year of a design reference (undefined if it is not in "X et al. YYYY" form)
+ */
+export function citationKey(reference: string): string | undefined {
+    const match = CITATION.exec(reference.trim());
+    return match ? `${match[1]} et al. ${match[2]}` : undefined;
+}
+
+/**
+ * The entries a design's references cite, in citation order
+ */
+export function citedEntries(references: readonly string[], bibliography: readonly BibliographyEntry[]): BibliographyEntry[] {
+    const cited: BibliographyEntry[] = [];
+    for (const reference of references) {
+        const key = citationKey(reference);
+        const entry = bibliography.find(candidate => candidate.citation === key);
+        if (entry && !cited.includes(entry)) {
+            cited.push(entry);
+        }
+    }
+    return cited;
+}
@@ -0,0 +1,127 @@
+/**
+ * Polymer-X: Multi-Site Campaigns
+ *
+ * Ranks a campaign's candidate sites to answer "which of these sites should
+ * the budget go to?". Sites whose design passes the rules are ranked on three
+ * keys: efficiency (higher first), safety burden (fewer safety locks the
+ * organism must carry first) and risk (1 − the Simulator's confidence under
+ * the site's stressors, lower first). The chosen key decides and the other
+ * two break ties. The best `budget` sites are selected; sites without a
+ * passing design rank after them and are never selected.
+ */
+
+import type { BatchRowStatus, CampaignRecord, CampaignSite } from '../docs/INTERFACES.js';
+import { DEFAULT_RULE_SET, type RuleSet } from './ruleset.js';
+import { calculateConfidence } from './rules.js';
+import { checkDesignAgainstRules, type SurveySample } from './batch.js';
+
+export type CampaignSort = 'efficiency' | 'safety_burden' | 'risk';
+
+/** Ranking keys in tie-break order */
+export const CAMPAIGN_SORTS: readonly CampaignSort[] = ['efficiency', 'safety_burden', 'risk'];
+
+export const CAMPAIGN_SORT_LABELS: Record<CampaignSort, string> = {
+    efficiency: 'Efficiency',
+    safety_burden: 'Safety burden',
+    risk: 'Risk',
+};
+
+export interface RankedSite {
+    /** Position in campaign.sites */
+    index: number;
+    label: string;
+
+    /** PENDING until the committee has run for the site */
+    status: Exclude<BatchRowStatus, 'INVALID_INPUT'> | 'PENDING';
+    efficiency?: number;
+
+    /** Safety locks the design carries */
+    safety_burden?: number;
+
+    /** 1 − Simulator confidence at the site (0.15 - 0.50) */
+    risk: number;
+
+    /** 1-based, among the sites with a passing design */
+    rank?: number;
+
+    /** Ranked within the campaign budget */
+    selected: boolean;
+
+    /** Why the site is not ranked */
+    issues: string[];
+}
+
+function scoreSite(site: CampaignSite, index: number, rules: RuleSet): RankedSite {
+    const scored = {
+        index,
+        label: site.label,
+        risk: Math.round((1 - calculateConfidence(site.input, rules)) * 100) / 100,
+        selected: false,
+    };
+    const response = site.deployment?.response;
+    if (!response) {
+        return { ...scored, status: 'PENDING', issues: [] };
+    }
+    if (!response.data) {
+        return { ...scored, status: 'DESIGN_FAILED', issues: [response.error ?? 'The committee produced no design'] };
+    }
+    const check = checkDesignAgainstRules(response.data, site.input, rules);
+    return {
+        ...scored,
+        status: check.status,
+        efficiency: response.data.predicted_efficiency_score,
+        safety_burden: response.data.safety_locks.length,
+        issues: check.issues,
+    };
+}
+
+/** Negative when a ranks before b on the key */
+function compareOn(key: CampaignSort, a: RankedSite, b: RankedSite): number {
+    switch (key) {
+        case 'efficiency':
+            return (b.efficiency ?? 0) - (a.efficiency ?? 0);
+        case 'safety_burden':
+            return (a.safety_burden ?? 0) - (b.safety_burden ?? 0);
+        case 'risk':
+            return a.risk - b.risk;
+    }
+}
+
+/**
+ * Ranks the sites on one key (the others break ties) and marks the ones the
+ * budget covers. Unranked sites follow in campaign order.
+ */
+export function rankCampaign(
+    campaign: CampaignRecord,
+    sort: CampaignSort = 'efficiency',
+    rules: RuleSet = DEFAULT_RULE_SET
+): RankedSite[] {
+    const keys = [sort, ...CAMPAIGN_SORTS.filter(key => key !== sort)];
+    const scored = campaign.sites.map((site, index) => scoreSite(site, index, rules));
+
+    const ranked = scored
+        .filter(site => site.status === 'VALID')
+        .sort((a, b) => keys.reduce((order, key) => order || compareOn(key, a, b), 0) || a.index - b.index);
+    ranked.forEach((site, i) => {
+        site.rank = i + 1;
+        site.selected = campaign.budget === undefined || i < campaign.budget;
+    });
+    return [...ranked, ...scored.filter(site => site.status !== 'VALID')];
+}
+
+/**
+ * Campaign sites from a parsed survey file; unreadable rows and rows on land
+ * are reported, not added
+ */
+export function sitesFromSurvey(samples: readonly SurveySample[]): { sites: CampaignSite[]; issues: string[] } {
+    const sites: CampaignSite[] = [];
+    const issues: string[] = [];
+    for (const sample of samples) {
+        if (!sample.input) {
+            issues.push(`line ${sample.line}: ${sample.issues.join('; ')}`);
+            continue;
+        }
+        sites.push({ label: sample.sample_id ?? `Line ${sample.line}`, input: sample.input });
+    }
+    return { sites, issues };
+}
@@ -0,0 +1,82 @@
+/**
+ * Polymer-X: Cancellation and Phase Timeouts
+ *
+ * A deployment can be aborted by its caller (AbortSignal), and every phase of
+ * the debate is bounded by a timeout. Both surface as DebateAbortedError so
+ * front-ends report them instead of falling back to the simulation.
+ */
+
+import type { AbortKind } from '../docs/INTERFACES.js';
+
+/** Longest a single committee phase may take in LIVE mode, including repairs */
+export const DEFAULT_PHASE_TIMEOUT_MS = 60_000;
+
+export class DebateAbortedError extends Error {
+    readonly kind: AbortKind;
+
+    constructor(kind: AbortKind, message: string) {
+        super(message);
+        this.name = 'DebateAbortedError';
+        this.kind = kind;
+    }
+}
+
+export function throwIfAborted(signal: AbortSignal | undefined, phase: string): void {
+    if (signal?.aborted) {
+        throw new DebateAbortedError('CANCELLED', `Deployment cancelled during the ${phase} phase.`);
+    }
+}
+
+/**
+ * Waits ms milliseconds, rejecting with DebateAbortedError if the signal fires first
+ */
+export function abortableDelay(ms: number, signal: AbortSignal | undefined, phase: string): Promise<void> {
+    throwIfAborted(signal, phase);
+    return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new DebateAbortedError('CANCELLED', `Deployment cancelled during the ${phase} phase.`));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Runs one phase with its own signal, which fires when the caller's signal
+ * does or when timeoutMs elapses. The phase is abandoned at that point even
+ * if its work ignores the signal.
+ */
+export async function runPhase<T>(
+    phase: string,
+    timeoutMs: number | undefined,
+    signal: AbortSignal | undefined,
+    run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+    throwIfAborted(signal, phase);
+    const controller = new AbortController();
+    let stop: (error: DebateAbortedError) => void = () => {};
+    const stopped = new Promise<never>((_, reject) => {
+        stop = error => {
+            controller.abort(error);
+            reject(error);
+        };
+    });
+
+    const onAbort = () => stop(new DebateAbortedError('CANCELLED', `Deployment cancelled during the ${phase} phase.`));
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timer = timeoutMs === undefined ? undefined : setTimeout(
+        () => stop(new DebateAbortedError('TIMED_OUT', `${phase} phase timed out after ${timeoutMs / 1000}s.`)),
+        timeoutMs
+    );
+
+    try {
+        return await Promise.race([run(controller.signal), stopped]);
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
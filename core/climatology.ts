@@ -0,0 +1,163 @@
+/**
+ * Polymer-X: Surface Climatology
+ *
+ * Offline estimates of annual-mean sea surface salinity and temperature, used
+ * to pre-fill the site controls when a location is picked. This is a compact
+ * approximation in the spirit of the World Ocean Atlas, not WOA data: zonal
+ * means on 10° latitude nodes for each ocean basin, annual means for the
+ * regional seas that differ most from them, per-lake values for the bundled
+ * lakes, and estuaries taken as brackish. Expect errors of 1-2 ppt and a few
+ * °C locally; measured values should always replace it.
+ */
+
+import { classifyLocation } from './geography.js';
+
+export interface ClimatologyEstimate {
+    /** Annual-mean surface salinity in ppt */
+    salinity: number;
+
+    /** Annual-mean surface temperature in °C */
+    temperature_c: number;
+
+    /** Where the values come from, e.g. "Pacific zonal mean, 32°N" */
+    source: string;
+}
+
+type Basin = 'Atlantic' | 'Pacific' | 'Indian';
+
+interface RegionalSea {
+    name: string;
+    south: number;
+    north: number;
+    west: number;
+    east: number;
+    salinity: number;
+    temperature_c: number;
+}
+
+/** Latitude of the first node; nodes are every 10° up to 80°N */
+const FIRST_NODE_LAT = -80;
+const NODE_SPACING = 10;
+
+const ZONAL_SALINITY: Record<Basin, readonly number[]> = {
+    //         80S   70S   60S   50S   40S   30S   20S   10S   EQ    10N   20N   30N   40N   50N   60N   70N   80N
+    Atlantic: [34.0, 34.0, 33.9, 34.2, 34.8, 35.8, 36.4, 36.0, 35.5, 35.6, 36.8, 36.6, 35.8, 35.0, 34.8, 34.5, 32.5],
+    Pacific: [34.0, 34.0, 34.0, 34.2, 34.4, 35.4, 35.8, 35.2, 34.8, 34.2, 34.7, 34.6, 33.8, 32.8, 32.0, 31.5, 32.0],
+    Indian: [34.0, 34.0, 34.0, 34.0, 34.9, 35.6, 35.3, 34.5, 34.8, 35.5, 36.0, 36.0, 36.0, 36.0, 36.0, 36.0, 36.0],
+};
+
+const ZONAL_TEMPERATURE: Record<Basin, readonly number[]> = {
+    //         80S   70S   60S   50S   40S   30S   20S   10S   EQ    10N   20N   30N   40N   50N   60N   70N   80N
+    Atlantic: [-1.8, -1.5, 0.0, 4.5, 12.0, 19.0, 23.0, 25.5, 27.0, 27.0, 25.0, 22.0, 17.0, 11.0, 8.0, 3.0, -1.0],
+    Pacific: [-1.8, -1.5, 0.5, 6.0, 13.0, 19.0, 24.0, 27.0, 27.5, 28.0, 26.0, 21.0, 14.0, 8.0, 5.0, 0.0, -1.5],
+    Indian: [-1.8, -1.5, 0.5, 5.0, 13.0, 19.0, 25.0, 28.0, 28.5, 28.0, 27.0, 26.0, 26.0, 26.0, 26.0, 26.0, 26.0],
+};
+
+/** Boxes checked in order, so an enclosed sea listed first wins over the sea around it */
+const REGIONAL_SEAS: readonly RegionalSea[] = [
+    { name: 'Black Sea', south: 40.5, north: 47, west: 27, east: 42, salinity: 18.0, temperature_c: 16.0 },
+    { name: 'Mediterranean Sea', south: 35, north: 37.5, west: -5.5, east: -1, salinity: 38.0, temperature_c: 20.0 },
+    { name: 'Mediterranean Sea', south: 30, north: 44.5, west: -1, east: 16, salinity: 38.0, temperature_c: 20.0 },
+    { name: 'Mediterranean Sea', south: 30, north: 46, west: 16, east: 36.5, salinity: 38.0, temperature_c: 20.0 },
+    { name: 'Red Sea', south: 12.5, north: 30, west: 32, east: 43.5, salinity: 40.0, temperature_c: 27.0 },
+    { name: 'Persian Gulf', south: 23.5, north: 30.5, west: 47.5, east: 56.5, salinity: 40.0, temperature_c: 27.0 },
+    { name: 'Baltic Sea', south: 53.5, north: 60, west: 12, east: 30.5, salinity: 7.0, temperature_c: 9.0 },
+    { name: 'Baltic Sea', south: 60, north: 66, west: 17, east: 25.5, salinity: 5.0, temperature_c: 7.0 },
+    { name: 'Hudson Bay', south: 51, north: 66, west: -95, east: -76, salinity: 29.0, temperature_c: 2.0 },
+    { name: 'Bay of Bengal', south: 5, north: 23, west: 80, east: 99, salinity: 33.0, temperature_c: 28.5 },
+    { name: 'Arabian Sea', south: 5, north: 25, west: 50, east: 77, salinity: 36.3, temperature_c: 27.5 },
+    { name: 'East China and Yellow Seas', south: 25, north: 41, west: 117, east: 127, salinity: 32.0, temperature_c: 17.0 },
+];
+
+/** Annual-mean surface values for the lakes in core/geography.ts */
+const LAKES: Record<string, { salinity: number; temperature_c: number }> = {
+    'Caspian Sea': { salinity: 12.0, temperature_c: 14.0 },
+    'Lake Superior': { salinity: 0.1, temperature_c: 5.0 },
+    'Lake Michigan': { salinity: 0.2, temperature_c: 9.0 },
+    'Lake Huron': { salinity: 0.1, temperature_c: 8.0 },
+    'Lake Erie': { salinity: 0.2, temperature_c: 11.0 },
+    'Lake Ontario': { salinity: 0.2, temperature_c: 9.0 },
+    'Lake Winnipeg': { salinity: 0.2, temperature_c: 5.0 },
+    'Great Slave Lake': { salinity: 0.1, temperature_c: 3.0 },
+    'Great Bear Lake': { salinity: 0.1, temperature_c: 2.0 },
+    'Lake Titicaca': { salinity: 0.9, temperature_c: 13.0 },
+    'Lake Ladoga': { salinity: 0.1, temperature_c: 5.0 },
+    'Lake Victoria': { salinity: 0.1, temperature_c: 25.0 },
+    'Lake Tanganyika': { salinity: 0.5, temperature_c: 26.0 },
+    'Lake Malawi': { salinity: 0.2, temperature_c: 25.0 },
+    'Lake Baikal': { salinity: 0.1, temperature_c: 4.0 },
+};
+
+const FRESHWATER_SALINITY = 0.2;
+
+/** Share of the open-sea salinity left in an estuary's brackish mix */
+const ESTUARY_SALINITY_FRACTION = 0.5;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+function basinAt(lat: number, lng: number): Basin {
+    if ((lng >= 20 && lng < 100 && lat < 31) || (lng >= 100 && lng < 142 && lat < -8)) {
+        return 'Indian';
+    }
+    if (lng >= 100 || lng < -100 || (lng < -77 && lat < 9) || (lng < -85 && lat < 18)) {
+        return 'Pacific';
+    }
+    return 'Atlantic';
+}
+
+function interpolate(nodes: readonly number[], lat: number): number {
+    const position = Math.max(0, Math.min(nodes.length - 1, (lat - FIRST_NODE_LAT) / NODE_SPACING));
+    const below = Math.floor(position);
+    const above = Math.min(nodes.length - 1, below + 1);
+    return nodes[below] + (nodes[above] - nodes[below]) * (position - below);
+}
+
+function formatLat(lat: number): string {
+    return `${Math.abs(Math.round(lat))}°${lat >= 0 ? 'N' : 'S'}`;
+}
+
+/**
+ * Open-sea values at a point: a regional sea, or its basin's zonal mean
+ */
+function seaClimatology(lat: number, lng: number): ClimatologyEstimate {
+    const sea = REGIONAL_SEAS.find(region =>
+        lat >= region.south && lat <= region.north && lng >= region.west && lng <= region.east);
+    if (sea) {
+        return { salinity: sea.salinity, temperature_c: sea.temperature_c, source: sea.name };
+    }
+    const basin = basinAt(lat, lng);
+    return {
+        salinity: round1(interpolate(ZONAL_SALINITY[basin], lat)),
+        temperature_c: round1(interpolate(ZONAL_TEMPERATURE[basin], lat)),
+        source: `${basin} zonal mean, ${formatLat(lat)}`,
+    };
+}
+
+/**
+ * Climatological surface salinity and temperature at a point (undefined on land)
+ */
+export function lookupClimatology(lat: number, lng: number): ClimatologyEstimate | undefined {
+    const location = classifyLocation(lat, lng);
+    if (location.surface === 'land') {
+        return undefined;
+    }
+
+    if (location.water_body === 'LAKE') {
+        const lake = location.feature ? LAKES[location.feature] : undefined;
+        return {
+            salinity: lake?.salinity ?? FRESHWATER_SALINITY,
+            temperature_c: lake?.temperature_c ?? seaClimatology(lat, lng).temperature_c,
+            source: location.feature ?? 'Lake',
+        };
+    }
+
+    const sea = seaClimatology(lat, lng);
+    if (location.water_body === 'ESTUARY') {
+        return {
+            salinity: round1(sea.salinity * ESTUARY_SALINITY_FRACTION),
+            temperature_c: sea.temperature_c,
+            source: `${location.feature ?? 'Estuary'} (brackish, ½ × ${sea.source})`,
+        };
+    }
+    return sea;
+}
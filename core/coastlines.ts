@@ -0,0 +1,375 @@
+/**
+ * Polymer-X: Offline Coastlines
+ *
+ * Hand-simplified outlines of the continents and major islands, bundled so the
+ * map works without a Google Maps key or network access. Vertices are roughly
+ * 1-3° apart: good enough to draw a recognizable world map and tell open ocean
+ * from a continent interior, not for navigation. Small islands, lakes and
+ * enclosed seas other than the Black Sea are left out.
+ */
+
+/** [longitude, latitude] in degrees */
+export type LngLat = readonly [number, number];
+
+export interface Landmass {
+    name: string;
+
+    /** Outline; the closing edge back to the first vertex is implied */
+    ring: readonly LngLat[];
+}
+
+export const LANDMASSES: readonly Landmass[] = [
+    {
+        name: 'North America',
+        ring: [
+            [-168.0, 65.6], [-164.0, 68.5], [-156.5, 71.3], [-141.0, 69.7], [-130.0, 70.0], [-115.0, 68.5],
+            [-100.0, 68.0], [-94.0, 71.5], [-90.0, 69.0], [-82.0, 67.0], [-87.0, 64.0], [-93.0, 61.0],
+            [-94.0, 58.8], [-92.0, 57.0], [-85.0, 55.3], [-82.3, 52.9], [-79.0, 51.5], [-78.5, 55.0],
+            [-77.0, 60.0], [-78.0, 62.3], [-73.0, 62.0], [-70.0, 61.0], [-65.0, 60.3], [-61.5, 56.5],
+            [-57.5, 54.0], [-57.1, 51.4], [-60.0, 50.2], [-64.2, 48.8], [-64.8, 47.5], [-61.0, 45.6],
+            [-60.0, 46.0], [-61.0, 45.3], [-66.0, 43.6], [-70.0, 43.7], [-70.6, 41.7], [-74.0, 40.6],
+            [-74.9, 38.9], [-76.0, 37.0], [-75.5, 35.2], [-78.0, 33.8], [-81.0, 31.7], [-80.1, 27.0],
+            [-80.4, 25.2], [-81.8, 26.5], [-82.7, 28.0], [-84.0, 30.0], [-86.0, 30.4], [-89.5, 30.2],
+            [-89.2, 29.0], [-91.0, 29.3], [-94.0, 29.6], [-97.3, 27.5], [-97.2, 25.0], [-97.8, 22.0],
+            [-96.0, 19.0], [-94.5, 18.2], [-91.0, 18.8], [-90.4, 21.0], [-87.0, 21.5], [-87.5, 18.5],
+            [-88.2, 16.0], [-84.0, 15.9], [-83.3, 14.9], [-83.6, 11.0], [-82.0, 9.1], [-79.5, 9.6],
+            [-77.4, 8.7], [-78.0, 7.4], [-80.4, 7.4], [-81.7, 8.2], [-83.7, 8.6], [-85.8, 10.2],
+            [-85.7, 11.1], [-87.6, 13.2], [-91.4, 13.9], [-94.0, 16.0], [-96.5, 15.7], [-98.5, 16.3],
+            [-101.0, 17.4], [-105.6, 20.4], [-105.7, 23.0], [-108.9, 25.4], [-112.2, 29.0], [-114.8, 31.8],
+            [-112.6, 26.8], [-110.3, 24.2], [-109.4, 23.2], [-112.1, 24.7], [-114.1, 27.5], [-115.7, 29.9],
+            [-117.1, 32.5], [-118.5, 34.0], [-120.6, 34.6], [-121.9, 36.6], [-122.5, 37.8], [-123.8, 39.8],
+            [-124.4, 42.8], [-124.0, 46.3], [-124.7, 48.4], [-123.0, 49.0], [-127.5, 50.5], [-128.0, 52.0],
+            [-130.4, 54.7], [-133.0, 57.0], [-136.0, 58.3], [-140.0, 59.7], [-146.0, 60.8], [-151.4, 59.5],
+            [-154.0, 58.0], [-158.0, 56.7], [-162.5, 55.0], [-164.8, 54.4], [-157.5, 58.8], [-162.0, 58.6],
+            [-164.8, 60.8], [-165.4, 62.5], [-161.0, 64.5], [-166.0, 64.6],
+        ],
+    },
+    {
+        name: 'Greenland',
+        ring: [
+            [-73.0, 78.5], [-68.0, 80.2], [-60.0, 82.0], [-45.0, 82.8], [-30.0, 83.5], [-20.0, 82.0],
+            [-12.0, 81.5], [-18.0, 79.0], [-19.5, 75.0], [-22.0, 72.5], [-22.0, 70.0], [-25.0, 68.5],
+            [-32.0, 68.0], [-38.0, 65.6], [-41.0, 63.0], [-43.5, 60.0], [-46.0, 60.8], [-49.5, 62.5],
+            [-51.5, 64.5], [-53.5, 67.0], [-54.0, 70.0], [-55.0, 71.5], [-58.0, 75.5], [-66.0, 76.2],
+        ],
+    },
+    {
+        name: 'Baffin Island',
+        ring: [
+            [-62.0, 66.5], [-64.0, 63.0], [-66.5, 62.0], [-71.0, 62.8], [-74.0, 64.6], [-78.0, 64.5],
+            [-73.0, 68.0], [-80.5, 70.0], [-85.0, 70.0], [-80.0, 73.5], [-72.0, 71.5], [-68.0, 70.0],
+            [-64.0, 67.5],
+        ],
+    },
+    {
+        name: 'Victoria Island',
+        ring: [
+            [-118.0, 71.0], [-115.0, 73.3], [-106.0, 73.4], [-100.5, 72.5], [-102.0, 69.3], [-110.0, 68.5],
+            [-117.0, 69.5],
+        ],
+    },
+    {
+        name: 'Ellesmere Island',
+        ring: [
+            [-90.0, 76.5], [-78.0, 76.2], [-75.0, 79.5], [-62.0, 82.0], [-70.0, 83.0], [-85.0, 82.0],
+            [-92.0, 80.5],
+        ],
+    },
+    {
+        name: 'Newfoundland',
+        ring: [[-59.4, 47.6], [-55.4, 51.6], [-53.1, 47.2], [-53.5, 46.6], [-56.0, 47.6]],
+    },
+    {
+        name: 'Vancouver Island',
+        ring: [[-128.4, 50.8], [-123.3, 48.4], [-124.7, 48.6]],
+    },
+    {
+        name: 'Cuba',
+        ring: [
+            [-84.9, 21.9], [-83.0, 23.0], [-80.0, 23.1], [-77.0, 21.6], [-74.1, 20.2], [-77.5, 19.9],
+            [-78.5, 21.5], [-81.5, 22.2],
+        ],
+    },
+    {
+        name: 'Hispaniola',
+        ring: [[-74.4, 18.5], [-72.8, 19.9], [-69.6, 19.7], [-68.3, 18.6], [-71.4, 17.6]],
+    },
+    {
+        name: 'South America',
+        ring: [
+            [-77.4, 8.7], [-76.0, 9.5], [-75.5, 10.7], [-73.0, 11.5], [-71.3, 12.4], [-68.0, 10.5],
+            [-64.0, 10.6], [-61.8, 10.6], [-60.0, 8.5], [-57.0, 6.0], [-54.0, 5.6], [-51.5, 4.2],
+            [-50.0, 1.7], [-50.0, 0.0], [-48.0, -1.0], [-44.5, -2.5], [-41.0, -2.9], [-38.0, -3.7],
+            [-35.2, -5.5], [-34.8, -7.5], [-35.3, -9.0], [-37.2, -11.0], [-38.9, -13.5], [-39.2, -17.6],
+            [-40.8, -21.5], [-41.9, -22.9], [-44.5, -23.2], [-48.6, -26.0], [-48.7, -28.5], [-50.6, -30.8],
+            [-53.0, -33.5], [-54.9, -34.9], [-57.5, -36.2], [-57.5, -38.2], [-62.0, -38.9], [-62.3, -40.6],
+            [-65.0, -41.1], [-64.5, -42.5], [-65.3, -44.8], [-67.5, -46.4], [-65.9, -47.8], [-68.3, -50.1],
+            [-69.0, -51.6], [-68.3, -53.3], [-65.2, -54.7], [-67.3, -55.5], [-70.5, -55.0], [-74.0, -53.0],
+            [-75.5, -50.0], [-75.6, -46.7], [-74.2, -42.0], [-73.6, -39.0], [-73.2, -37.0], [-71.7, -33.0],
+            [-71.4, -29.5], [-70.5, -25.0], [-70.2, -20.0], [-70.3, -18.3], [-71.4, -17.6], [-75.2, -15.3],
+            [-76.4, -13.2], [-78.1, -10.2], [-79.9, -7.1], [-81.3, -4.7], [-80.3, -3.4], [-80.9, -1.1],
+            [-80.0, 0.9], [-78.9, 1.4], [-77.5, 3.5], [-77.4, 6.5], [-77.9, 7.2],
+        ],
+    },
+    {
+        name: 'Eurasia',
+        ring: [
+            // Iberia and the Atlantic coast
+            [-5.6, 36.0], [-6.4, 36.8], [-7.4, 37.2], [-8.9, 37.0], [-8.8, 38.7], [-9.5, 38.8],
+            [-8.9, 40.5], [-8.7, 42.0], [-9.3, 43.0], [-7.5, 43.7], [-4.0, 43.4], [-1.7, 43.4],
+            [-1.2, 44.8], [-1.2, 46.2], [-2.2, 47.2], [-4.5, 47.9], [-4.6, 48.6], [-1.6, 48.7],
+            [-1.4, 49.7], [0.2, 49.5], [1.6, 50.2], [2.5, 51.1], [3.6, 51.5], [4.8, 53.0],
+            [7.0, 53.5], [8.7, 54.0], [8.6, 55.5], [8.1, 56.8], [10.6, 57.7], [10.9, 56.3],
+            // Baltic
+            [10.0, 55.0], [11.0, 54.0], [14.0, 54.0], [18.5, 54.7], [21.2, 55.3], [21.0, 57.0],
+            [23.9, 57.0], [24.3, 59.4], [28.0, 59.5], [29.5, 60.0], [27.0, 60.5], [22.9, 59.9],
+            [21.4, 61.0], [21.5, 63.3], [25.0, 65.0], [24.0, 65.8], [22.0, 65.6], [21.0, 64.5],
+            [18.8, 63.2], [17.2, 60.6], [18.8, 60.0], [18.0, 59.0], [16.6, 57.0], [16.0, 56.1],
+            [14.3, 55.5], [12.9, 55.4], [11.8, 58.0], [10.5, 59.3], [9.5, 58.9], [7.0, 58.0],
+            // Norway and the Arctic
+            [5.6, 58.9], [5.0, 61.0], [5.2, 62.2], [7.0, 62.8], [10.0, 64.0], [12.5, 66.0],
+            [14.0, 68.0], [16.0, 69.0], [19.0, 70.0], [23.0, 70.7], [26.0, 71.0], [28.5, 70.9],
+            [31.0, 70.2], [33.0, 69.4], [36.0, 69.0], [40.5, 67.7], [41.2, 66.8], [44.0, 66.1],
+            [43.5, 68.6], [46.0, 68.2], [53.0, 68.6], [58.0, 68.9], [60.0, 69.8], [64.8, 69.2],
+            [68.5, 72.6], [72.8, 72.5], [73.5, 72.8], [80.0, 72.3], [80.7, 73.6], [87.0, 75.2],
+            [98.0, 76.3], [104.0, 77.7], [113.0, 76.0], [113.5, 73.5], [119.0, 73.0], [126.0, 73.5],
+            [128.5, 72.4], [130.5, 70.8], [136.0, 71.6], [141.0, 72.8], [150.0, 71.5], [159.0, 70.8],
+            [160.9, 69.6], [167.8, 69.7], [170.6, 70.1], [176.0, 69.9], [180.0, 69.0],
+            // Bering Sea and the Pacific (Chukotka east of 180° is a separate ring)
+            [180.0, 65.0], [178.7, 64.6], [177.4, 62.5], [172.7, 61.0], [170.3, 59.9], [163.5, 59.9],
+            [162.0, 57.8], [163.2, 56.2], [161.9, 54.9], [160.0, 53.2], [156.6, 51.0], [156.0, 53.8],
+            [155.5, 56.8], [158.3, 58.0], [161.9, 60.4], [159.7, 61.7], [156.7, 61.5], [154.2, 59.5],
+            [149.0, 59.3], [142.2, 59.0], [138.0, 56.4], [135.1, 54.7], [137.0, 54.0], [141.4, 53.3],
+            [140.7, 50.8], [140.0, 48.3], [138.5, 47.0], [135.1, 43.5], [133.0, 42.8], [131.1, 42.9],
+            [129.7, 41.0], [128.0, 39.8], [127.5, 39.8], [129.5, 37.0], [129.4, 35.5], [127.0, 34.6],
+            [126.3, 34.4], [126.5, 37.7], [124.7, 38.0], [125.0, 39.6], [121.1, 38.9], [122.2, 40.4],
+            [121.0, 40.9], [119.5, 39.9], [117.6, 39.0], [118.9, 37.4], [120.8, 37.8], [122.5, 37.4],
+            [120.5, 36.1], [119.2, 35.0], [120.8, 32.6], [121.9, 31.7], [121.9, 30.8], [122.0, 29.8],
+            [121.2, 28.0], [119.6, 25.7], [118.6, 24.6], [116.5, 22.9], [114.2, 22.3], [111.6, 21.6],
+            [110.2, 20.3], [109.7, 21.5], [108.0, 21.6], [106.7, 20.7], [105.7, 18.9], [106.5, 18.0],
+            // Southeast Asia
+            [108.9, 15.3], [109.3, 13.0], [109.2, 11.6], [107.0, 10.4], [105.1, 8.6], [104.8, 10.4],
+            [102.6, 12.2], [100.9, 12.7], [100.3, 13.5], [99.1, 10.9], [99.9, 9.2], [100.4, 7.3],
+            [101.6, 6.8], [103.4, 4.9], [103.4, 2.6], [104.3, 1.4], [103.5, 1.3], [102.9, 1.9],
+            [101.3, 2.9], [100.4, 4.3], [100.1, 6.4], [98.5, 8.1], [98.6, 10.0], [98.5, 13.0],
+            [97.7, 15.9], [97.2, 16.9], [95.4, 15.7], [94.2, 16.0], [94.5, 18.9], [93.1, 20.5],
+            // Bay of Bengal and India
+            [92.3, 21.5], [91.8, 22.3], [90.5, 22.0], [88.9, 21.6], [86.9, 21.0], [85.0, 19.5],
+            [82.2, 16.5], [80.3, 15.9], [80.2, 13.4], [79.9, 10.3], [78.3, 8.9], [77.5, 8.1],
+            [76.6, 8.9], [75.7, 11.3], [74.6, 14.7], [73.5, 16.0], [72.8, 19.3], [72.6, 21.4],
+            [70.5, 20.9], [69.0, 22.4], [68.4, 23.7], [67.1, 24.7], [66.4, 25.4], [61.5, 25.1],
+            // Persian Gulf and Arabia
+            [57.4, 25.7], [56.5, 27.1], [54.7, 26.5], [51.5, 27.9], [50.1, 30.1], [48.0, 30.0],
+            [48.5, 28.5], [49.6, 26.9], [50.2, 26.2], [51.6, 25.3], [51.6, 24.2], [54.0, 24.1],
+            [56.1, 26.1], [56.4, 24.9], [57.4, 23.9], [58.8, 23.5], [59.8, 22.3], [58.4, 20.4],
+            [57.7, 18.9], [55.3, 17.2], [52.2, 15.6], [49.6, 14.7], [45.0, 12.8], [43.5, 12.7],
+            [42.8, 14.5], [42.6, 16.7], [41.2, 19.3], [39.1, 21.5], [38.5, 23.8], [37.2, 25.2],
+            [35.2, 28.0], [34.9, 29.5], [34.3, 27.8], [32.6, 29.9], [32.3, 31.2],
+            // Levant, Anatolia and the Black Sea
+            [34.2, 31.3], [34.9, 32.8], [35.5, 33.9], [35.9, 35.5], [36.2, 36.6], [34.6, 36.8],
+            [32.8, 36.1], [30.6, 36.7], [29.1, 36.7], [27.4, 37.2], [26.3, 38.3], [26.2, 40.0],
+            [29.0, 41.0], [31.3, 41.1], [35.1, 42.0], [38.3, 40.9], [41.6, 41.5], [41.7, 42.6],
+            [40.0, 43.4], [38.2, 44.4], [36.7, 45.3], [35.4, 45.1], [33.5, 44.5], [32.6, 45.4],
+            [33.6, 46.0], [31.7, 46.6], [30.7, 46.5], [29.7, 45.2], [28.7, 44.3], [28.0, 43.0],
+            [27.9, 42.0], [29.0, 41.2], [27.5, 41.0], [26.2, 40.6],
+            // Balkans, Italy and the western Mediterranean
+            [25.9, 40.8], [24.0, 40.7], [22.6, 40.5], [22.9, 39.3], [24.0, 38.2], [23.0, 37.4],
+            [22.9, 36.5], [21.7, 36.8], [21.1, 37.8], [21.3, 38.9], [20.0, 39.7], [19.3, 40.6],
+            [19.6, 41.8], [18.5, 42.5], [16.0, 43.5], [14.5, 45.2], [13.7, 45.7], [12.3, 45.4],
+            [12.3, 44.4], [13.6, 43.5], [14.0, 42.6], [16.0, 41.9], [18.5, 40.2], [18.3, 39.8],
+            [16.9, 40.4], [17.2, 39.0], [16.0, 38.0], [15.6, 38.2], [15.9, 39.6], [14.9, 40.2],
+            [14.0, 40.8], [12.2, 41.7], [11.1, 42.4], [10.1, 44.0], [8.7, 44.4], [7.5, 43.8],
+            [6.2, 43.1], [4.8, 43.4], [3.2, 43.1], [3.2, 41.9], [0.9, 41.0], [-0.3, 39.5],
+            [0.2, 38.8], [-0.7, 37.6], [-2.1, 36.7], [-4.4, 36.7],
+        ],
+    },
+    {
+        name: 'Chukotka',
+        ring: [[-180.0, 69.0], [-175.0, 67.5], [-169.7, 66.1], [-172.5, 64.4], [-176.0, 65.0], [-180.0, 65.0]],
+    },
+    {
+        name: 'Great Britain',
+        ring: [
+            [-5.7, 50.1], [-3.0, 50.7], [1.4, 51.2], [1.7, 52.7], [0.3, 53.4], [-0.1, 54.5],
+            [-1.6, 55.6], [-2.1, 57.7], [-3.3, 58.6], [-5.0, 58.6], [-6.2, 57.5], [-5.6, 56.3],
+            [-4.9, 55.7], [-5.0, 54.8], [-3.4, 54.9], [-3.0, 53.7], [-4.6, 53.3], [-4.2, 52.3],
+            [-5.3, 51.8], [-3.1, 51.5], [-4.2, 51.2],
+        ],
+    },
+    {
+        name: 'Ireland',
+        ring: [
+            [-6.0, 52.2], [-6.2, 53.9], [-5.7, 54.6], [-7.3, 55.3], [-8.5, 54.6], [-10.0, 54.2],
+            [-9.7, 53.3], [-10.4, 52.1], [-9.4, 51.6], [-8.0, 51.8],
+        ],
+    },
+    {
+        name: 'Iceland',
+        ring: [[-24.0, 65.5], [-22.0, 66.4], [-16.5, 66.5], [-13.6, 65.1], [-14.9, 64.3], [-18.7, 63.4], [-22.7, 63.8]],
+    },
+    {
+        name: 'Svalbard',
+        ring: [[11.0, 78.5], [15.0, 80.0], [22.0, 80.3], [27.0, 79.9], [20.0, 77.5], [15.0, 77.0]],
+    },
+    {
+        name: 'Novaya Zemlya',
+        ring: [[52.0, 71.5], [56.5, 73.5], [60.0, 75.8], [68.5, 76.9], [64.0, 74.7], [57.0, 70.6]],
+    },
+    {
+        name: 'Sicily',
+        ring: [[12.4, 38.1], [15.6, 38.3], [15.1, 36.7]],
+    },
+    {
+        name: 'Sardinia',
+        ring: [[8.4, 39.0], [9.6, 39.1], [9.8, 41.0], [8.2, 41.0]],
+    },
+    {
+        name: 'Africa',
+        ring: [
+            [-5.9, 35.8], [-2.0, 35.1], [1.0, 36.5], [3.0, 36.8], [8.6, 36.9], [10.3, 37.3],
+            [11.1, 36.9], [10.2, 34.3], [11.1, 33.3], [15.2, 32.3], [18.6, 30.4], [20.0, 31.0],
+            [20.1, 32.4], [21.5, 32.9], [23.0, 32.6], [25.2, 31.6], [29.0, 30.9], [31.0, 31.6],
+            [32.3, 31.2], [32.6, 29.9], [33.9, 27.2], [35.6, 23.9], [37.2, 21.0], [37.5, 18.6],
+            [38.6, 17.9], [39.3, 15.9], [41.2, 14.5], [43.3, 12.4], [44.3, 10.4], [47.0, 11.1],
+            [51.3, 11.8], [51.0, 10.4], [50.1, 8.1], [48.6, 5.3], [46.0, 2.2], [43.1, -0.3],
+            [41.8, -1.4], [40.2, -2.8], [39.2, -4.7], [38.8, -6.5], [39.4, -8.3], [40.4, -10.4],
+            [40.7, -15.2], [37.4, -17.6], [35.9, -18.9], [35.3, -22.1], [35.5, -24.1], [32.9, -25.9],
+            [32.6, -28.6], [31.0, -30.7], [28.2, -32.7], [25.6, -34.0], [22.6, -33.9], [20.0, -34.8],
+            [18.4, -34.1], [18.3, -32.5], [17.4, -30.4], [15.3, -27.0], [14.5, -22.9], [13.4, -20.9],
+            [11.8, -17.3], [12.2, -14.5], [13.6, -12.0], [13.2, -9.0], [12.3, -6.1], [11.9, -5.0],
+            [9.4, -2.2], [8.8, -0.8], [9.5, 1.0], [9.8, 3.1], [9.6, 4.0], [8.5, 4.5],
+            [7.0, 4.4], [5.9, 4.3], [4.5, 6.3], [2.7, 6.4], [1.0, 5.9], [-2.0, 4.7],
+            [-4.6, 5.2], [-7.5, 4.4], [-9.0, 5.0], [-11.4, 6.8], [-13.1, 8.3], [-13.7, 9.5],
+            [-15.0, 10.9], [-16.7, 12.4], [-17.2, 14.7], [-16.5, 16.1], [-16.3, 19.1], [-17.0, 21.0],
+            [-15.0, 24.5], [-14.4, 26.2], [-13.0, 27.7], [-11.4, 28.1], [-9.8, 29.6], [-9.6, 30.4],
+            [-9.8, 31.2], [-8.7, 33.2], [-6.8, 34.0],
+        ],
+    },
+    {
+        name: 'Madagascar',
+        ring: [
+            [49.3, -12.0], [50.4, -15.5], [49.4, -17.8], [48.6, -20.5], [47.1, -24.9], [45.2, -25.5],
+            [43.7, -23.5], [43.3, -21.8], [44.4, -19.8], [44.0, -17.2], [44.9, -16.2], [47.1, -15.0],
+            [48.8, -13.2],
+        ],
+    },
+    {
+        name: 'Sri Lanka',
+        ring: [[79.8, 8.2], [80.2, 9.8], [81.9, 7.5], [81.2, 6.2], [80.1, 6.0]],
+    },
+    {
+        name: 'Honshu, Shikoku and Kyushu',
+        ring: [
+            [129.7, 33.2], [130.2, 31.3], [131.1, 31.4], [131.8, 33.1], [133.6, 33.5], [135.2, 33.9],
+            [136.9, 34.3], [138.8, 34.6], [140.9, 35.7], [140.9, 38.0], [141.9, 39.3], [141.4, 41.4],
+            [140.0, 40.6], [139.8, 39.0], [138.6, 37.8], [137.3, 36.8], [136.0, 35.7], [133.2, 35.6],
+            [131.3, 34.4], [130.9, 33.9],
+        ],
+    },
+    {
+        name: 'Hokkaido',
+        ring: [[140.0, 41.5], [141.2, 41.8], [143.3, 42.0], [145.5, 43.2], [144.6, 43.9], [141.9, 45.5], [141.7, 44.3], [140.3, 43.3]],
+    },
+    {
+        name: 'Sakhalin',
+        ring: [[142.1, 46.0], [143.5, 46.1], [142.7, 49.0], [143.2, 51.7], [142.6, 54.3], [141.8, 53.3], [142.1, 49.0], [141.9, 46.6]],
+    },
+    {
+        name: 'Taiwan',
+        ring: [[120.1, 23.0], [120.9, 21.9], [121.9, 24.6], [121.5, 25.3], [120.3, 24.3]],
+    },
+    {
+        name: 'Hainan',
+        ring: [[108.6, 19.2], [110.4, 18.3], [111.0, 19.6], [110.5, 20.1], [109.3, 20.0]],
+    },
+    {
+        name: 'Luzon',
+        ring: [[120.6, 18.5], [122.3, 18.5], [122.1, 16.3], [121.6, 15.9], [124.0, 13.0], [122.0, 13.8], [120.6, 14.2], [119.8, 16.4]],
+    },
+    {
+        name: 'Mindanao',
+        ring: [[122.0, 7.0], [123.8, 7.7], [125.4, 9.8], [126.6, 7.3], [125.4, 5.6], [124.0, 6.4]],
+    },
+    {
+        name: 'Borneo',
+        ring: [
+            [109.0, 1.5], [109.6, 2.0], [111.5, 2.7], [113.0, 3.2], [115.3, 5.0], [116.9, 7.0],
+            [119.3, 5.3], [118.0, 4.4], [118.4, 1.1], [117.8, 0.8], [117.5, -0.5], [116.4, -2.5],
+            [116.0, -3.9], [114.5, -4.0], [111.8, -3.2], [110.2, -2.9], [109.1, -0.5],
+        ],
+    },
+    {
+        name: 'Sumatra',
+        ring: [
+            [95.3, 5.6], [97.5, 5.2], [100.4, 2.2], [103.5, -0.3], [104.5, -1.8], [106.0, -3.1],
+            [105.8, -5.8], [104.5, -5.9], [102.3, -4.0], [101.0, -2.6], [98.6, 1.8],
+        ],
+    },
+    {
+        name: 'Java',
+        ring: [
+            [105.2, -6.8], [106.0, -5.9], [108.3, -6.3], [110.7, -6.4], [112.6, -6.9], [114.6, -7.8],
+            [114.5, -8.7], [110.0, -8.1], [106.4, -7.4],
+        ],
+    },
+    {
+        name: 'Sulawesi',
+        ring: [
+            [118.8, -3.0], [119.4, 0.0], [120.1, 0.8], [123.0, 0.9], [125.1, 1.5], [124.0, 0.4],
+            [121.3, 0.4], [120.3, -1.0], [123.4, -1.0], [121.3, -2.0], [122.5, -4.5], [121.3, -4.8],
+            [120.4, -5.6], [119.4, -5.5],
+        ],
+    },
+    {
+        name: 'New Guinea',
+        ring: [
+            [131.0, -1.4], [134.1, -0.9], [137.8, -1.5], [141.0, -2.6], [145.5, -4.9], [147.6, -6.1],
+            [147.8, -8.0], [150.2, -10.7], [148.0, -10.1], [146.0, -8.0], [143.3, -9.0], [141.0, -9.1],
+            [138.0, -8.4], [138.9, -6.8], [137.3, -5.0], [134.3, -4.0], [132.8, -4.1], [132.0, -2.8],
+            [133.3, -2.2],
+        ],
+    },
+    {
+        name: 'Australia',
+        ring: [
+            [113.6, -22.0], [114.1, -26.0], [113.5, -26.5], [114.9, -29.4], [115.7, -31.8], [115.0, -34.2],
+            [117.9, -35.1], [123.6, -33.9], [126.0, -32.3], [131.2, -31.5], [134.3, -32.7], [135.9, -34.9],
+            [137.8, -32.9], [138.1, -34.3], [139.6, -37.4], [140.6, -38.0], [143.6, -38.8], [146.3, -39.1],
+            [147.8, -37.9], [150.0, -37.5], [151.3, -33.8], [153.1, -30.9], [153.6, -28.2], [153.1, -25.7],
+            [150.9, -22.7], [149.1, -21.0], [146.3, -18.9], [145.4, -16.1], [145.3, -14.9], [143.6, -14.0],
+            [142.5, -10.7], [141.6, -12.8], [141.5, -15.1], [140.6, -17.6], [139.3, -17.4], [137.3, -15.9],
+            [135.5, -15.0], [136.8, -12.2], [133.0, -11.6], [131.0, -12.2], [130.1, -13.2], [129.5, -14.9],
+            [128.0, -15.2], [126.1, -14.2], [124.4, -16.3], [122.3, -17.3], [121.1, -19.5], [118.8, -20.3],
+            [116.7, -20.6], [114.6, -21.8],
+        ],
+    },
+    {
+        name: 'Tasmania',
+        ring: [[144.6, -40.7], [148.3, -40.9], [148.2, -42.0], [147.0, -43.6], [145.5, -43.1]],
+    },
+    {
+        name: 'North Island, New Zealand',
+        ring: [
+            [172.7, -34.4], [174.3, -35.5], [175.9, -37.5], [178.5, -37.7], [177.9, -39.3], [176.9, -39.6],
+            [175.3, -41.6], [174.6, -41.2], [173.8, -39.2], [174.6, -38.0], [174.4, -36.5],
+        ],
+    },
+    {
+        name: 'South Island, New Zealand',
+        ring: [
+            [172.7, -40.5], [174.3, -41.7], [173.3, -43.0], [172.7, -43.8], [171.2, -44.5], [170.6, -45.9],
+            [169.0, -46.6], [166.5, -46.0], [166.7, -45.1], [168.3, -44.0], [170.6, -42.9], [171.6, -41.7],
+        ],
+    },
+    {
+        name: 'Antarctica',
+        ring: [
+            [-180.0, -78.0], [-160.0, -78.0], [-150.0, -76.0], [-135.0, -74.5], [-120.0, -73.8], [-100.0, -73.0],
+            [-80.0, -73.0], [-72.0, -70.0], [-65.0, -65.0], [-57.0, -63.3], [-60.0, -68.0], [-60.0, -75.0],
+            [-45.0, -78.0], [-30.0, -76.0], [-20.0, -73.5], [-10.0, -71.0], [0.0, -70.0], [15.0, -70.0],
+            [30.0, -69.5], [40.0, -68.6], [55.0, -66.5], [70.0, -68.0], [75.0, -69.5], [80.0, -67.5],
+            [90.0, -66.5], [100.0, -65.8], [110.0, -66.0], [120.0, -66.8], [135.0, -66.0], [150.0, -68.5],
+            [160.0, -70.0], [170.0, -71.5], [165.0, -78.0], [180.0, -78.0], [180.0, -90.0], [-180.0, -90.0],
+        ],
+    },
+];
@@ -0,0 +1,399 @@
+/**
+ * Polymer-X: Committee Sub-Agents
+ *
+ * Deterministic Architect → Safety Officer → Simulator debate following
+ * docs/LOGIC.md. Each sub-agent is a pure function of its inputs and the
+ * rule set; the orchestrator at the bottom only adds pacing between phases.
+ */
+
+import type {
+    ChassisType,
+    CocktailComponent,
+    CommitteeBioAgentResponse,
+    DebateEvent,
+    EnzymeDesign,
+    MonologueEntry,
+    PlasticType,
+    SafetyLock,
+    WaterAnalysis,
+} from '../docs/INTERFACES.js';
+import { MANDATORY_SAFETY_LOCK, REFERENCES } from './tables.js';
+import { DEFAULT_RULE_SET, type RuleSet } from './ruleset.js';
+import { abortableDelay } from './cancellation.js';
+import { failureFromError } from './failures.js';
+import {
+    assessEnvironment,
+    calculateConfidence,
+    calculateEfficiencyScore,
+    classifyEnvironmentalMatch,
+    describeStressors,
+    determineChassisType,
+    enzymeName,
+    findMissingSafetyLocks,
+    hasSafetyLock,
+    normalizeComposition,
+    requiredSafetyLocks,
+    weightedEfficiencyScore,
+    type EnvironmentalMatch,
+} from './rules.js';
+
+// =============================================================================
+// Sub-Agent A - The Architect
+// =============================================================================
+
+/**
+ * Compact summary of whatever water quality was actually measured
+ */
+function describeMeasurements(input: WaterAnalysis): string {
+    const parts = [`salinity=${input.salinity}ppt`];
+    if (input.temperature_c !== undefined) parts.push(`temp=${input.temperature_c}°C`);
+    if (input.ph !== undefined) parts.push(`pH=${input.ph}`);
+    if (input.depth_m !== undefined) parts.push(`depth=${input.depth_m}m`);
+    if (input.dissolved_oxygen_mg_l !== undefined) parts.push(`DO=${input.dissolved_oxygen_mg_l}mg/L`);
+    return parts.join(', ');
+}
+
+function formatPercent(fraction: number): string {
+    return `${Math.round(fraction * 100)}%`;
+}
+
+/**
+ * One enzyme of the proposal, sized to its polymer's share of the site
+ */
+export interface ComponentProposal {
+    plastic_type: PlasticType;
+    fraction: number;
+    organism: string;
+    organism_description: string;
+    enzyme_name: string;
+    mutation_list: string[];
+}
+
+/**
+ * The Architect's design. For a single-polymer site `components` has one
+ * entry and the top-level fields repeat it; for a mixed site they describe
+ * the whole consortium.
+ */
+export interface ArchitectProposal {
+    organism: string;
+    organism_description: string;
+    chassis_type: ChassisType;
+    enzyme_name: string;
+    mutation_list: string[];
+    components: ComponentProposal[];
+    rationale: string;
+    safety_locks?: SafetyLock[]; // May be missing initially
+}
+
+export function runArchitect(
+    input: WaterAnalysis,
+    rules: RuleSet = DEFAULT_RULE_SET
+): { proposal: ArchitectProposal; monologue: MonologueEntry } {
+    const chassis = determineChassisType(input, rules);
+    const stressors = describeStressors(assessEnvironment(input, rules));
+
+    // One enzyme per polymer, all under the site's chassis conditions
+    const components: ComponentProposal[] = normalizeComposition(input).map(share => ({
+        plastic_type: share.plastic_type,
+        fraction: share.fraction,
+        organism: rules.organisms[share.plastic_type].organism,
+        organism_description: rules.organisms[share.plastic_type].description,
+        enzyme_name: enzymeName(share.plastic_type, chassis, rules),
+        mutation_list: [...rules.enzymes[share.plastic_type].mutations],
+    }));
+    const isCocktail = components.length > 1;
+    const organisms = [...new Set(components.map(component => component.organism))];
+
+    const proposal: ArchitectProposal = {
+        organism: organisms.join(' + '),
+        organism_description: isCocktail
+            ? `Consortium of ${organisms.length} chassis organisms`
+            : components[0].organism_description,
+        chassis_type: chassis,
+        enzyme_name: components.map(component => component.enzyme_name).join(' + '),
+        mutation_list: components.flatMap(component => component.mutation_list),
+        components,
+        rationale: (isCocktail
+            ? `Mixed site (${components.map(component => `${formatPercent(component.fraction)} ${component.plastic_type}`).join(', ')}): ` +
+            `assembled a ${components.length}-enzyme cocktail. `
+            : `Selected ${components[0].organism} as chassis organism (${components[0].organism_description}). `) +
+            `Environmental analysis: ${describeMeasurements(input)}; stressors: ${stressors}. ` +
+            `Applying ${chassis} expression system.`,
+        // NOTE: Architect "forgets" the safety lock so the Safety Officer's
+        // rejection path is always exercised in the demo
+    };
+
+    const contamination = isCocktail
+        ? `mixed contamination (${components.map(component => `${formatPercent(component.fraction)} ${component.plastic_type}`).join(', ')})`
+        : `${input.plastic_type} contamination`;
+    const monologue: MonologueEntry = {
+        agent: 'ARCHITECT',
+        timestamp: new Date().toISOString(),
+        thought: `Analyzing water sample at (${input.lat.toFixed(2)}, ${input.lng.toFixed(2)}). ` +
+            `Detected ${contamination}. Measured: ${describeMeasurements(input)}. ` +
+            `Stressors: ${stressors}.`,
+        decision: isCocktail
+            ? `Proposing a ${components.length}-enzyme cocktail: ` +
+            components.map(component => `${component.enzyme_name} in ${component.organism} for ${component.plastic_type} ` +
+                `(${formatPercent(component.fraction)}, ${component.mutation_list.join('/')})`).join('; ') +
+            `. Expression system: ${chassis}.`
+            : `Proposing ${components[0].organism} chassis with ${rules.enzymes[components[0].plastic_type].base} enzyme. ` +
+            `Expression system: ${chassis}. Mutations: ${components[0].mutation_list.join(', ')}.`,
+    };
+
+    return { proposal, monologue };
+}
+
+// =============================================================================
+// Sub-Agent B - The Safety Officer
+// =============================================================================
+
+export interface SafetyReview {
+    approved: boolean;
+    required_locks: SafetyLock[];
+    missing_locks: SafetyLock[];
+    rejection_reason?: string;
+    corrected_proposal: ArchitectProposal;
+}
+
+function describeLocks(locks: readonly SafetyLock[]): string {
+    return locks.map(lock => `${lock.type} [${lock.rule}]`).join('; ');
+}
+
+export function runSafetyOfficer(
+    proposal: ArchitectProposal,
+    input: WaterAnalysis,
+    rules: RuleSet = DEFAULT_RULE_SET
+): { review: SafetyReview; monologue: MonologueEntry } {
+
+    // Mandatory Zhang et al. 2025 lock plus site-dependent locks (LOGIC.md §2.2)
+    const requiredLocks = requiredSafetyLocks(input, rules);
+    const missingLocks = findMissingSafetyLocks(proposal.safety_locks, requiredLocks);
+
+    if (missingLocks.length > 0) {
+        // REJECT and force retry with corrected proposal
+        const missingMandatory = !hasSafetyLock(proposal.safety_locks, MANDATORY_SAFETY_LOCK);
+        return {
+            review: {
+                approved: false,
+                required_locks: requiredLocks,
+                missing_locks: missingLocks,
+                rejection_reason: missingMandatory
+                    ? `CRITICAL VIOLATION: Missing mandatory ${MANDATORY_SAFETY_LOCK} kill switch per Zhang et al. 2025`
+                    : `Missing site-required locks: ${missingLocks.map(lock => lock.type).join(', ')}`,
+                corrected_proposal: {
+                    ...proposal,
+                    safety_locks: [...(proposal.safety_locks ?? []), ...missingLocks],
+                },
+            },
+            monologue: {
+                agent: 'SAFETY_OFFICER',
+                timestamp: new Date().toISOString(),
+                thought: `Reviewing proposal for ${proposal.organism}. ` +
+                    `Checking safety constraints from docs/LOGIC.md... Site requires: ${describeLocks(requiredLocks)}.`,
+                decision: `REJECTED - Architect proposal lacks ${missingLocks.map(lock => lock.type).join(', ')}!`,
+                rejected: true,
+                retry_reason: `Forcing retry with required safety locks: ${describeLocks(missingLocks)}.`,
+            },
+        };
+    }
+
+    return {
+        review: {
+            approved: true,
+            required_locks: requiredLocks,
+            missing_locks: [],
+            corrected_proposal: proposal,
+        },
+        monologue: {
+            agent: 'SAFETY_OFFICER',
+            timestamp: new Date().toISOString(),
+            thought: `Reviewing proposal for ${proposal.organism}. ` +
+                `Verifying Zhang et al. 2025 compliance and site-dependent locks...`,
+            decision: `APPROVED - All safety constraints satisfied. ` +
+                `Lock stack verified: ${describeLocks(requiredLocks)}.`,
+        },
+    };
+}
+
+// =============================================================================
+// Sub-Agent C - The Simulator
+// =============================================================================
+
+export interface ComponentPrediction {
+    plastic_type: PlasticType;
+    fraction: number;
+    efficiency_score: number;
+}
+
+export interface SimulatorPrediction {
+    /** Composition-weighted efficiency of the whole design */
+    efficiency_score: number;
+    confidence: number;
+    environmental_match: EnvironmentalMatch;
+    breakdown: ComponentPrediction[];
+    notes: string;
+}
+
+export function runSimulator(
+    proposal: ArchitectProposal,
+    input: WaterAnalysis,
+    rules: RuleSet = DEFAULT_RULE_SET
+): { prediction: SimulatorPrediction; monologue: MonologueEntry } {
+
+    const breakdown: ComponentPrediction[] = proposal.components.map(component => ({
+        plastic_type: component.plastic_type,
+        fraction: component.fraction,
+        efficiency_score: calculateEfficiencyScore(input, proposal.chassis_type, component.mutation_list.length, rules),
+    }));
+    const efficiencyScore = weightedEfficiencyScore(breakdown);
+    const isCocktail = breakdown.length > 1;
+    const envMatch = classifyEnvironmentalMatch(efficiencyScore);
+    const confidence = calculateConfidence(input, rules);
+    const describeBreakdown = () => breakdown
+        .map(component => `${component.plastic_type} ${(component.efficiency_score * 100).toFixed(0)}% × ${formatPercent(component.fraction)}`)
+        .join(', ');
+
+    const mutationCount = proposal.components[0].mutation_list.length;
+    const countedMutations = Math.min(mutationCount, rules.efficiency.max_mutations_counted);
+    const prediction: SimulatorPrediction = {
+        efficiency_score: efficiencyScore,
+        confidence,
+        environmental_match: envMatch,
+        breakdown,
+        notes: `Simulated ${proposal.enzyme_name} activity under ${proposal.chassis_type} expression. ` +
+            `Temperature/pH match: ${envMatch}. ` +
+            (isCocktail
+                ? `Per-polymer efficiency: ${describeBreakdown()}.`
+                : `Mutation count: ${mutationCount} (contributing +${(countedMutations * rules.efficiency.per_mutation_bonus).toFixed(2)} to score).`),
+    };
+
+    const monologue: MonologueEntry = {
+        agent: 'SIMULATOR',
+        timestamp: new Date().toISOString(),
+        thought: `Running Evo 2 efficiency simulation for ${proposal.enzyme_name}. ` +
+            `Base chassis: ${proposal.chassis_type}. ` +
+            `Environmental parameters: ${describeMeasurements(input)}; stressors: ${describeStressors(assessEnvironment(input, rules))}.`,
+        decision: `Prediction complete. Efficiency: ${(efficiencyScore * 100).toFixed(1)}% (${envMatch})` +
+            (isCocktail ? `, weighted from ${describeBreakdown()}. ` : '. ') +
+            `Confidence: ${(confidence * 100).toFixed(0)}%. ` +
+            `Model ready for deployment recommendation.`,
+    };
+
+    return { prediction, monologue };
+}
+
+// =============================================================================
+// Committee Orchestration
+// =============================================================================
+
+/**
+ * Assembles the final EnzymeDesign from the committee consensus
+ */
+export function assembleDesign(
+    proposal: ArchitectProposal,
+    prediction: SimulatorPrediction,
+    rules: RuleSet = DEFAULT_RULE_SET
+): EnzymeDesign {
+    const cocktail: CocktailComponent[] | undefined = proposal.components.length > 1
+        ? proposal.components.map((component, i) => ({
+            plastic_type: component.plastic_type,
+            fraction: Math.round(component.fraction * 1000) / 1000,
+            organism: component.organism,
+            enzyme_name: component.enzyme_name,
+            mutation_list: component.mutation_list,
+            predicted_efficiency_score: prediction.breakdown[i].efficiency_score,
+        }))
+        : undefined;
+
+    return {
+        enzyme_name: proposal.enzyme_name,
+        mutation_list: proposal.mutation_list,
+        predicted_efficiency_score: prediction.efficiency_score,
+        safety_locks: proposal.safety_locks ?? [],
+        chassis_type: proposal.chassis_type,
+        design_rationale: `[COMMITTEE CONSENSUS] Organism: ${proposal.organism} (${proposal.organism_description}). ` +
+            `${proposal.rationale} ` +
+            `Safety: ${(proposal.safety_locks ?? []).map(lock => lock.type).join(' + ')} verified. ` +
+            `Simulation: ${prediction.efficiency_score * 100}% efficiency (${prediction.environmental_match}).`,
+        references: [REFERENCES.LEE_2025, REFERENCES.ZHANG_2025],
+        rule_set_version: rules.version,
+        ...(cocktail && { cocktail }),
+    };
+}
+
+export interface DeterministicCommitteeOptions {
+    /** Pause before each phase so the debate reads as a sequence (default: 0) */
+    phaseDelayMs?: number;
+
+    /** Rule set to design under (default: DEFAULT_RULE_SET) */
+    ruleSet?: RuleSet;
+
+    /** Receives each monologue entry as it is recorded */
+    onEvent?: (event: DebateEvent) => void;
+
+    /** Stops the debate between phases (failure category 'CANCELLED') */
+    signal?: AbortSignal;
+}
+
+/**
+ * Runs the full deterministic debate. This is the SIMULATION mode of every
+ * front-end and the reference the LIVE mode is measured against.
+ */
+export async function runDeterministicCommittee(
+    input: WaterAnalysis,
+    options: DeterministicCommitteeOptions = {}
+): Promise<CommitteeBioAgentResponse> {
+    const phaseDelayMs = options.phaseDelayMs ?? 0;
+    const rules = options.ruleSet ?? DEFAULT_RULE_SET;
+    const monologue: MonologueEntry[] = [];
+    const record = (entry: MonologueEntry) => {
+        monologue.push(entry);
+        options.onEvent?.({ type: 'entry', entry });
+    };
+
+    try {
+        // Phase 1: The Architect proposes initial design
+        await abortableDelay(phaseDelayMs, options.signal, 'Architect');
+        const { proposal: initialProposal, monologue: architectMonologue } = runArchitect(input, rules);
+        record(architectMonologue);
+
+        // Phase 2: The Safety Officer reviews (may reject and force retry)
+        await abortableDelay(phaseDelayMs, options.signal, 'Safety Officer');
+        const { review, monologue: safetyMonologue } = runSafetyOfficer(initialProposal, input, rules);
+        record(safetyMonologue);
+
+        const finalProposal = review.corrected_proposal;
+
+        if (!review.approved) {
+            record({
+                agent: 'ARCHITECT',
+                timestamp: new Date().toISOString(),
+                thought: 'Received rejection from Safety Officer. Acknowledging required safety locks.',
+                decision: `Retry accepted. Adding ${review.missing_locks.map(lock => lock.type).join(', ')} to the lock stack.`,
+            });
+        }
+
+        // Phase 3: The Simulator predicts efficiency
+        await abortableDelay(phaseDelayMs, options.signal, 'Simulator');
+        const { prediction, monologue: simulatorMonologue } = runSimulator(finalProposal, input, rules);
+        record(simulatorMonologue);
+
+        return {
+            success: true,
+            data: assembleDesign(finalProposal, prediction, rules),
+            timestamp: new Date().toISOString(),
+            internal_monologue: monologue,
+            mode: 'SIMULATION',
+        };
+    } catch (error) {
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            failure: failureFromError(error),
+            timestamp: new Date().toISOString(),
+            internal_monologue: monologue,
+            mode: 'SIMULATION',
+        };
+    }
+}
@@ -0,0 +1,238 @@
+/**
+ * Polymer-X: LIVE Committee Debate
+ *
+ * Architect → Safety Officer → Simulator as separate model calls, each with
+ * its own system prompt. The Safety Officer can send a proposal back to the
+ * Architect for a bounded number of rounds; the Simulator then re-scores the
+ * approved design and critiques the Architect's estimate. The monologue
+ * records the exchange as it happened.
+ */
+
+import type { AgentRole, BioAgentConfig, DebateEvent, EnzymeDesign, MonologueEntry, WaterAnalysis } from '../docs/INTERFACES.js';
+import { DEFAULT_RULE_SET, type RuleSet } from './ruleset.js';
+import {
+    buildRevisionPrompt,
+    buildSafetyOfficerSystemPrompt,
+    buildSafetyReviewPrompt,
+    buildSimulationPrompt,
+    buildSimulatorSystemPrompt,
+} from './prompts.js';
+import { resolveBioAgentConfig, type ChatTurn, type LLMProvider } from './providers.js';
+import { runPhase } from './cancellation.js';
+import { checkJsonReply, requestValidatedDesign, requestValidatedReply, type DesignAttempt } from './validation.js';
+import { checkNumber, checkString, isRecord } from './schema.js';
+
+/** Architect proposals the Safety Officer reviews before the debate is abandoned */
+export const DEFAULT_MAX_DEBATE_ROUNDS = 3;
+
+// =============================================================================
+// Role Replies
+// =============================================================================
+
+export interface SafetyOfficerReply {
+    verdict: 'APPROVED' | 'REJECTED';
+    reasoning: string;
+
+    /** What the Architect must fix (empty when APPROVED) */
+    objections: string[];
+}
+
+export interface SimulatorReply {
+    predicted_efficiency_score: number;
+    critique: string;
+}
+
+export function validateSafetyOfficerReply(raw: unknown): string[] {
+    const issues: string[] = [];
+    if (!isRecord(raw)) {
+        return ['review: expected a JSON object'];
+    }
+    if (raw.verdict !== 'APPROVED' && raw.verdict !== 'REJECTED') {
+        issues.push('verdict: expected "APPROVED" or "REJECTED"');
+    }
+    checkString(issues, raw.reasoning, 'reasoning');
+    if (!Array.isArray(raw.objections) || raw.objections.some(objection => typeof objection !== 'string')) {
+        issues.push('objections: expected an array of strings');
+    } else if (raw.verdict === 'REJECTED' && raw.objections.length === 0) {
+        issues.push('objections: a REJECTED verdict needs at least one objection');
+    }
+    return issues;
+}
+
+export function validateSimulatorReply(raw: unknown): string[] {
+    const issues: string[] = [];
+    if (!isRecord(raw)) {
+        return ['prediction: expected a JSON object'];
+    }
+    checkNumber(issues, raw.predicted_efficiency_score, 'predicted_efficiency_score', 0, 1);
+    checkString(issues, raw.critique, 'critique');
+    return issues;
+}
+
+// =============================================================================
+// Debate Orchestrator
+// =============================================================================
+
+export interface LiveDebateOptions {
+    ruleSet?: RuleSet;
+
+    /** Replies each call gets to pass schema validation */
+    maxAttempts?: number;
+    maxRounds?: number;
+    config?: BioAgentConfig;
+
+    /** Receives each entry and reply token as it happens */
+    onEvent?: (event: DebateEvent) => void;
+
+    /** Stops the debate (DebateAbortedError 'CANCELLED') */
+    signal?: AbortSignal;
+
+    /** Limit per role call, repairs included (DebateAbortedError 'TIMED_OUT') */
+    phaseTimeoutMs?: number;
+}
+
+export type LiveDebateOutcome =
+    | 'APPROVED'         // Safety Officer approved and the Simulator scored the design
+    | 'SAFETY_REJECTED'  // Safety Officer still objected after the last round
+    | 'INVALID_REPLY';   // A role produced no valid reply within its attempts
+
+export interface LiveDebateResult {
+    /** The approved design with the Simulator's score (undefined unless APPROVED) */
+    design?: EnzymeDesign;
+    outcome: LiveDebateOutcome;
+
+    /** Architect proposals made */
+    rounds: number;
+    monologue: MonologueEntry[];
+
+    /** INVALID_REPLY only: the role that ran out of attempts and its last reply's issues */
+    failedRole?: AgentRole;
+    issues?: string[];
+}
+
+function formatScore(score: number): string {
+    return `${(score * 100).toFixed(1)}%`;
+}
+
+/**
+ * Runs the committee as three model roles until the Safety Officer approves
+ * a proposal (or maxRounds is reached) and the Simulator has scored it.
+ * Provider errors and DebateAbortedError propagate to the caller.
+ */
+export async function runLiveCommittee(
+    provider: LLMProvider,
+    input: WaterAnalysis,
+    options: LiveDebateOptions = {}
+): Promise<LiveDebateResult> {
+    const rules = options.ruleSet ?? DEFAULT_RULE_SET;
+    const maxRounds = Math.max(1, options.maxRounds ?? DEFAULT_MAX_DEBATE_ROUNDS);
+    const replyOptions = {
+        maxAttempts: options.maxAttempts,
+        config: options.config ?? resolveBioAgentConfig(provider),
+        onEvent: options.onEvent,
+    };
+    const monologue: MonologueEntry[] = [];
+    const record = (entry: MonologueEntry) => {
+        monologue.push(entry);
+        options.onEvent?.({ type: 'entry', entry });
+    };
+    let architectTurns: ChatTurn[] | undefined;
+    const invalidReply = (round: number, failedRole: AgentRole, attempts: DesignAttempt[]): LiveDebateResult => ({
+        outcome: 'INVALID_REPLY',
+        rounds: round,
+        monologue,
+        failedRole,
+        issues: attempts[attempts.length - 1]?.issues ?? [],
+    });
+
+    for (let round = 1; round <= maxRounds; round++) {
+        // Phase 1: Architect proposes (or revises after objections)
+        const proposal = await runPhase('Architect', options.phaseTimeoutMs, options.signal, signal =>
+            requestValidatedDesign(provider, input, { ...replyOptions, signal, ruleSet: rules, turns: architectTurns }));
+        monologue.push(...proposal.monologue);
+        if (!proposal.design) {
+            return invalidReply(round, 'ARCHITECT', proposal.attempts);
+        }
+        const design = proposal.design;
+        record({
+            agent: 'ARCHITECT',
+            timestamp: new Date().toISOString(),
+            thought: design.design_rationale,
+            decision: `${round > 1 ? 'Revised proposal' : 'Proposing'}: ${design.enzyme_name} ` +
+                `[${design.mutation_list.join(', ')}] on a ${design.chassis_type} chassis, ` +
+                `locks ${design.safety_locks.map(lock => lock.type).join(', ')}, ` +
+                `estimated efficiency ${formatScore(design.predicted_efficiency_score)}.`,
+        });
+
+        // Phase 2: Safety Officer reviews in its own conversation
+        const review = await runPhase('Safety Officer', options.phaseTimeoutMs, options.signal, signal => requestValidatedReply(
+            provider,
+            'SAFETY_OFFICER',
+            {
+                system: buildSafetyOfficerSystemPrompt(rules),
+                turns: [{ role: 'user', text: buildSafetyReviewPrompt(input, design, rules) }],
+            },
+            text => checkJsonReply<SafetyOfficerReply>(text, validateSafetyOfficerReply),
+            { ...replyOptions, signal, subject: 'review' }
+        ));
+        monologue.push(...review.monologue);
+        if (!review.value) {
+            return invalidReply(round, 'SAFETY_OFFICER', review.attempts);
+        }
+
+        if (review.value.verdict === 'REJECTED') {
+            const objections = review.value.objections;
+            const retrying = round < maxRounds;
+            record({
+                agent: 'SAFETY_OFFICER',
+                timestamp: new Date().toISOString(),
+                thought: review.value.reasoning,
+                decision: `REJECTED - ${objections.join('; ')}`,
+                rejected: true,
+                ...(retrying && { retry_reason: `Returning the proposal to the Architect (round ${round + 1}/${maxRounds}).` }),
+            });
+            if (!retrying) {
+                return { outcome: 'SAFETY_REJECTED', rounds: round, monologue };
+            }
+            architectTurns = [...proposal.turns, { role: 'user', text: buildRevisionPrompt(objections) }];
+            continue;
+        }
+
+        record({
+            agent: 'SAFETY_OFFICER',
+            timestamp: new Date().toISOString(),
+            thought: review.value.reasoning,
+            decision: `APPROVED - Lock stack: ${design.safety_locks.map(lock => lock.type).join(', ')}.`,
+        });
+
+        // Phase 3: Simulator scores the approved design
+        const simulation = await runPhase('Simulator', options.phaseTimeoutMs, options.signal, signal => requestValidatedReply(
+            provider,
+            'SIMULATOR',
+            {
+                system: buildSimulatorSystemPrompt(rules),
+                turns: [{ role: 'user', text: buildSimulationPrompt(input, design, rules) }],
+            },
+            text => checkJsonReply<SimulatorReply>(text, validateSimulatorReply),
+            { ...replyOptions, signal, subject: 'prediction' }
+        ));
+        monologue.push(...simulation.monologue);
+        if (!simulation.value) {
+            return invalidReply(round, 'SIMULATOR', simulation.attempts);
+        }
+
+        const score = simulation.value.predicted_efficiency_score;
+        record({
+            agent: 'SIMULATOR',
+            timestamp: new Date().toISOString(),
+            thought: simulation.value.critique,
+            decision: `Prediction complete. Efficiency: ${formatScore(score)} ` +
+                `(Architect estimated ${formatScore(design.predicted_efficiency_score)}).`,
+        });
+
+        return { design: { ...design, predicted_efficiency_score: score }, outcome: 'APPROVED', rounds: round, monologue };
+    }
+
+    // Unreachable: the last round either returns or is rejected above
+    return { outcome: 'SAFETY_REJECTED', rounds: maxRounds, monologue };
+}
@@ -0,0 +1,371 @@
+/**
+ * Polymer-X: Design Dossier
+ *
+ * Packages a deployment - its WaterAnalysis, response, rule set version and
+ * cited references - into a self-contained JSON bundle with a SHA-256 content
+ * hash, and renders the same bundle as a printable HTML report for wet-lab
+ * partners (the browser's print dialog saves it as PDF).
+ *
+ * Hashing uses Web Crypto (crypto.subtle), available in browsers and Node 18+.
+ * Imported dossiers are schema-checked with parseDossier before use.
+ */
+
+import type { BibliographyEntry, DeploymentRecord, DesignDossier, MonologueEntry } from '../docs/INTERFACES.js';
+import { getRuleSet } from './ruleset.js';
+import { determineChassisType, findMissingSafetyLocks, normalizeComposition, requiredSafetyLocks } from './rules.js';
+import { validateEnzymeDesign, validateWaterAnalysis } from './validation.js';
+import { checkString, isRecord } from './schema.js';
+import { citationKey, citedEntries } from './bibliography.js';
+import { describeConformance } from './audit.js';
+import { formatFailure } from './failures.js';
+import { WATER_BODY_LABELS } from './tables.js';
+
+export const DOSSIER_FORMAT = 'polymer-x-dossier';
+export const DOSSIER_FORMAT_VERSION = 1;
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+export class DossierValidationError extends Error {
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid design dossier:\n  - ${issues.join('\n  - ')}`);
+        this.name = 'DossierValidationError';
+        this.issues = issues;
+    }
+}
+
+// =============================================================================
+// Content Hash
+// =============================================================================
+
+function sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+        return value.map(sortKeys);
+    }
+    if (typeof value === 'object' && value !== null) {
+        const sorted: Record<string, unknown> = {};
+        for (const key of Object.keys(value).sort()) {
+            const field = (value as Record<string, unknown>)[key];
+            if (field !== undefined) {
+                sorted[key] = sortKeys(field);
+            }
+        }
+        return sorted;
+    }
+    return value;
+}
+
+/**
+ * JSON with object keys sorted at every level, so equal content always
+ * serializes (and hashes) the same
+ */
+export function canonicalJson(value: unknown): string {
+    return JSON.stringify(sortKeys(value));
+}
+
+async function sha256Hex(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function hashedContent(dossier: Omit<DesignDossier, 'content_hash'>): string {
+    const { format, format_version, exported_at, deployment, references } = dossier;
+    return canonicalJson({ format, format_version, exported_at, deployment, references });
+}
+
+// =============================================================================
+// Export and Verification
+// =============================================================================
+
+/**
+ * Bundles a deployment with the bibliography entries its design cites
+ */
+export async function createDossier(
+    deployment: DeploymentRecord,
+    bibliography: readonly BibliographyEntry[],
+    exportedAt: string = new Date().toISOString()
+): Promise<DesignDossier> {
+    const content: Omit<DesignDossier, 'content_hash'> = {
+        format: DOSSIER_FORMAT,
+        format_version: DOSSIER_FORMAT_VERSION,
+        exported_at: exportedAt,
+        deployment,
+        references: citedEntries(deployment.response.data?.references ?? [], bibliography),
+    };
+    return { ...content, content_hash: { algorithm: 'SHA-256', value: await sha256Hex(hashedContent(content)) } };
+}
+
+export interface DossierVerification {
+    valid: boolean;
+
+    /** Hash recorded in the dossier */
+    expected: string;
+
+    /** Hash of the dossier's content as it is now */
+    actual: string;
+}
+
+/**
+ * Recomputes the content hash; any edit to the dossier after export makes it invalid
+ */
+export async function verifyDossier(dossier: DesignDossier): Promise<DossierVerification> {
+    const actual = await sha256Hex(hashedContent(dossier));
+    return { valid: actual === dossier.content_hash.value, expected: dossier.content_hash.value, actual };
+}
+
+// =============================================================================
+// Import Validation
+// =============================================================================
+
+function checkDeployment(issues: string[], raw: unknown, path: string): void {
+    if (!isRecord(raw)) {
+        issues.push(`${path}: expected an object`);
+        return;
+    }
+    checkString(issues, raw.id, `${path}.id`);
+    checkString(issues, raw.created_at, `${path}.created_at`);
+    checkString(issues, raw.rule_set_version, `${path}.rule_set_version`);
+    if (!isRecord(raw.input)) {
+        issues.push(`${path}.input: expected an object`);
+    } else {
+        issues.push(...validateWaterAnalysis(raw.input).map(issue => `${path}.input.${issue}`));
+    }
+
+    const response = raw.response;
+    if (!isRecord(response)) {
+        issues.push(`${path}.response: expected an object`);
+        return;
+    }
+    if (typeof response.success !== 'boolean') {
+        issues.push(`${path}.response.success: expected a boolean`);
+    }
+    if (response.mode !== 'LIVE' && response.mode !== 'SIMULATION') {
+        issues.push(`${path}.response.mode: expected LIVE or SIMULATION`);
+    }
+    if (!Array.isArray(response.internal_monologue)) {
+        issues.push(`${path}.response.internal_monologue: expected an array`);
+    }
+    if (response.data !== undefined) {
+        issues.push(...validateEnzymeDesign(response.data).map(issue => `${path}.response.data.${issue}`));
+    }
+}
+
+/**
+ * Lists every problem with a raw dossier (empty when valid). The content
+ * hash is only checked for shape here; verifyDossier checks its value.
+ */
+export function validateDossier(raw: unknown): string[] {
+    if (!isRecord(raw)) {
+        return ['dossier: expected a JSON object'];
+    }
+    const issues: string[] = [];
+    if (raw.format !== DOSSIER_FORMAT) {
+        issues.push(`format: expected "${DOSSIER_FORMAT}"`);
+    }
+    if (raw.format_version !== DOSSIER_FORMAT_VERSION) {
+        issues.push(`format_version: expected ${DOSSIER_FORMAT_VERSION}`);
+    }
+    checkString(issues, raw.exported_at, 'exported_at');
+    checkDeployment(issues, raw.deployment, 'deployment');
+    if (!Array.isArray(raw.references)) {
+        issues.push('references: expected an array');
+    }
+    const hash = raw.content_hash;
+    if (!isRecord(hash) || hash.algorithm !== 'SHA-256' || typeof hash.value !== 'string' || !SHA256_PATTERN.test(hash.value)) {
+        issues.push('content_hash: expected { algorithm: "SHA-256", value: <64 lowercase hex digits> }');
+    }
+    return issues;
+}
+
+/**
+ * Validates a raw dossier and returns it typed.
+ * Throws DossierValidationError listing every problem found.
+ */
+export function parseDossier(raw: unknown): DesignDossier {
+    const issues = validateDossier(raw);
+    if (issues.length > 0) {
+        throw new DossierValidationError(issues);
+    }
+    return raw as DesignDossier;
+}
+
+// =============================================================================
+// Printable Report
+// =============================================================================
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function tableRows(rows: [string, string][]): string {
+    return rows.map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('\n');
+}
+
+function check(ok: boolean, text: string): string {
+    return `<li class="${ok ? 'pass' : 'fail'}">${ok ? '✔' : '✘'} ${escapeHtml(text)}</li>`;
+}
+
+function renderSite(deployment: DeploymentRecord): string {
+    const { input } = deployment;
+    const rows: [string, string][] = [
+        ['Location', `${input.lat.toFixed(4)}°, ${input.lng.toFixed(4)}°`],
+        ['Salinity', `${input.salinity} ppt`],
+        ['Composition', normalizeComposition(input).map(share => `${share.plastic_type} ${(share.fraction * 100).toFixed(0)}%`).join(', ')],
+        ['Stress signal', input.stress_signal_bool ? 'Reported' : 'None'],
+    ];
+    if (input.water_body !== undefined) rows.splice(1, 0, ['Water body', WATER_BODY_LABELS[input.water_body]]);
+    if (input.temperature_c !== undefined) rows.push(['Temperature', `${input.temperature_c} °C`]);
+    if (input.ph !== undefined) rows.push(['pH', String(input.ph)]);
+    if (input.depth_m !== undefined) rows.push(['Depth', `${input.depth_m} m`]);
+    if (input.dissolved_oxygen_mg_l !== undefined) rows.push(['Dissolved oxygen', `${input.dissolved_oxygen_mg_l} mg/L`]);
+    for (const [toxin, value] of Object.entries(input.toxins ?? {})) {
+        if (value !== undefined) rows.push([toxin, String(value)]);
+    }
+    const flags = Object.entries(input.site_context ?? {}).filter(([, on]) => on).map(([flag]) => flag);
+    if (flags.length > 0) rows.push(['Site context', flags.join(', ')]);
+    return `<h2>Site</h2>\n<table>\n${tableRows(rows)}\n</table>`;
+}
+
+function renderDesign(deployment: DeploymentRecord): string {
+    const { response } = deployment;
+    const design = response.data;
+    const notices = [
+        response.failure && `<p class="fail">${escapeHtml(formatFailure(response.failure))}</p>`,
+        response.fallback && `<p class="warn">LIVE committee failed, simulated instead - ${escapeHtml(formatFailure(response.fallback))}</p>`,
+    ].filter(Boolean).join('\n');
+    if (!design) {
+        return `<h2>Design</h2>\n${notices || `<p class="fail">${escapeHtml(response.error ?? 'No design was produced.')}</p>`}`;
+    }
+
+    const rows: [string, string][] = [
+        ['Enzyme', design.enzyme_name],
+        ['Chassis', design.chassis_type],
+        ['Mutations', design.mutation_list.join(', ')],
+        ['Predicted efficiency', `${(design.predicted_efficiency_score * 100).toFixed(1)}%`],
+        ['Rule set', `v${design.rule_set_version}`],
+    ];
+    const cocktail = design.cocktail
+        ? `<h3>Cocktail</h3>\n<table>\n${tableRows(design.cocktail.map(component => [
+            `${component.plastic_type} (${(component.fraction * 100).toFixed(0)}%)`,
+            `${component.enzyme_name} in ${component.organism} [${component.mutation_list.join(', ')}] → ${(component.predicted_efficiency_score * 100).toFixed(1)}%`,
+        ]))}\n</table>`
+        : '';
+    return [
+        '<h2>Design</h2>',
+        notices,
+        `<table>\n${tableRows(rows)}\n</table>`,
+        cocktail,
+        '<h3>Rationale</h3>',
+        `<p>${escapeHtml(design.design_rationale)}</p>`,
+    ].filter(Boolean).join('\n');
+}
+
+function renderSafety(deployment: DeploymentRecord): string {
+    const design = deployment.response.data;
+    if (!design) {
+        return '';
+    }
+    const items = design.safety_locks.map(lock => `<li>🔒 <strong>${escapeHtml(lock.type)}</strong> - ${escapeHtml(lock.rule)}</li>`);
+    const rules = getRuleSet(deployment.rule_set_version);
+    const checks: string[] = [];
+    if (rules) {
+        const missing = findMissingSafetyLocks(design.safety_locks, requiredSafetyLocks(deployment.input, rules));
+        checks.push(check(missing.length === 0, missing.length === 0
+            ? 'Every lock the site requires is present'
+            : `Missing required lock(s): ${missing.map(lock => lock.type).join(', ')}`));
+        const expectedChassis = determineChassisType(deployment.input, rules);
+        checks.push(check(design.chassis_type === expectedChassis, `Chassis ${design.chassis_type} (rules require ${expectedChassis})`));
+    } else {
+        checks.push(`<li class="warn">Rule set v${escapeHtml(deployment.rule_set_version)} is not bundled; lock and chassis checks skipped</li>`);
+    }
+    const conformance = deployment.response.conformance;
+    if (conformance) {
+        checks.push(check(conformance.verdict !== 'REJECTED', `Conformance audit: ${describeConformance(conformance)}`));
+    }
+    return `<h2>Safety</h2>\n<ul>\n${items.join('\n')}\n</ul>\n<h3>Checks</h3>\n<ul class="checks">\n${checks.join('\n')}\n</ul>`;
+}
+
+function renderEntry(entry: MonologueEntry): string {
+    return [
+        `<li><strong>${escapeHtml(entry.agent)}</strong> <span class="muted">${escapeHtml(entry.timestamp)}</span>`,
+        `<div>${escapeHtml(entry.thought)}</div>`,
+        entry.decision ? `<div class="${entry.rejected ? 'fail' : 'pass'}">${entry.rejected ? '✘' : '✔'} ${escapeHtml(entry.decision)}</div>` : '',
+        entry.retry_reason ? `<div class="warn">↻ ${escapeHtml(entry.retry_reason)}</div>` : '',
+        '</li>',
+    ].filter(Boolean).join('\n');
+}
+
+function renderReferences(dossier: DesignDossier): string {
+    const cited = dossier.references.map(entry => [
+        `<li><strong>${escapeHtml(entry.citation)}</strong> - "${escapeHtml(entry.title)}", <em>${escapeHtml(entry.publication)}</em>`,
+        entry.notes.length > 0 ? `<ul>${entry.notes.map(note => `<li>${escapeHtml(note)}</li>`).join('')}</ul>` : '',
+        '</li>',
+    ].join('\n'));
+    // References the bibliography does not list are reproduced as the design gave them
+    const known = new Set(dossier.references.map(entry => entry.citation));
+    const other = (dossier.deployment.response.data?.references ?? [])
+        .filter(reference => !known.has(citationKey(reference) ?? ''))
+        .map(reference => `<li>${escapeHtml(reference)}</li>`);
+    const items = [...cited, ...other];
+    return items.length > 0 ? `<h2>References</h2>\n<ol>\n${items.join('\n')}\n</ol>` : '';
+}
+
+const REPORT_STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 52rem; margin: 2rem auto; padding: 0 1rem; color: #111; line-height: 1.45; }
+h1 { margin-bottom: 0.2rem; } h2 { border-bottom: 1px solid #ccc; padding-bottom: 0.2rem; margin-top: 2rem; }
+table { border-collapse: collapse; width: 100%; } th, td { text-align: left; vertical-align: top; padding: 0.25rem 0.5rem; border-bottom: 1px solid #eee; }
+th { width: 30%; color: #444; font-weight: 600; }
+.muted { color: #777; font-size: 0.85em; } .pass { color: #166534; } .fail { color: #b91c1c; } .warn { color: #a16207; }
+ul.checks, ol.debate { padding-left: 1.2rem; } ol.debate > li { margin-bottom: 0.6rem; }
+code { font-size: 0.85em; word-break: break-all; }
+@media print { body { margin: 0; } .no-print { display: none; } h2 { break-after: avoid; } li { break-inside: avoid; } }
+`;
+
+/**
+ * Self-contained HTML report of a dossier: rationale, full debate, safety
+ * checks and references
+ */
+export function renderDossierHtml(dossier: DesignDossier): string {
+    const { deployment } = dossier;
+    const { response } = deployment;
+    const title = response.data?.enzyme_name ?? 'Failed deployment';
+    const meta: [string, string][] = [
+        ['Deployed', deployment.created_at],
+        ['Exported', dossier.exported_at],
+        ['Mode', response.mode + (response.provider ? ` (${response.provider}${deployment.agent_config ? `, ${deployment.agent_config.model}` : ''})` : '')],
+        ['Rule set', `v${deployment.rule_set_version}`],
+        ['Deployment ID', deployment.id],
+    ];
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Polymer-X Design Dossier - ${escapeHtml(title)}</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<p class="no-print"><button onclick="window.print()">Print / Save as PDF</button></p>
+<h1>Polymer-X Design Dossier</h1>
+<p class="muted">${escapeHtml(title)}</p>
+<table>
+${tableRows(meta)}
+<tr><th>Content hash (${dossier.content_hash.algorithm})</th><td><code>${escapeHtml(dossier.content_hash.value)}</code></td></tr>
+</table>
+${renderSite(deployment)}
+${renderDesign(deployment)}
+${renderSafety(deployment)}
+<h2>Committee Debate</h2>
+<ol class="debate">
+${response.internal_monologue.map(renderEntry).join('\n')}
+</ol>
+${renderReferences(dossier)}
+</body>
+</html>
+`;
+}
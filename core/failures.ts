@@ -0,0 +1,118 @@
+/**
+ * Polymer-X: Failure Taxonomy
+ *
+ * Maps whatever stopped a run - a provider error, an unusable model reply, a
+ * rejection or an abort - to a DebateFailure, so front-ends can say exactly
+ * why a design failed or was degraded to the simulation.
+ */
+
+import type { AgentRole, ConformanceReport, DebateFailure, FailureCategory } from '../docs/INTERFACES.js';
+import { DebateAbortedError } from './cancellation.js';
+import { ProviderError } from './providers.js';
+import { EnzymeDesignValidationError } from './validation.js';
+import { describeConformance } from './audit.js';
+import type { LiveDebateResult } from './debate.js';
+
+/** Short label per category, for badges and log lines */
+export const FAILURE_LABELS: Record<FailureCategory, string> = {
+    AUTH: 'Authentication failed',
+    QUOTA: 'Quota exceeded',
+    NETWORK: 'Network error',
+    PROVIDER: 'Provider error',
+    PARSE: 'Unparseable reply',
+    VALIDATION: 'Invalid reply',
+    SAFETY_REJECTION: 'Safety rejection',
+    CONFORMANCE_REJECTION: 'Conformance rejection',
+    CANCELLED: 'Cancelled',
+    TIMED_OUT: 'Timed out',
+    INTERNAL: 'Internal error',
+};
+
+const ROLE_NAMES: Record<AgentRole, string> = {
+    ARCHITECT: 'Architect',
+    SAFETY_OFFICER: 'Safety Officer',
+    SIMULATOR: 'Simulator',
+};
+
+/** Prefix of the issue a reply gets when it is not JSON at all (see checkJsonReply) */
+const NOT_JSON_ISSUE = 'response: not valid JSON';
+
+function describeCause(cause: unknown): string | undefined {
+    if (cause instanceof Error) {
+        const inner = describeCause(cause.cause);
+        return inner ? `${cause.message} (${inner})` : cause.message;
+    }
+    if (typeof cause === 'string' && cause.length > 0) {
+        return cause;
+    }
+    return undefined;
+}
+
+/**
+ * Classifies a thrown error
+ */
+export function failureFromError(error: unknown): DebateFailure {
+    if (error instanceof DebateAbortedError) {
+        return { category: error.kind, message: error.message };
+    }
+    if (error instanceof ProviderError) {
+        const cause = describeCause(error.cause);
+        return { category: error.category, message: error.message, ...(cause && { cause }) };
+    }
+    if (error instanceof EnzymeDesignValidationError) {
+        return { category: 'VALIDATION', message: 'Invalid enzyme design.', cause: error.issues.join('; ') };
+    }
+    if (error instanceof SyntaxError) {
+        return { category: 'PARSE', message: 'Reply is not valid JSON.', cause: error.message };
+    }
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    const cause = error instanceof Error ? describeCause(error.cause) : describeCause(error);
+    return { category: 'INTERNAL', message, ...(cause && { cause }) };
+}
+
+/**
+ * Why a LIVE debate produced no design (undefined when it was APPROVED)
+ */
+export function failureFromDebate(result: LiveDebateResult): DebateFailure | undefined {
+    switch (result.outcome) {
+        case 'SAFETY_REJECTED': {
+            const rejection = [...result.monologue].reverse()
+                .find(entry => entry.agent === 'SAFETY_OFFICER' && entry.rejected);
+            return {
+                category: 'SAFETY_REJECTION',
+                message: `Safety Officer rejected the Architect's proposals in all ${result.rounds} round(s).`,
+                ...(rejection?.decision && { cause: rejection.decision }),
+            };
+        }
+        case 'INVALID_REPLY': {
+            const issues = result.issues ?? [];
+            const role = result.failedRole ?? 'ARCHITECT';
+            return {
+                category: issues.length > 0 && issues.every(issue => issue.startsWith(NOT_JSON_ISSUE)) ? 'PARSE' : 'VALIDATION',
+                message: `${ROLE_NAMES[role]} produced no valid reply (round ${result.rounds}).`,
+                agent: role,
+                ...(issues.length > 0 && { cause: issues.join('; ') }),
+            };
+        }
+        case 'APPROVED':
+            return undefined;
+    }
+}
+
+/**
+ * Why the conformance audit refused a design
+ */
+export function failureFromConformance(report: ConformanceReport): DebateFailure {
+    return {
+        category: 'CONFORMANCE_REJECTION',
+        message: 'Design rejected by the conformance audit.',
+        cause: describeConformance(report),
+    };
+}
+
+/**
+ * One-line summary for logs and error strings, e.g. "Quota exceeded: Gemini API error: 429 ... (...)"
+ */
+export function formatFailure(failure: DebateFailure): string {
+    return `${FAILURE_LABELS[failure.category]}: ${failure.message}${failure.cause ? ` (${failure.cause})` : ''}`;
+}
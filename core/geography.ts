@@ -0,0 +1,342 @@
+/**
+ * Polymer-X: Deployment Target Geography
+ *
+ * Tells water from land at a deployment target using the bundled coastlines
+ * (core/coastlines.ts) plus outlines of the major lakes and circles around
+ * major estuaries, classifies the water for the safety rules, and finds the
+ * nearest water when a target falls on land. Lakes and estuaries are checked
+ * first, so they win where the coarse coastlines overlap them.
+ */
+
+import type { WaterBodyType } from '../docs/INTERFACES.js';
+import { LANDMASSES, type LngLat } from './coastlines.js';
+import { WATER_BODY_LABELS } from './tables.js';
+
+export interface InlandWater {
+    name: string;
+    ring: readonly LngLat[];
+}
+
+export interface Estuary {
+    name: string;
+    lat: number;
+    lng: number;
+
+    /** Reach of the estuary and its plume */
+    radius_km: number;
+}
+
+/** Sea within this distance of a coastline counts as COASTAL */
+export const COASTAL_ZONE_KM = 50;
+
+/** How far from a land target to look for water before refusing it */
+export const MAX_SNAP_DISTANCE_KM = 2000;
+
+const EARTH_RADIUS_KM = 6371;
+
+export const INLAND_WATERS: readonly InlandWater[] = [
+    {
+        name: 'Caspian Sea',
+        ring: [
+            [46.7, 44.6], [47.5, 45.6], [49.0, 46.6], [51.5, 47.0], [53.2, 46.7], [53.0, 45.3],
+            [51.3, 44.5], [50.3, 44.6], [51.3, 43.2], [52.7, 42.4], [52.9, 41.0], [54.0, 40.9],
+            [53.9, 39.0], [53.9, 37.3], [51.9, 36.6], [50.2, 37.4], [49.0, 38.4], [49.4, 40.2],
+            [50.3, 40.4], [48.6, 41.8], [47.5, 43.0],
+        ],
+    },
+    {
+        name: 'Lake Superior',
+        ring: [[-92.1, 46.7], [-89.9, 46.8], [-87.4, 46.5], [-84.6, 46.5], [-84.9, 47.9], [-86.5, 48.7], [-88.3, 48.9], [-89.6, 48.0]],
+    },
+    {
+        name: 'Lake Michigan',
+        ring: [[-87.8, 41.6], [-86.6, 41.8], [-86.2, 43.5], [-85.6, 45.2], [-84.8, 45.8], [-86.5, 45.9], [-87.6, 45.1], [-87.9, 43.4]],
+    },
+    {
+        name: 'Lake Huron',
+        ring: [[-84.7, 45.9], [-82.5, 43.0], [-81.7, 43.6], [-81.3, 45.2], [-80.1, 44.5], [-80.8, 46.0], [-83.5, 46.2]],
+    },
+    {
+        name: 'Lake Erie',
+        ring: [[-83.4, 41.7], [-81.5, 41.5], [-78.9, 42.8], [-80.4, 42.6], [-82.5, 42.0]],
+    },
+    {
+        name: 'Lake Ontario',
+        ring: [[-79.8, 43.3], [-76.3, 43.5], [-76.2, 44.1], [-77.7, 44.0], [-79.4, 43.7]],
+    },
+    {
+        name: 'Lake Winnipeg',
+        ring: [[-97.2, 50.4], [-96.3, 51.5], [-98.4, 53.8], [-99.1, 53.4], [-97.5, 51.7]],
+    },
+    {
+        name: 'Great Slave Lake',
+        ring: [[-117.0, 61.0], [-113.0, 61.5], [-109.0, 62.6], [-112.5, 62.8], [-116.0, 61.8]],
+    },
+    {
+        name: 'Great Bear Lake',
+        ring: [[-125.0, 65.5], [-121.0, 64.8], [-118.5, 66.4], [-123.0, 67.0]],
+    },
+    {
+        name: 'Lake Titicaca',
+        ring: [[-69.9, -15.2], [-69.1, -15.3], [-68.6, -16.2], [-68.9, -16.4], [-69.9, -15.9]],
+    },
+    {
+        name: 'Lake Ladoga',
+        ring: [[30.0, 60.1], [32.8, 60.6], [32.5, 61.2], [30.9, 61.7], [29.9, 61.2]],
+    },
+    {
+        name: 'Lake Victoria',
+        ring: [[31.7, -1.0], [32.6, 0.3], [33.9, 0.1], [34.1, -0.6], [33.6, -2.1], [32.3, -2.6], [31.6, -1.9]],
+    },
+    {
+        name: 'Lake Tanganyika',
+        ring: [[29.1, -3.3], [29.4, -3.4], [30.5, -6.0], [31.2, -8.6], [30.5, -8.7], [29.6, -6.8], [29.2, -5.0]],
+    },
+    {
+        name: 'Lake Malawi',
+        ring: [[34.3, -9.5], [35.0, -11.0], [34.8, -14.1], [34.5, -14.5], [34.2, -12.0], [33.9, -10.0]],
+    },
+    {
+        name: 'Lake Baikal',
+        ring: [[103.8, 51.5], [105.8, 51.8], [108.4, 53.3], [109.8, 55.7], [109.3, 55.9], [107.4, 54.0], [105.0, 52.3]],
+    },
+];
+
+export const ESTUARIES: readonly Estuary[] = [
+    { name: 'Río de la Plata', lat: -35.0, lng: -57.0, radius_km: 120 },
+    { name: 'Amazon River mouth', lat: -0.5, lng: -49.5, radius_km: 150 },
+    { name: 'Orinoco Delta', lat: 9.0, lng: -61.0, radius_km: 80 },
+    { name: 'Mississippi River Delta', lat: 29.2, lng: -89.4, radius_km: 60 },
+    { name: 'Chesapeake Bay', lat: 37.8, lng: -76.2, radius_km: 80 },
+    { name: 'Delaware Bay', lat: 39.0, lng: -75.2, radius_km: 40 },
+    { name: 'Hudson River estuary', lat: 40.6, lng: -74.0, radius_km: 30 },
+    { name: 'St. Lawrence Estuary', lat: 48.5, lng: -69.0, radius_km: 120 },
+    { name: 'San Francisco Bay', lat: 37.8, lng: -122.3, radius_km: 40 },
+    { name: 'Columbia River mouth', lat: 46.2, lng: -123.9, radius_km: 30 },
+    { name: 'Thames Estuary', lat: 51.5, lng: 0.8, radius_km: 40 },
+    { name: 'Elbe Estuary', lat: 53.9, lng: 8.8, radius_km: 40 },
+    { name: 'Rhine-Meuse-Scheldt Delta', lat: 51.7, lng: 4.0, radius_km: 50 },
+    { name: 'Seine Estuary', lat: 49.45, lng: 0.2, radius_km: 25 },
+    { name: 'Gironde Estuary', lat: 45.5, lng: -1.0, radius_km: 40 },
+    { name: 'Nile Delta', lat: 31.4, lng: 31.2, radius_km: 60 },
+    { name: 'Niger Delta', lat: 4.3, lng: 6.0, radius_km: 100 },
+    { name: 'Congo River mouth', lat: -6.0, lng: 12.3, radius_km: 50 },
+    { name: 'Shatt al-Arab', lat: 29.9, lng: 48.6, radius_km: 50 },
+    { name: 'Indus River Delta', lat: 24.0, lng: 67.4, radius_km: 60 },
+    { name: 'Ganges-Brahmaputra Delta', lat: 22.0, lng: 90.0, radius_km: 150 },
+    { name: 'Irrawaddy Delta', lat: 15.8, lng: 95.3, radius_km: 80 },
+    { name: 'Mekong Delta', lat: 9.8, lng: 106.5, radius_km: 90 },
+    { name: 'Pearl River Delta', lat: 22.3, lng: 113.7, radius_km: 60 },
+    { name: 'Yangtze River Estuary', lat: 31.4, lng: 121.8, radius_km: 70 },
+    { name: 'Yellow River Delta', lat: 37.7, lng: 119.2, radius_km: 50 },
+];
+
+// =============================================================================
+// Geometry
+// =============================================================================
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+/** Longitude difference folded into -180..180 */
+const lngDelta = (from: number, to: number) => ((to - from) % 360 + 540) % 360 - 180;
+
+/**
+ * Great-circle distance in km
+ */
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const dLat = toRadians(lat2 - lat1);
+    const dLng = toRadians(lngDelta(lng1, lng2));
+    const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Point reached by travelling a distance along a compass bearing
+ */
+function destination(lat: number, lng: number, bearingDegrees: number, km: number): { lat: number; lng: number } {
+    const angle = km / EARTH_RADIUS_KM;
+    const bearing = toRadians(bearingDegrees);
+    const phi = toRadians(lat);
+    const sinLat = Math.sin(phi) * Math.cos(angle) + Math.cos(phi) * Math.sin(angle) * Math.cos(bearing);
+    const lambda = Math.atan2(
+        Math.sin(bearing) * Math.sin(angle) * Math.cos(phi),
+        Math.cos(angle) - Math.sin(phi) * sinLat
+    );
+    return {
+        lat: Math.asin(sinLat) * 180 / Math.PI,
+        lng: ((lng + lambda * 180 / Math.PI) % 360 + 540) % 360 - 180,
+    };
+}
+
+function insideRing(lat: number, lng: number, ring: readonly LngLat[]): boolean {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [lngI, latI] = ring[i];
+        const [lngJ, latJ] = ring[j];
+        if ((latI > lat) !== (latJ > lat) && lng < (lngJ - lngI) * (lat - latI) / (latJ - latI) + lngI) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+/**
+ * Distance in km to the nearest edge of a ring (flat approximation around the point,
+ * accurate for the short distances it is used to compare)
+ */
+function distanceToRingKm(lat: number, lng: number, ring: readonly LngLat[]): number {
+    const kmPerLng = 111.32 * Math.cos(toRadians(lat));
+    const kmPerLat = 110.57;
+    let nearest = Infinity;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const lngA = lngDelta(lng, ring[j][0]);
+        const lngB = lngDelta(lng, ring[i][0]);
+        if (Math.abs(lngB - lngA) > 180) {
+            continue; // straddles the far side of the globe
+        }
+        const ax = lngA * kmPerLng;
+        const ay = (ring[j][1] - lat) * kmPerLat;
+        const bx = lngB * kmPerLng;
+        const by = (ring[i][1] - lat) * kmPerLat;
+        const dx = bx - ax;
+        const dy = by - ay;
+        const length = dx * dx + dy * dy;
+        const t = length === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / length));
+        nearest = Math.min(nearest, Math.hypot(ax + t * dx, ay + t * dy));
+    }
+    return nearest;
+}
+
+// =============================================================================
+// Classification
+// =============================================================================
+
+export function isValidCoordinate(lat: number, lng: number): boolean {
+    return Number.isFinite(lat) && Number.isFinite(lng) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+export type LocationClass =
+    | {
+        surface: 'water';
+        water_body: WaterBodyType;
+
+        /** Lake or estuary name */
+        feature?: string;
+    }
+    | {
+        surface: 'land';
+        landmass: string;
+    };
+
+/**
+ * Throws a RangeError for coordinates no place on Earth has (NaN, or latitude
+ * outside [-90, 90] / longitude outside [-180, 180]), so they are never
+ * mistaken for open ocean
+ */
+export function classifyLocation(lat: number, lng: number): LocationClass {
+    if (!isValidCoordinate(lat, lng)) {
+        throw new RangeError(`Invalid coordinates: ${lat}°, ${lng}°`);
+    }
+    const lake = INLAND_WATERS.find(water => insideRing(lat, lng, water.ring));
+    if (lake) {
+        return { surface: 'water', water_body: 'LAKE', feature: lake.name };
+    }
+    const estuary = ESTUARIES.find(site => distanceKm(lat, lng, site.lat, site.lng) <= site.radius_km);
+    if (estuary) {
+        return { surface: 'water', water_body: 'ESTUARY', feature: estuary.name };
+    }
+    const landmass = LANDMASSES.find(land => insideRing(lat, lng, land.ring));
+    if (landmass) {
+        return { surface: 'land', landmass: landmass.name };
+    }
+    const coastal = LANDMASSES.some(land => distanceToRingKm(lat, lng, land.ring) <= COASTAL_ZONE_KM);
+    return { surface: 'water', water_body: coastal ? 'COASTAL' : 'OPEN_OCEAN' };
+}
+
+export function describeLocation(location: LocationClass): string {
+    if (location.surface === 'land') {
+        return `Land (${location.landmass})`;
+    }
+    return location.feature
+        ? `${WATER_BODY_LABELS[location.water_body]} - ${location.feature}`
+        : WATER_BODY_LABELS[location.water_body];
+}
+
+// =============================================================================
+// Snapping
+// =============================================================================
+
+/** Search ring spacing: fine near the target, coarser further out */
+function searchStepKm(radius: number): number {
+    return radius < 100 ? 10 : radius < 500 ? 25 : 50;
+}
+
+export type DeploymentTarget =
+    | {
+        status: 'water';
+        lat: number;
+        lng: number;
+        location: Extract<LocationClass, { surface: 'water' }>;
+    }
+    | {
+        status: 'snapped';
+
+        /** Nearest water found, within the search spacing (10-50 km) */
+        lat: number;
+        lng: number;
+        location: Extract<LocationClass, { surface: 'water' }>;
+
+        /** Where the target was requested */
+        requested: { lat: number; lng: number };
+        landmass: string;
+        distance_km: number;
+    }
+    | {
+        status: 'land';
+        landmass: string;
+    };
+
+/**
+ * Checks a requested deployment target and, when it is on land, looks outward
+ * in widening circles for the nearest water up to MAX_SNAP_DISTANCE_KM away
+ */
+export function resolveDeploymentTarget(lat: number, lng: number): DeploymentTarget {
+    const location = classifyLocation(lat, lng);
+    if (location.surface === 'water') {
+        return { status: 'water', lat, lng, location };
+    }
+
+    for (let radius = searchStepKm(0); radius <= MAX_SNAP_DISTANCE_KM; radius += searchStepKm(radius)) {
+        const samples = Math.max(16, Math.ceil(2 * Math.PI * radius / searchStepKm(radius)));
+        for (let i = 0; i < samples; i++) {
+            const candidate = destination(lat, lng, i * 360 / samples, radius);
+            const found = classifyLocation(candidate.lat, candidate.lng);
+            if (found.surface === 'water') {
+                return {
+                    status: 'snapped',
+                    lat: Math.round(candidate.lat * 1e4) / 1e4,
+                    lng: Math.round(candidate.lng * 1e4) / 1e4,
+                    location: found,
+                    requested: { lat, lng },
+                    landmass: location.landmass,
+                    distance_km: radius,
+                };
+            }
+        }
+    }
+    return { status: 'land', landmass: location.landmass };
+}
+
+/**
+ * Warning for a target that was moved or refused (undefined for a water target)
+ */
+export function describeDeploymentTarget(target: DeploymentTarget): string | undefined {
+    if (target.status === 'snapped') {
+        return `${target.requested.lat.toFixed(2)}°, ${target.requested.lng.toFixed(2)}° is on land (${target.landmass}); ` +
+            `moved ${target.distance_km} km to the nearest water (${describeLocation(target.location)}).`;
+    }
+    if (target.status === 'land') {
+        return `The target is on land (${target.landmass}) with no water within ${MAX_SNAP_DISTANCE_KM} km.`;
+    }
+    return undefined;
+}
@@ -0,0 +1,64 @@
+/**
+ * Polymer-X: Shared Design Engine
+ *
+ * Versioned rule sets and pure committee logic consumed by both the web bridge
+ * (web/src/services/geminiBridge.ts) and the CLI (scripts/test-logic.ts).
+ */
+
+export type {
+    AbortKind,
+    AgentRole,
+    BatchResult,
+    BatchRowStatus,
+    BatchSummary,
+    BibliographyEntry,
+    BioAgentConfig,
+    BioAgentResponse,
+    CampaignRecord,
+    CampaignSite,
+    ChassisType,
+    CocktailComponent,
+    CommitteeBioAgentResponse,
+    ConformanceCheck,
+    ConformanceFinding,
+    ConformanceReport,
+    DebateEvent,
+    DebateFailure,
+    DeploymentRecord,
+    DesignDossier,
+    EnzymeDesign,
+    FailureCategory,
+    MonologueEntry,
+    PlasticComposition,
+    PlasticType,
+    ReplayDifference,
+    ReplayField,
+    ReplayReport,
+    SafetyLock,
+    SafetyLockType,
+    SiteContext,
+    ToxinPanel,
+    WaterAnalysis,
+    WaterBodyType,
+} from '../docs/INTERFACES.js';
+
+export * from './tables.js';
+export * from './ruleset.js';
+export * from './rules.js';
+export * from './committee.js';
+export * from './prompts.js';
+export * from './providers.js';
+export * from './cancellation.js';
+export * from './validation.js';
+export * from './audit.js';
+export * from './debate.js';
+export * from './failures.js';
+export * from './bibliography.js';
+export * from './dossier.js';
+export * from './replay.js';
+export * from './batch.js';
+export * from './coastlines.js';
+export * from './geography.js';
+export * from './climatology.js';
+export * from './sites.js';
+export * from './campaign.js';
@@ -0,0 +1,235 @@
+/**
+ * Polymer-X: LIVE Mode Prompts
+ *
+ * The "Wizard of Oz" prompts that ask a language model to act as Evo 2 -
+ * one system prompt per committee role. The rule sections are rendered from
+ * the same rule set the deterministic committee uses, so the model and the
+ * simulation are told the same rules.
+ */
+
+import type { EnzymeDesign, WaterAnalysis } from '../docs/INTERFACES.js';
+import { MANDATORY_SAFETY_LOCK, PLASTIC_TYPES } from './tables.js';
+import { DEFAULT_RULE_SET, type RuleSet } from './ruleset.js';
+import { assessEnvironment, deriveSiteContext, describeStressors, normalizeComposition } from './rules.js';
+
+// =============================================================================
+// Rule Sections (shared by the role prompts)
+// =============================================================================
+
+function chassisRules(rules: RuleSet): string {
+    const threshold = rules.chassis.halophilic_salinity_threshold_ppt;
+    const environment = rules.environment;
+    const stressorLines = environment
+        ? `   Stressors are derived from measurements: heat ≥ ${environment.heat_stress_min_temperature_c}°C, ` +
+        `cold < ${rules.chassis.psychrophilic_max_temperature_c ?? 'n/a'}°C, pH outside ${environment.ph_min}-${environment.ph_max}, ` +
+        `DO < ${environment.hypoxic_max_dissolved_oxygen_mg_l} mg/L, depth ≥ ${environment.deep_water_min_depth_m} m, toxins above limits.\n` +
+        `   Temperature below ${environment.temperature_extreme_low_c}°C or above ${environment.temperature_extreme_high_c}°C counts as temperature_extremes.`
+        : '   Stress is the reported stress signal only.';
+
+    return `Chassis Selection:
+   - Salinity > ${threshold}ppt → Halophilic (Lee et al. 2025)${environment ? `
+   - Salinity ≤ ${threshold}ppt AND cold stressor → Psychrophilic` : ''}
+   - Salinity ≤ ${threshold}ppt AND no stress → Mesophilic
+   - Salinity ≤ ${threshold}ppt AND any other stress → Thermophilic
+${stressorLines}`;
+}
+
+function enzymeRules(rules: RuleSet): string {
+    const enzymeMappingLines = PLASTIC_TYPES
+        .map(plastic => `   - ${plastic} → ${rules.enzymes[plastic].base} (mutations: ${rules.enzymes[plastic].mutations.join(', ')})`)
+        .join('\n');
+    return `Enzyme-Plastic Mapping:
+${enzymeMappingLines}`;
+}
+
+function efficiencyRules(rules: RuleSet): string {
+    const efficiency = rules.efficiency;
+    return `Efficiency Score:
+   Base = ${efficiency.base.toFixed(2)}
+   + ${efficiency.chassis_salinity_match_bonus.toFixed(2)} if chassis matches salinity requirements
+   + ${efficiency.favorable_conditions_bonus.toFixed(2)} if stress = false
+   - ${efficiency.mesophilic_stress_penalty.toFixed(2)} if stress = true AND chassis = Mesophilic${efficiency.stressor_penalty ? `
+   - ${efficiency.stressor_penalty.toFixed(2)} per measured stressor` : ''}${efficiency.thermal_mismatch_penalty ? `
+   - ${efficiency.thermal_mismatch_penalty.toFixed(2)} if cold/heat stressor and chassis is not Psychrophilic/Thermophilic` : ''}
+   + ${efficiency.per_mutation_bonus.toFixed(2)} per mutation (max ${efficiency.max_mutations_counted} counted)
+   Final = min(${efficiency.cap.toFixed(2)}, calculated)`;
+}
+
+function safetyRules(rules: RuleSet): string {
+    const additionalLockLines = (rules.safety?.additional_locks ?? [])
+        .map(additional => `   - If ${additional.when} → also add ${additional.lock} (${additional.rule})`)
+        .join('\n');
+    return `MANDATORY SAFETY: All designs MUST include ${MANDATORY_SAFETY_LOCK} (Zhang et al. 2025)
+${additionalLockLines || '   - No site-dependent locks in this rule set'}
+   List every lock in safety_locks with the rule that requires it.`;
+}
+
+/**
+ * The site as every role sees it: measurements, composition and derived context
+ */
+function describeSite(input: WaterAnalysis, rules: RuleSet): string {
+    const measured = (value: number | undefined, unit: string) => value === undefined ? 'not measured' : `${value}${unit}`;
+    const composition = normalizeComposition(input)
+        .map(share => `${Math.round(share.fraction * 100)}% ${share.plastic_type}`)
+        .join(', ');
+    return `- Location: (${input.lat}, ${input.lng})
+- Salinity: ${input.salinity} ppt
+- Temperature: ${measured(input.temperature_c, '°C')}
+- pH: ${measured(input.ph, '')}
+- Depth: ${measured(input.depth_m, ' m')}
+- Dissolved Oxygen: ${measured(input.dissolved_oxygen_mg_l, ' mg/L')}
+- Toxin Panel: ${JSON.stringify(input.toxins ?? {})}
+- Plastic Composition: ${composition}
+- Reported Stress Signal: ${input.stress_signal_bool}
+- Assessed Stressors: ${describeStressors(assessEnvironment(input, rules))}
+- Site Context: ${JSON.stringify(deriveSiteContext(input, rules))}`;
+}
+
+// =============================================================================
+// Sub-Agent A - The Architect
+// =============================================================================
+
+export function buildArchitectSystemPrompt(rules: RuleSet = DEFAULT_RULE_SET): string {
+    return `You are a synthetic biology expert designing enzymes for plastic bioremediation.
+
+RULES (from docs/LOGIC.md, rule set v${rules.version}):
+1. ${chassisRules(rules)}
+
+2. ${enzymeRules(rules)}
+
+3. ${efficiencyRules(rules)}
+
+4. ${safetyRules(rules)}
+
+5. Mixed Sites (more than one polymer in the composition):
+   - Design one enzyme per polymer (mapping from rule 2), all on the site's chassis
+   - Score each enzyme with rule 3; predicted_efficiency_score = composition-weighted mean
+   - enzyme_name joins the component names with " + "; mutation_list lists all mutations
+   - Add a "cocktail" array with one entry per polymer; omit it for single-polymer sites
+
+Respond ONLY with valid JSON matching this schema:
+{
+  "enzyme_name": "string",
+  "mutation_list": ["string"],
+  "predicted_efficiency_score": number,
+  "safety_locks": [{ "type": "${MANDATORY_SAFETY_LOCK}", "rule": "string naming the rule" }],
+  "chassis_type": "Halophilic" | "Mesophilic" | "Thermophilic" | "Psychrophilic",
+  "design_rationale": "string explaining your decisions",
+  "references": ["Lee et al. 2025...", "Zhang et al. 2025..."],
+  "cocktail": [{ "plastic_type": "PET", "fraction": number, "organism": "string", "enzyme_name": "string", "mutation_list": ["string"], "predicted_efficiency_score": number }]
+}`;
+}
+
+export function buildDesignPrompt(input: WaterAnalysis, rules: RuleSet = DEFAULT_RULE_SET): string {
+    return `Design an enzyme for these conditions:
+${describeSite(input, rules)}
+
+Follow the RULES exactly. Return ONLY valid JSON.`;
+}
+
+/**
+ * Follow-up turn returning the Safety Officer's objections to the Architect
+ */
+export function buildRevisionPrompt(objections: readonly string[]): string {
+    return `The Safety Officer rejected your proposal:
+${objections.map(objection => `- ${objection}`).join('\n')}
+
+Revise the design to resolve every objection and return the complete revised design. Follow the RULES exactly. Return ONLY valid JSON.`;
+}
+
+// =============================================================================
+// Sub-Agent B - The Safety Officer
+// =============================================================================
+
+export function buildSafetyOfficerSystemPrompt(rules: RuleSet = DEFAULT_RULE_SET): string {
+    return `You are the Safety Officer of a synthetic biology committee. You review enzyme designs for plastic bioremediation before any organism is released.
+
+RULES (from docs/LOGIC.md, rule set v${rules.version}):
+1. ${chassisRules(rules)}
+
+2. ${enzymeRules(rules)}
+   Only the listed mutations are allowed for each polymer.
+
+3. ${safetyRules(rules)}
+
+4. Mixed Sites: one enzyme per polymer in the composition, listed in "cocktail"; single-polymer sites have no cocktail.
+
+REJECT the proposal if it breaks any rule and list each problem as an objection the Architect can act on. Do not redesign it yourself. Do not judge the efficiency score; the Simulator does that.
+
+Respond ONLY with valid JSON matching this schema:
+{
+  "verdict": "APPROVED" | "REJECTED",
+  "reasoning": "string summarizing your review",
+  "objections": ["string"]
+}
+"objections" is empty when the verdict is APPROVED.`;
+}
+
+export function buildSafetyReviewPrompt(input: WaterAnalysis, design: EnzymeDesign, rules: RuleSet = DEFAULT_RULE_SET): string {
+    return `Review the Architect's proposal for this site:
+${describeSite(input, rules)}
+
+Proposal:
+${JSON.stringify(design, null, 2)}
+
+Check it against the RULES. Return ONLY valid JSON.`;
+}
+
+// =============================================================================
+// Sub-Agent C - The Simulator
+// =============================================================================
+
+export function buildSimulatorSystemPrompt(rules: RuleSet = DEFAULT_RULE_SET): string {
+    return `You are the Simulator of a synthetic biology committee, acting as the Evo 2 model: you predict how well an approved enzyme design will degrade plastic on site.
+
+RULES (from docs/LOGIC.md, rule set v${rules.version}):
+1. ${chassisRules(rules)}
+
+2. ${efficiencyRules(rules)}
+
+3. Mixed Sites: score each cocktail component with rule 2; the design's score is the composition-weighted mean.
+
+Score the design with the RULES and critique the Architect's predicted_efficiency_score: say where it is too optimistic or too pessimistic and why.
+
+Respond ONLY with valid JSON matching this schema:
+{
+  "predicted_efficiency_score": number,
+  "critique": "string explaining your score and any disagreement with the Architect"
+}`;
+}
+
+export function buildSimulationPrompt(input: WaterAnalysis, design: EnzymeDesign, rules: RuleSet = DEFAULT_RULE_SET): string {
+    return `Predict the efficiency of this approved design at this site:
+${describeSite(input, rules)}
+
+Design:
+${JSON.stringify(design, null, 2)}
+
+Follow the RULES exactly. Return ONLY valid JSON.`;
+}
+
+// =============================================================================
+// Replies
+// =============================================================================
+
+/**
+ * Follow-up turn asking the model to fix a reply that failed validation
+ */
+export function buildRepairPrompt(issues: readonly string[], subject = 'design'): string {
+    return `Your previous response failed validation:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Fix every issue and return the complete corrected ${subject}. Follow the RULES exactly. Return ONLY valid JSON.`;
+}
+
+/**
+ * Pulls the JSON payload out of a model reply (handles markdown code blocks)
+ */
+export function extractJson(responseText: string): string {
+    const fenced = responseText.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (fenced) {
+        return fenced[1].trim();
+    }
+    const bare = responseText.match(/\{[\s\S]*\}/);
+    return bare ? bare[0] : responseText;
+}
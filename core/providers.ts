@@ -0,0 +1,379 @@
+/**
+ * Polymer-X: LLM Providers
+ *
+ * The LIVE path talks to a language model through the LLMProvider interface,
+ * so the web bridge and the CLI share one implementation per backend:
+ *
+ * - GeminiProvider: Google's Generative Language REST API
+ * - OpenAICompatibleProvider: any /chat/completions server (OpenAI, llama.cpp, Ollama, vLLM)
+ * - FixtureProvider: plays back recorded replies, for exercising LIVE mode offline
+ *
+ * Providers use the global fetch, so they run unchanged in the browser and Node 18+.
+ * Setting onToken on a request streams the reply (server-sent events).
+ */
+
+import type { BioAgentConfig, FailureCategory } from '../docs/INTERFACES.js';
+import { checkNumber, checkString, isRecord } from './schema.js';
+
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface GenerateRequest {
+    /** System prompt (rules and output schema) */
+    system: string;
+
+    /** Conversation so far, starting with a user turn */
+    turns: ChatTurn[];
+
+    /** Overrides the provider's model (fixture playback ignores it) */
+    model?: string;
+
+    temperature?: number;
+    maxTokens?: number;
+
+    /** Streams the reply: receives each chunk as it arrives (the full text is still returned) */
+    onToken?: (text: string) => void;
+
+    /** Aborts the underlying request */
+    signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+    /** Backend family, e.g. "gemini" */
+    readonly name: string;
+
+    /** Model identifier sent to the backend unless a request overrides it */
+    readonly model: string;
+
+    /** Resolves with the reply text; rejects with ProviderError on transport or API errors */
+    generate(request: GenerateRequest): Promise<string>;
+}
+
+/** The failure categories a provider reports */
+export type ProviderErrorCategory = Extract<FailureCategory, 'AUTH' | 'QUOTA' | 'NETWORK' | 'PROVIDER'>;
+
+export class ProviderError extends Error {
+    readonly category: ProviderErrorCategory;
+
+    /** HTTP status, when the backend answered */
+    readonly status?: number;
+
+    /** cause: the underlying error, or the body of an HTTP error response */
+    constructor(category: ProviderErrorCategory, message: string, status?: number, cause?: unknown) {
+        super(message, cause === undefined ? undefined : { cause });
+        this.name = 'ProviderError';
+        this.category = category;
+        this.status = status;
+    }
+}
+
+/**
+ * fetch, reporting an unreachable backend or an HTTP error status as ProviderError.
+ * Aborts are rethrown as they are.
+ */
+async function post(url: string, init: RequestInit, label: string): Promise<Response> {
+    let response: Response;
+    try {
+        response = await fetch(url, { ...init, method: 'POST' });
+    } catch (error) {
+        if (init.signal?.aborted) {
+            throw error;
+        }
+        throw new ProviderError('NETWORK', `${label} unreachable`, undefined, error);
+    }
+    if (response.ok) {
+        return response;
+    }
+
+    const body = await response.text().catch(() => '');
+    const category: ProviderErrorCategory =
+        response.status === 401 || response.status === 403 || body.includes('API_KEY_INVALID') ? 'AUTH'
+            : response.status === 429 ? 'QUOTA'
+                : 'PROVIDER';
+    throw new ProviderError(category, `${label} error: ${response.status} ${response.statusText}`, response.status, body.trim().slice(0, 300) || undefined);
+}
+
+/**
+ * Parses one streamed chunk, reporting malformed JSON as a provider error
+ */
+function parseChunk<T>(data: string, label: string): T {
+    try {
+        return JSON.parse(data) as T;
+    } catch {
+        throw new ProviderError('PROVIDER', `${label} sent a malformed stream chunk`);
+    }
+}
+
+/**
+ * Passes the payload of each `data:` line of a server-sent event stream to onData
+ */
+async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+    if (!response.body) {
+        throw new ProviderError('PROVIDER', 'Streaming response has no body');
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() ?? '';
+        for (const line of lines) {
+            if (line.startsWith('data:')) {
+                onData(line.slice('data:'.length).trim());
+            }
+        }
+        if (done) {
+            return;
+        }
+    }
+}
+
+// =============================================================================
+// Gemini
+// =============================================================================
+
+type GeminiResult = { candidates?: { content?: { parts?: { text?: string }[] } }[] };
+
+function geminiText(result: GeminiResult): string {
+    return result.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+}
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-1.5-flash';
+
+export interface GeminiProviderOptions {
+    apiKey: string;
+    model?: string;
+    baseUrl?: string;
+}
+
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini';
+    readonly model: string;
+    private apiKey: string;
+    private baseUrl: string;
+
+    constructor(options: GeminiProviderOptions) {
+        this.apiKey = options.apiKey;
+        this.model = options.model ?? DEFAULT_GEMINI_MODEL;
+        this.baseUrl = options.baseUrl ?? 'https://generativelanguage.googleapis.com/v1beta';
+    }
+
+    async generate(request: GenerateRequest): Promise<string> {
+        const model = request.model ?? this.model;
+        const onToken = request.onToken;
+        const method = onToken ? 'streamGenerateContent?alt=sse' : 'generateContent';
+        const response = await post(`${this.baseUrl}/models/${model}:${method}`, {
+            headers: { 'Content-Type': 'application/json', 'x-goog-api-key': this.apiKey },
+            signal: request.signal,
+            body: JSON.stringify({
+                systemInstruction: { parts: [{ text: request.system }] },
+                contents: request.turns.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+                generationConfig: {
+                    temperature: request.temperature,
+                    maxOutputTokens: request.maxTokens,
+                },
+            }),
+        }, 'Gemini API');
+
+        let text = '';
+        if (onToken) {
+            await readEventStream(response, data => {
+                const chunk = geminiText(parseChunk<GeminiResult>(data, 'Gemini API'));
+                if (chunk) {
+                    text += chunk;
+                    onToken(chunk);
+                }
+            });
+        } else {
+            text = geminiText(await response.json() as GeminiResult);
+        }
+
+        if (!text) {
+            throw new ProviderError('PROVIDER', 'Empty response from Gemini API');
+        }
+        return text;
+    }
+}
+
+// =============================================================================
+// OpenAI-Compatible (OpenAI, llama.cpp server, Ollama, vLLM, ...)
+// =============================================================================
+
+/** Ollama's OpenAI-compatible endpoint */
+export const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1';
+
+export interface OpenAICompatibleProviderOptions {
+    /** Base URL up to and including the version segment, e.g. "http://localhost:8080/v1" */
+    baseUrl?: string;
+    model: string;
+
+    /** Sent as a Bearer token when set (local servers usually need none) */
+    apiKey?: string;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+    readonly name = 'openai-compatible';
+    readonly model: string;
+    private baseUrl: string;
+    private apiKey?: string;
+
+    constructor(options: OpenAICompatibleProviderOptions) {
+        this.baseUrl = (options.baseUrl ?? DEFAULT_OPENAI_COMPATIBLE_BASE_URL).replace(/\/+$/, '');
+        this.model = options.model;
+        this.apiKey = options.apiKey;
+    }
+
+    async generate(request: GenerateRequest): Promise<string> {
+        const onToken = request.onToken;
+        const label = `OpenAI-compatible API (${this.baseUrl})`;
+        const response = await post(`${this.baseUrl}/chat/completions`, {
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+            },
+            signal: request.signal,
+            body: JSON.stringify({
+                model: request.model ?? this.model,
+                messages: [
+                    { role: 'system', content: request.system },
+                    ...request.turns.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text })),
+                ],
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+                ...(onToken && { stream: true }),
+            }),
+        }, label);
+
+        let text = '';
+        if (onToken) {
+            await readEventStream(response, data => {
+                if (data === '[DONE]') {
+                    return;
+                }
+                const chunk = parseChunk<{ choices?: { delta?: { content?: string } }[] }>(data, label).choices?.[0]?.delta?.content;
+                if (chunk) {
+                    text += chunk;
+                    onToken(chunk);
+                }
+            });
+        } else {
+            const result = await response.json() as { choices?: { message?: { content?: string } }[] };
+            text = result.choices?.[0]?.message?.content ?? '';
+        }
+
+        if (!text) {
+            throw new ProviderError('PROVIDER', `Empty response from ${this.baseUrl}`);
+        }
+        return text;
+    }
+}
+
+// =============================================================================
+// Generation Config
+// =============================================================================
+
+export const DEFAULT_TEMPERATURE = 0.2;
+export const DEFAULT_MAX_TOKENS = 1024;
+
+/** Upper bound accepted for max_tokens (a design reply needs ~1k) */
+export const MAX_TOKENS_LIMIT = 8192;
+
+/**
+ * Fills unset fields from the provider's model and the defaults
+ */
+export function resolveBioAgentConfig(provider: LLMProvider, overrides: Partial<BioAgentConfig> = {}): BioAgentConfig {
+    return {
+        model: overrides.model || provider.model,
+        temperature: overrides.temperature ?? DEFAULT_TEMPERATURE,
+        max_tokens: overrides.max_tokens ?? DEFAULT_MAX_TOKENS,
+    };
+}
+
+/**
+ * Lists every problem with a (possibly partial) config (empty when valid)
+ */
+export function validateBioAgentConfig(config: Partial<BioAgentConfig>): string[] {
+    const issues: string[] = [];
+    if (config.model !== undefined) {
+        checkString(issues, config.model, 'model');
+    }
+    if (config.temperature !== undefined) {
+        checkNumber(issues, config.temperature, 'temperature', 0, 1);
+    }
+    if (config.max_tokens !== undefined) {
+        checkNumber(issues, config.max_tokens, 'max_tokens', 1, MAX_TOKENS_LIMIT);
+        if (!Number.isInteger(config.max_tokens)) {
+            issues.push('max_tokens: expected an integer');
+        }
+    }
+    return issues;
+}
+
+// =============================================================================
+// Recorded Fixtures
+// =============================================================================
+
+/**
+ * Model replies recorded for one LIVE run, played back in order
+ */
+export interface ProviderFixture {
+    description: string;
+
+    /** Model the replies came from (reported as the provider's model) */
+    model: string;
+    replies: string[];
+}
+
+/**
+ * Validates a raw fixture (e.g. a parsed JSON file) and returns it typed
+ */
+export function parseProviderFixture(raw: unknown): ProviderFixture {
+    const issues: string[] = [];
+    if (!isRecord(raw)) {
+        throw new Error('Invalid provider fixture: expected a JSON object');
+    }
+    checkString(issues, raw.description, 'description');
+    checkString(issues, raw.model, 'model');
+    if (!Array.isArray(raw.replies) || raw.replies.length === 0 || raw.replies.some(reply => typeof reply !== 'string')) {
+        issues.push('replies: expected a non-empty array of strings');
+    }
+    if (issues.length > 0) {
+        throw new Error(`Invalid provider fixture:\n  - ${issues.join('\n  - ')}`);
+    }
+    return raw as unknown as ProviderFixture;
+}
+
+export class FixtureProvider implements LLMProvider {
+    readonly name = 'fixture';
+    readonly model: string;
+
+    /** Every request received, for inspecting what LIVE mode sent */
+    readonly requests: GenerateRequest[] = [];
+    private replies: readonly string[];
+
+    constructor(fixture: ProviderFixture) {
+        this.model = fixture.model;
+        this.replies = fixture.replies;
+    }
+
+    async generate(request: GenerateRequest): Promise<string> {
+        request.signal?.throwIfAborted();
+        this.requests.push(request);
+        const reply = this.replies[this.requests.length - 1];
+        if (reply === undefined) {
+            throw new ProviderError('PROVIDER', `Fixture exhausted: ${this.replies.length} recorded replies, request #${this.requests.length}`);
+        }
+        if (request.onToken) {
+            // Replay word by word, keeping the whitespace
+            for (const chunk of reply.split(/(?<=\s)(?=\S)/)) {
+                request.onToken(chunk);
+            }
+        }
+        return reply;
+    }
+}
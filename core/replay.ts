@@ -0,0 +1,124 @@
+/**
+ * Polymer-X: Design Replay
+ *
+ * Re-runs the deterministic committee on an imported design's WaterAnalysis
+ * under the current rules and lists every field that comes out differently,
+ * so a rule change shows up as a visible regression instead of silent drift.
+ */
+
+import type {
+    DesignDossier,
+    EnzymeDesign,
+    ReplayDifference,
+    ReplayField,
+    ReplayReport,
+    WaterAnalysis,
+} from '../docs/INTERFACES.js';
+import { DEFAULT_RULE_SET, type RuleSet } from './ruleset.js';
+import { runDeterministicCommittee } from './committee.js';
+import { DOSSIER_FORMAT, parseDossier } from './dossier.js';
+import { parseEnzymeDesign } from './validation.js';
+import { isRecord } from './schema.js';
+
+export type ImportedDesign =
+    | { kind: 'dossier'; dossier: DesignDossier }
+    | { kind: 'design'; design: EnzymeDesign };
+
+/**
+ * Accepts an exported dossier or a plain EnzymeDesign.
+ * Throws DossierValidationError or EnzymeDesignValidationError listing every problem.
+ */
+export function parseImportedDesign(raw: unknown): ImportedDesign {
+    if (isRecord(raw) && raw.format === DOSSIER_FORMAT) {
+        return { kind: 'dossier', dossier: parseDossier(raw) };
+    }
+    return { kind: 'design', design: parseEnzymeDesign(raw) };
+}
+
+// =============================================================================
+// Comparison
+// =============================================================================
+
+function formatScore(score: number): string {
+    return `${(score * 100).toFixed(2)}%`;
+}
+
+function formatMutations(mutations: readonly string[]): string {
+    return [...mutations].sort().join(', ');
+}
+
+function formatCocktail(design: EnzymeDesign): string {
+    return design.cocktail
+        ?.map(component => `${component.plastic_type} ${(component.fraction * 100).toFixed(0)}% ` +
+            `${component.enzyme_name} [${formatMutations(component.mutation_list)}] ${formatScore(component.predicted_efficiency_score)}`)
+        .join(' · ') ?? 'none';
+}
+
+/** Field values as compared: order-insensitive lists, scores to 0.01% */
+const FIELD_VALUES: Record<Exclude<ReplayField, 'outcome'>, (design: EnzymeDesign) => string> = {
+    chassis_type: design => design.chassis_type,
+    enzyme_name: design => design.enzyme_name,
+    mutation_list: design => formatMutations(design.mutation_list),
+    safety_locks: design => design.safety_locks.map(lock => lock.type).sort().join(', '),
+    predicted_efficiency_score: design => formatScore(design.predicted_efficiency_score),
+    cocktail: formatCocktail,
+};
+
+function compareDesigns(stored: EnzymeDesign, current: EnzymeDesign): ReplayDifference[] {
+    const differences: ReplayDifference[] = [];
+    for (const [field, value] of Object.entries(FIELD_VALUES) as [Exclude<ReplayField, 'outcome'>, (design: EnzymeDesign) => string][]) {
+        if (value(stored) !== value(current)) {
+            differences.push({ field, stored: value(stored), current: value(current) });
+        }
+    }
+    return differences;
+}
+
+// =============================================================================
+// Replay
+// =============================================================================
+
+/**
+ * Replays a stored design (undefined for a failed deployment) on the input it
+ * was made for
+ */
+export async function replayDesign(
+    stored: EnzymeDesign | undefined,
+    input: WaterAnalysis,
+    rules: RuleSet = DEFAULT_RULE_SET
+): Promise<ReplayReport> {
+    const replayed = await runDeterministicCommittee(input, { ruleSet: rules });
+
+    let differences: ReplayDifference[] = [];
+    if (stored && replayed.data) {
+        differences = compareDesigns(stored, replayed.data);
+    } else if (stored || replayed.data) {
+        differences = [{
+            field: 'outcome',
+            stored: stored ? 'Design' : 'No design',
+            current: replayed.data ? 'Design' : `No design (${replayed.error ?? 'unknown error'})`,
+        }];
+    }
+
+    return {
+        verdict: differences.length === 0 ? 'UNCHANGED' : 'DRIFTED',
+        differences,
+        ...(stored && { stored_rule_set_version: stored.rule_set_version }),
+        current_rule_set_version: rules.version,
+        replayed,
+    };
+}
+
+/**
+ * One-line summary of a replay for logs
+ */
+export function describeReplay(report: ReplayReport): string {
+    const versions = report.stored_rule_set_version && report.stored_rule_set_version !== report.current_rule_set_version
+        ? `rule set v${report.stored_rule_set_version} → v${report.current_rule_set_version}`
+        : `rule set v${report.current_rule_set_version}`;
+    if (report.differences.length === 0) {
+        return `${report.verdict} - the current rules reproduce the design (${versions}).`;
+    }
+    return `${report.verdict} - ${report.differences.length} field(s) differ (${versions}): ` +
+        `${report.differences.map(difference => difference.field).join(', ')}.`;
+}
@@ -0,0 +1,392 @@
+/**
+ * Polymer-X: Design Rules
+ *
+ * Pure functions implementing the chassis, efficiency and safety-lock rules
+ * from docs/LOGIC.md. The numbers come from a versioned rule set (core/ruleset.ts).
+ */
+
+import type {
+    ChassisType,
+    PlasticComposition,
+    PlasticType,
+    SafetyLock,
+    SafetyLockType,
+    SiteContext,
+    WaterAnalysis,
+} from '../docs/INTERFACES.js';
+import { DEFAULT_RULE_SET, type EfficiencyRules, type RuleSet } from './ruleset.js';
+import {
+    MANDATORY_SAFETY_LOCK,
+    MANDATORY_SAFETY_LOCK_RULE,
+    PLASTIC_TYPES,
+    TOXIN_KEYS,
+    WATER_BODY_LABELS,
+    WATER_BODY_SITE_CONTEXT,
+    isPlasticType,
+} from './tables.js';
+
+export type EnvironmentalMatch = 'OPTIMAL' | 'SUBOPTIMAL' | 'MARGINAL';
+
+// =============================================================================
+// Environmental Assessment (docs/LOGIC.md Section 1.1)
+// =============================================================================
+
+/**
+ * Named environmental stressors. 'reported' is the field team's
+ * stress_signal_bool when it is not backed by a measurement.
+ */
+export type EnvironmentalStressor =
+    | 'heat'
+    | 'cold'
+    | 'acidic'
+    | 'alkaline'
+    | 'hypoxic'
+    | 'toxic'
+    | 'deep'
+    | 'reported';
+
+export interface StressorFinding {
+    stressor: EnvironmentalStressor;
+    detail: string;
+}
+
+export interface EnvironmentalAssessment {
+    stressors: StressorFinding[];
+
+    /** True when any stressor is present */
+    stressed: boolean;
+
+    /** Measured temperature lies outside the rule set's extreme range */
+    temperature_extremes: boolean;
+}
+
+/**
+ * Turns measured water quality into named stressors. Rule sets without an
+ * `environment` section (before v1.2.0) only look at stress_signal_bool.
+ */
+export function assessEnvironment(input: WaterAnalysis, rules: RuleSet = DEFAULT_RULE_SET): EnvironmentalAssessment {
+    const stressors: StressorFinding[] = [];
+    const environment = rules.environment;
+    let temperatureExtremes = false;
+
+    if (environment) {
+        const temperature = input.temperature_c;
+        const coldMax = rules.chassis.psychrophilic_max_temperature_c;
+        if (temperature !== undefined) {
+            if (temperature >= environment.heat_stress_min_temperature_c) {
+                stressors.push({ stressor: 'heat', detail: `${temperature}°C ≥ ${environment.heat_stress_min_temperature_c}°C` });
+            } else if (coldMax !== undefined && temperature < coldMax) {
+                stressors.push({ stressor: 'cold', detail: `${temperature}°C < ${coldMax}°C` });
+            }
+            temperatureExtremes = temperature < environment.temperature_extreme_low_c ||
+                temperature > environment.temperature_extreme_high_c;
+        }
+
+        if (input.ph !== undefined) {
+            if (input.ph < environment.ph_min) {
+                stressors.push({ stressor: 'acidic', detail: `pH ${input.ph} < ${environment.ph_min}` });
+            } else if (input.ph > environment.ph_max) {
+                stressors.push({ stressor: 'alkaline', detail: `pH ${input.ph} > ${environment.ph_max}` });
+            }
+        }
+
+        if (input.dissolved_oxygen_mg_l !== undefined &&
+            input.dissolved_oxygen_mg_l < environment.hypoxic_max_dissolved_oxygen_mg_l) {
+            stressors.push({
+                stressor: 'hypoxic',
+                detail: `DO ${input.dissolved_oxygen_mg_l} mg/L < ${environment.hypoxic_max_dissolved_oxygen_mg_l} mg/L`,
+            });
+        }
+
+        if (input.depth_m !== undefined && input.depth_m >= environment.deep_water_min_depth_m) {
+            stressors.push({ stressor: 'deep', detail: `${input.depth_m} m ≥ ${environment.deep_water_min_depth_m} m` });
+        }
+
+        const exceeded = TOXIN_KEYS.filter(key => (input.toxins?.[key] ?? 0) > environment.toxin_limits[key]);
+        if (exceeded.length > 0) {
+            stressors.push({
+                stressor: 'toxic',
+                detail: exceeded.map(key => `${key}=${input.toxins?.[key]} > ${environment.toxin_limits[key]}`).join(', '),
+            });
+        }
+    }
+
+    if (input.stress_signal_bool) {
+        stressors.push({ stressor: 'reported', detail: 'stress signal reported by field team' });
+    }
+
+    return {
+        stressors,
+        stressed: stressors.length > 0,
+        temperature_extremes: temperatureExtremes,
+    };
+}
+
+export function hasStressor(assessment: EnvironmentalAssessment, stressor: EnvironmentalStressor): boolean {
+    return assessment.stressors.some(finding => finding.stressor === stressor);
+}
+
+/**
+ * One-line summary of the stressors for monologues and reports
+ */
+export function describeStressors(assessment: EnvironmentalAssessment): string {
+    return assessment.stressed
+        ? assessment.stressors.map(finding => `${finding.stressor} (${finding.detail})`).join(', ')
+        : 'none';
+}
+
+// =============================================================================
+// Chassis & Efficiency (docs/LOGIC.md Sections 1.1 and 1.3)
+// =============================================================================
+
+/**
+ * Determines chassis type based on docs/LOGIC.md Section 1.1
+ */
+export function determineChassisType(input: WaterAnalysis, rules: RuleSet = DEFAULT_RULE_SET): ChassisType {
+    if (input.salinity > rules.chassis.halophilic_salinity_threshold_ppt) {
+        return 'Halophilic'; // Lee et al. 2025
+    }
+
+    const assessment = assessEnvironment(input, rules);
+    if (hasStressor(assessment, 'cold')) {
+        return 'Psychrophilic'; // Cold-adapted expression
+    }
+    if (assessment.stressed) {
+        return 'Thermophilic'; // Enhanced stress resistance
+    }
+    return 'Mesophilic'; // Standard conditions
+}
+
+const CHASSIS_SUFFIX: Record<ChassisType, string> = {
+    Halophilic: '-Halo',
+    Thermophilic: '-Thermo',
+    Psychrophilic: '-Psychro',
+    Mesophilic: '',
+};
+
+/**
+ * Designed enzyme name for a polymer under a chassis, e.g. "PETase-v4.2-Halo"
+ */
+export function enzymeName(plastic: PlasticType, chassis: ChassisType, rules: RuleSet = DEFAULT_RULE_SET): string {
+    return `${rules.enzymes[plastic].base}-v4.2${CHASSIS_SUFFIX[chassis]}`;
+}
+
+/**
+ * One modifier's contribution to an efficiency score (0 when it did not apply)
+ */
+export interface EfficiencyTerm {
+    modifier: Exclude<keyof EfficiencyRules, 'max_mutations_counted' | 'cap'>;
+    delta: number;
+}
+
+export interface EfficiencyBreakdown {
+    /** Every modifier in the order it is applied, starting with the base */
+    terms: EfficiencyTerm[];
+
+    /** Sum of the terms, rounded and capped */
+    score: number;
+}
+
+/**
+ * Efficiency score based on docs/LOGIC.md Section 1.3, with what each modifier contributed
+ */
+export function explainEfficiencyScore(
+    input: WaterAnalysis,
+    chassis: ChassisType,
+    mutationCount: number,
+    rules: RuleSet = DEFAULT_RULE_SET
+): EfficiencyBreakdown {
+    const modifiers = rules.efficiency;
+    const assessment = assessEnvironment(input, rules);
+    const terms: EfficiencyTerm[] = [{ modifier: 'base', delta: modifiers.base }];
+
+    // Chassis matches optimal salinity range
+    const highSalinity = input.salinity > rules.chassis.halophilic_salinity_threshold_ppt;
+    const salinityMatch = (highSalinity && chassis === 'Halophilic') || (!highSalinity && chassis !== 'Halophilic');
+    terms.push({ modifier: 'chassis_salinity_match_bonus', delta: salinityMatch ? modifiers.chassis_salinity_match_bonus : 0 });
+
+    // Favorable conditions bonus
+    terms.push({ modifier: 'favorable_conditions_bonus', delta: assessment.stressed ? 0 : modifiers.favorable_conditions_bonus });
+
+    // Stress penalty for Mesophilic
+    const mesophilicStress = assessment.stressed && chassis === 'Mesophilic';
+    terms.push({ modifier: 'mesophilic_stress_penalty', delta: mesophilicStress ? -modifiers.mesophilic_stress_penalty : 0 });
+
+    // Per-stressor penalty for each measured (not merely reported) stressor
+    const measuredStressors = assessment.stressors.filter(finding => finding.stressor !== 'reported');
+    terms.push({ modifier: 'stressor_penalty', delta: -(measuredStressors.length * (modifiers.stressor_penalty ?? 0)) });
+
+    // Chassis does not suit the measured temperature
+    const thermalMismatch = (hasStressor(assessment, 'cold') && chassis !== 'Psychrophilic') ||
+        (hasStressor(assessment, 'heat') && chassis !== 'Thermophilic');
+    terms.push({ modifier: 'thermal_mismatch_penalty', delta: thermalMismatch ? -(modifiers.thermal_mismatch_penalty ?? 0) : 0 });
+
+    // Mutation bonus (capped count)
+    terms.push({ modifier: 'per_mutation_bonus', delta: Math.min(mutationCount, modifiers.max_mutations_counted) * modifiers.per_mutation_bonus });
+
+    const raw = terms.reduce((sum, term) => sum + term.delta, 0);
+    return { terms, score: Math.max(0, Math.min(modifiers.cap, Math.round(raw * 100) / 100)) };
+}
+
+/**
+ * Calculates efficiency score based on docs/LOGIC.md Section 1.3
+ */
+export function calculateEfficiencyScore(
+    input: WaterAnalysis,
+    chassis: ChassisType,
+    mutationCount: number,
+    rules: RuleSet = DEFAULT_RULE_SET
+): number {
+    return explainEfficiencyScore(input, chassis, mutationCount, rules).score;
+}
+
+/**
+ * Buckets an efficiency score into the Simulator's environmental match grades
+ */
+export function classifyEnvironmentalMatch(efficiencyScore: number): EnvironmentalMatch {
+    if (efficiencyScore >= 0.85) return 'OPTIMAL';
+    if (efficiencyScore >= 0.70) return 'SUBOPTIMAL';
+    return 'MARGINAL';
+}
+
+/**
+ * Simulator confidence in its own prediction, reduced under hostile conditions
+ */
+export function calculateConfidence(input: WaterAnalysis, rules: RuleSet = DEFAULT_RULE_SET): number {
+    const assessment = assessEnvironment(input, rules);
+    const modifiers = rules.confidence;
+    let confidence = modifiers.base;
+    if (assessment.stressed) confidence -= modifiers.stress_penalty;
+    confidence -= Math.max(0, assessment.stressors.length - 1) * modifiers.extra_stressor_penalty;
+    if (input.salinity > modifiers.high_salinity_threshold_ppt) confidence -= modifiers.high_salinity_penalty;
+    return Math.max(modifiers.floor, Math.round(confidence * 100) / 100);
+}
+
+// =============================================================================
+// Mixed Contamination (docs/LOGIC.md Section 1.4)
+// =============================================================================
+
+export interface CompositionShare {
+    plastic_type: PlasticType;
+
+    /** Normalized share (0.0 - 1.0); all shares of a site sum to 1 */
+    fraction: number;
+}
+
+/**
+ * Lists every problem with a composition (empty when usable)
+ */
+export function validateComposition(composition: Record<string, unknown>): string[] {
+    const issues: string[] = [];
+    let total = 0;
+    for (const [key, share] of Object.entries(composition)) {
+        if (!isPlasticType(key)) {
+            issues.push(`${key}: unknown plastic type`);
+        } else if (typeof share !== 'number' || !Number.isFinite(share) || share < 0) {
+            issues.push(`${key}: expected a non-negative number`);
+        } else {
+            total += share;
+        }
+    }
+    if (issues.length === 0 && total <= 0) {
+        issues.push('composition: at least one polymer must have a positive share');
+    }
+    return issues;
+}
+
+/**
+ * The site's polymers with normalized shares, largest first. A site without
+ * a composition is 100% plastic_type.
+ */
+export function normalizeComposition(input: WaterAnalysis): CompositionShare[] {
+    const entries = PLASTIC_TYPES
+        .map(plastic => ({ plastic_type: plastic, share: input.composition?.[plastic] ?? 0 }))
+        .filter(entry => entry.share > 0);
+    const total = entries.reduce((sum, entry) => sum + entry.share, 0);
+
+    if (total <= 0) {
+        return [{ plastic_type: input.plastic_type, fraction: 1 }];
+    }
+    return entries
+        .map(entry => ({ plastic_type: entry.plastic_type, fraction: entry.share / total }))
+        .sort((a, b) => b.fraction - a.fraction); // stable: ties keep PLASTIC_TYPES order
+}
+
+/**
+ * Polymer with the largest share (undefined when every share is 0)
+ */
+export function dominantPlasticType(composition: PlasticComposition): PlasticType | undefined {
+    let dominant: PlasticType | undefined;
+    for (const plastic of PLASTIC_TYPES) {
+        const share = composition[plastic] ?? 0;
+        if (share > 0 && (dominant === undefined || share > (composition[dominant] ?? 0))) {
+            dominant = plastic;
+        }
+    }
+    return dominant;
+}
+
+/**
+ * Composition-weighted mean of per-polymer efficiency scores
+ */
+export function weightedEfficiencyScore(components: readonly { fraction: number; efficiency_score: number }[]): number {
+    const score = components.reduce((sum, component) => sum + component.fraction * component.efficiency_score, 0);
+    return Math.round(score * 100) / 100;
+}
+
+// =============================================================================
+// Safety Locks (docs/LOGIC.md Section 2)
+// =============================================================================
+
+/**
+ * Site context as declared, plus flags the measurements imply
+ * (temperature_extremes from a measured temperature, coastal_zone from the water body)
+ */
+export function deriveSiteContext(input: WaterAnalysis, rules: RuleSet = DEFAULT_RULE_SET): SiteContext {
+    const assessment = assessEnvironment(input, rules);
+    const implied = input.water_body ? WATER_BODY_SITE_CONTEXT[input.water_body] : {};
+    return {
+        ...input.site_context,
+        temperature_extremes: !!input.site_context?.temperature_extremes || assessment.temperature_extremes,
+        coastal_zone: !!input.site_context?.coastal_zone || !!implied.coastal_zone,
+    };
+}
+
+/**
+ * Every lock a design must carry at this site: the mandatory kill switch
+ * (docs/LOGIC.md Section 2.1) plus the site-dependent locks of Section 2.2
+ */
+export function requiredSafetyLocks(input: WaterAnalysis, rules: RuleSet = DEFAULT_RULE_SET): SafetyLock[] {
+    const locks: SafetyLock[] = [{ type: MANDATORY_SAFETY_LOCK, rule: MANDATORY_SAFETY_LOCK_RULE }];
+    const context = deriveSiteContext(input, rules);
+
+    for (const additional of rules.safety?.additional_locks ?? []) {
+        if (!context[additional.when] || hasSafetyLock(locks, additional.lock)) {
+            continue;
+        }
+        const fromMeasurement = additional.when === 'temperature_extremes' && !input.site_context?.temperature_extremes;
+        const fromWaterBody = additional.when === 'coastal_zone' && !input.site_context?.coastal_zone && input.water_body;
+        locks.push({
+            type: additional.lock,
+            rule: fromMeasurement ? `${additional.rule}, measured ${input.temperature_c}°C`
+                : fromWaterBody ? `${additional.rule}, ${WATER_BODY_LABELS[fromWaterBody].toLowerCase()} target`
+                    : additional.rule,
+        });
+    }
+
+    return locks;
+}
+
+export function hasSafetyLock(locks: readonly SafetyLock[] | undefined, type: SafetyLockType): boolean {
+    return (locks ?? []).some(lock => lock.type === type);
+}
+
+/**
+ * Required locks that are absent from a design's lock stack
+ */
+export function findMissingSafetyLocks(
+    locks: readonly SafetyLock[] | undefined,
+    required: readonly SafetyLock[]
+): SafetyLock[] {
+    return required.filter(lock => !hasSafetyLock(locks, lock.type));
+}
@@ -0,0 +1,327 @@
+/**
+ * Polymer-X: Versioned Rule Sets
+ *
+ * The tunable numbers behind docs/LOGIC.md (chassis thresholds, the
+ * enzyme/mutation map, efficiency and confidence modifiers) live in versioned JSON files
+ * under core/rulesets/. Every file is validated against the schema below on
+ * load, and every design is stamped with the version that produced it.
+ *
+ * To change a rule: copy the latest file, bump "version", edit, and register
+ * it in BUNDLED_RULE_SETS. Never edit a released version in place - designs
+ * made under it must stay reproducible.
+ */
+
+import type { PlasticType, SafetyLockType, SiteContext, ToxinPanel } from '../docs/INTERFACES.js';
+import {
+    MANDATORY_SAFETY_LOCK,
+    MUTATION_PATTERN,
+    PLASTIC_TYPES,
+    SITE_CONTEXT_FLAGS,
+    TOXIN_KEYS,
+    isSafetyLockType,
+} from './tables.js';
+import { VERSION_PATTERN, checkNumber, checkString, isRecord } from './schema.js';
+import ruleSet_1_0_0 from './rulesets/1.0.0.json' with { type: 'json' };
+import ruleSet_1_1_0 from './rulesets/1.1.0.json' with { type: 'json' };
+import ruleSet_1_2_0 from './rulesets/1.2.0.json' with { type: 'json' };
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+export interface OrganismChassis {
+    organism: string;
+    description: string;
+}
+
+export interface EnzymeConfig {
+    base: string;
+    mutations: string[];
+}
+
+export interface ChassisRules {
+    /** Salinity (ppt) above which a Halophilic chassis is required (Lee et al. 2025) */
+    halophilic_salinity_threshold_ppt: number;
+
+    /** Measured temperature (°C) below which a Psychrophilic chassis is used (from v1.2.0) */
+    psychrophilic_max_temperature_c?: number;
+}
+
+/**
+ * Thresholds that turn measured water quality into named stressors (from v1.2.0)
+ */
+export interface EnvironmentRules {
+    heat_stress_min_temperature_c: number;
+    temperature_extreme_low_c: number;
+    temperature_extreme_high_c: number;
+    ph_min: number;
+    ph_max: number;
+    hypoxic_max_dissolved_oxygen_mg_l: number;
+    deep_water_min_depth_m: number;
+    toxin_limits: Required<ToxinPanel>;
+}
+
+export interface EfficiencyRules {
+    base: number;
+    chassis_salinity_match_bonus: number;
+    favorable_conditions_bonus: number;
+    mesophilic_stress_penalty: number;
+    per_mutation_bonus: number;
+    max_mutations_counted: number;
+    cap: number;
+
+    /** Deducted per measured stressor (from v1.2.0) */
+    stressor_penalty?: number;
+
+    /** Deducted when the chassis does not suit the measured temperature (from v1.2.0) */
+    thermal_mismatch_penalty?: number;
+}
+
+/**
+ * The Simulator's confidence in its own prediction (also campaign risk = 1 − confidence)
+ */
+export interface ConfidenceRules {
+    base: number;
+
+    /** Deducted when any stressor is present */
+    stress_penalty: number;
+
+    /** Deducted per stressor beyond the first */
+    extra_stressor_penalty: number;
+
+    /** Salinity (ppt) above which high_salinity_penalty is deducted */
+    high_salinity_threshold_ppt: number;
+    high_salinity_penalty: number;
+
+    /** Lowest confidence reported */
+    floor: number;
+}
+
+export interface AdditionalLockRule {
+    /** Lock to require */
+    lock: SafetyLockType;
+
+    /** Site context flag that triggers it */
+    when: keyof SiteContext;
+
+    /** Human-readable rule, shown next to the lock in every report */
+    rule: string;
+}
+
+export interface SafetyRules {
+    additional_locks: AdditionalLockRule[];
+}
+
+export interface RuleSet {
+    /** Semantic version stamped on every design produced under these rules */
+    version: string;
+    description: string;
+    chassis: ChassisRules;
+
+    /** Measured water-quality thresholds (absent before v1.2.0: only stress_signal_bool is used) */
+    environment?: EnvironmentRules;
+    efficiency: EfficiencyRules;
+    confidence: ConfidenceRules;
+    enzymes: Record<PlasticType, EnzymeConfig>;
+    organisms: Record<PlasticType, OrganismChassis>;
+
+    /** Site-dependent locks on top of the mandatory one (absent before v1.1.0) */
+    safety?: SafetyRules;
+}
+
+export class RuleSetValidationError extends Error {
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid rule set:\n  - ${issues.join('\n  - ')}`);
+        this.name = 'RuleSetValidationError';
+        this.issues = issues;
+    }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function checkPlasticTable(
+    issues: string[],
+    value: unknown,
+    path: string,
+    checkEntry: (entry: Record<string, unknown>, entryPath: string) => void
+): void {
+    if (!isRecord(value)) {
+        issues.push(`${path}: expected an object keyed by plastic type`);
+        return;
+    }
+    for (const plastic of PLASTIC_TYPES) {
+        const entry = value[plastic];
+        if (!isRecord(entry)) {
+            issues.push(`${path}.${plastic}: missing`);
+        } else {
+            checkEntry(entry, `${path}.${plastic}`);
+        }
+    }
+    for (const key of Object.keys(value)) {
+        if (!(PLASTIC_TYPES as readonly string[]).includes(key)) {
+            issues.push(`${path}.${key}: unknown plastic type`);
+        }
+    }
+}
+
+/**
+ * Lists every schema violation in a raw rule set (empty when valid)
+ */
+export function validateRuleSet(raw: unknown): string[] {
+    const issues: string[] = [];
+    if (!isRecord(raw)) {
+        return ['rule set: expected a JSON object'];
+    }
+
+    if (typeof raw.version !== 'string' || !VERSION_PATTERN.test(raw.version)) {
+        issues.push('version: expected a semantic version such as "1.0.0"');
+    }
+    checkString(issues, raw.description, 'description');
+
+    if (!isRecord(raw.chassis)) {
+        issues.push('chassis: expected an object');
+    } else {
+        checkNumber(issues, raw.chassis.halophilic_salinity_threshold_ppt, 'chassis.halophilic_salinity_threshold_ppt', 0, 100);
+        if (raw.chassis.psychrophilic_max_temperature_c !== undefined) {
+            checkNumber(issues, raw.chassis.psychrophilic_max_temperature_c, 'chassis.psychrophilic_max_temperature_c', -5, 40);
+        }
+    }
+
+    if (raw.environment !== undefined) {
+        if (!isRecord(raw.environment)) {
+            issues.push('environment: expected an object');
+        } else {
+            const environment = raw.environment;
+            for (const key of ['heat_stress_min_temperature_c', 'temperature_extreme_low_c', 'temperature_extreme_high_c'] as const) {
+                checkNumber(issues, environment[key], `environment.${key}`, -5, 100);
+            }
+            checkNumber(issues, environment.ph_min, 'environment.ph_min', 0, 14);
+            checkNumber(issues, environment.ph_max, 'environment.ph_max', 0, 14);
+            if (typeof environment.ph_min === 'number' && typeof environment.ph_max === 'number' && environment.ph_min >= environment.ph_max) {
+                issues.push('environment.ph_min: must be below environment.ph_max');
+            }
+            checkNumber(issues, environment.hypoxic_max_dissolved_oxygen_mg_l, 'environment.hypoxic_max_dissolved_oxygen_mg_l', 0, 20);
+            checkNumber(issues, environment.deep_water_min_depth_m, 'environment.deep_water_min_depth_m', 0, 11000);
+            if (!isRecord(environment.toxin_limits)) {
+                issues.push('environment.toxin_limits: expected an object');
+            } else {
+                for (const key of TOXIN_KEYS) {
+                    checkNumber(issues, environment.toxin_limits[key], `environment.toxin_limits.${key}`, 0, 100000);
+                }
+            }
+        }
+    }
+
+    if (!isRecord(raw.efficiency)) {
+        issues.push('efficiency: expected an object');
+    } else {
+        const efficiency = raw.efficiency;
+        for (const key of ['base', 'chassis_salinity_match_bonus', 'favorable_conditions_bonus',
+            'mesophilic_stress_penalty', 'per_mutation_bonus', 'cap'] as const) {
+            checkNumber(issues, efficiency[key], `efficiency.${key}`, 0, 1);
+        }
+        for (const key of ['stressor_penalty', 'thermal_mismatch_penalty'] as const) {
+            if (efficiency[key] !== undefined) {
+                checkNumber(issues, efficiency[key], `efficiency.${key}`, 0, 1);
+            }
+        }
+        checkNumber(issues, efficiency.max_mutations_counted, 'efficiency.max_mutations_counted', 0, 10);
+        if (typeof efficiency.max_mutations_counted === 'number' && !Number.isInteger(efficiency.max_mutations_counted)) {
+            issues.push('efficiency.max_mutations_counted: expected an integer');
+        }
+    }
+
+    if (!isRecord(raw.confidence)) {
+        issues.push('confidence: expected an object');
+    } else {
+        const confidence = raw.confidence;
+        for (const key of ['base', 'stress_penalty', 'extra_stressor_penalty', 'high_salinity_penalty', 'floor'] as const) {
+            checkNumber(issues, confidence[key], `confidence.${key}`, 0, 1);
+        }
+        checkNumber(issues, confidence.high_salinity_threshold_ppt, 'confidence.high_salinity_threshold_ppt', 0, 350);
+    }
+
+    checkPlasticTable(issues, raw.enzymes, 'enzymes', (entry, path) => {
+        checkString(issues, entry.base, `${path}.base`);
+        if (!Array.isArray(entry.mutations) || entry.mutations.length === 0) {
+            issues.push(`${path}.mutations: expected a non-empty array`);
+        } else {
+            entry.mutations.forEach((mutation, i) => {
+                if (typeof mutation !== 'string' || !MUTATION_PATTERN.test(mutation)) {
+                    issues.push(`${path}.mutations[${i}]: expected [OriginalAA][Position][NewAA], e.g. "S238F"`);
+                }
+            });
+        }
+    });
+
+    checkPlasticTable(issues, raw.organisms, 'organisms', (entry, path) => {
+        checkString(issues, entry.organism, `${path}.organism`);
+        checkString(issues, entry.description, `${path}.description`);
+    });
+
+    if (raw.safety !== undefined) {
+        if (!isRecord(raw.safety) || !Array.isArray(raw.safety.additional_locks)) {
+            issues.push('safety.additional_locks: expected an array');
+        } else {
+            raw.safety.additional_locks.forEach((entry: unknown, i) => {
+                const path = `safety.additional_locks[${i}]`;
+                if (!isRecord(entry)) {
+                    issues.push(`${path}: expected an object`);
+                    return;
+                }
+                if (!isSafetyLockType(entry.lock)) {
+                    issues.push(`${path}.lock: unknown safety lock type`);
+                } else if (entry.lock === MANDATORY_SAFETY_LOCK) {
+                    issues.push(`${path}.lock: ${MANDATORY_SAFETY_LOCK} is always required and cannot be conditional`);
+                }
+                if (typeof entry.when !== 'string' || !(SITE_CONTEXT_FLAGS as readonly string[]).includes(entry.when)) {
+                    issues.push(`${path}.when: expected one of ${SITE_CONTEXT_FLAGS.join(', ')}`);
+                }
+                checkString(issues, entry.rule, `${path}.rule`);
+            });
+        }
+    }
+
+    return issues;
+}
+
+/**
+ * Validates a raw rule set (e.g. a parsed JSON file) and returns it typed.
+ * Throws RuleSetValidationError listing every problem found.
+ */
+export function parseRuleSet(raw: unknown): RuleSet {
+    const issues = validateRuleSet(raw);
+    if (issues.length > 0) {
+        throw new RuleSetValidationError(issues);
+    }
+    return raw as RuleSet;
+}
+
+// =============================================================================
+// Bundled Rule Sets
+// =============================================================================
+
+/**
+ * Every released rule set, keyed by version. Old versions stay here so that
+ * designs stamped with them can be reproduced.
+ */
+export const BUNDLED_RULE_SETS: Readonly<Record<string, RuleSet>> = Object.fromEntries(
+    [ruleSet_1_0_0, ruleSet_1_1_0, ruleSet_1_2_0].map(raw => {
+        const ruleSet = parseRuleSet(raw);
+        return [ruleSet.version, ruleSet];
+    })
+);
+
+/** The rule set new designs are produced under */
+export const DEFAULT_RULE_SET: RuleSet = BUNDLED_RULE_SETS['1.2.0'];
+
+/**
+ * Looks up a bundled rule set by the version stamped on a design
+ */
+export function getRuleSet(version: string): RuleSet | undefined {
+    return BUNDLED_RULE_SETS[version];
+}
@@ -0,0 +1,34 @@
+/**
+ * Polymer-X: Schema Check Helpers
+ *
+ * Small building blocks for the hand-written validators in core/ruleset.ts
+ * and core/validation.ts. Each check appends a "path: problem" line to
+ * `issues` instead of throwing, so a validator can report everything at once.
+ */
+
+/** Semantic version such as "1.2.0" */
+export const VERSION_PATTERN = /^\d+\.\d+\.\d+$/;
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function checkNumber(
+    issues: string[],
+    value: unknown,
+    path: string,
+    min: number,
+    max: number
+): void {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push(`${path}: expected a number`);
+    } else if (value < min || value > max) {
+        issues.push(`${path}: ${value} is outside [${min}, ${max}]`);
+    }
+}
+
+export function checkString(issues: string[], value: unknown, path: string): void {
+    if (typeof value !== 'string' || value.trim() === '') {
+        issues.push(`${path}: expected a non-empty string`);
+    }
+}
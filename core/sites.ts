@@ -0,0 +1,184 @@
+/**
+ * Polymer-X: Remediation Site Gazetteer
+ *
+ * Named places worth cleaning up: the five subtropical gyre garbage patches,
+ * the river mouths that carry the most plastic to sea, and large harbours.
+ * Each comes with a typical contamination profile (plastic mix, toxins and
+ * site flags) that pre-fills the controls when the site is picked; measured
+ * values always replace it.
+ */
+
+import type { PlasticComposition, SiteContext, ToxinPanel } from '../docs/INTERFACES.js';
+import { distanceKm } from './geography.js';
+
+export type SiteKind = 'GYRE' | 'RIVER_MOUTH' | 'HARBOUR';
+
+export interface RemediationSite {
+    /** Stable identifier, e.g. "great-pacific-garbage-patch" */
+    id: string;
+    name: string;
+    kind: SiteKind;
+
+    /** Sea or ocean the site lies in */
+    region: string;
+    lat: number;
+    lng: number;
+
+    /** Rough extent; a target this close to the center is at the site */
+    radius_km: number;
+
+    /** Typical plastic mix, percentages summing to 100 */
+    composition: PlasticComposition;
+    toxins?: ToxinPanel;
+    site_context?: SiteContext;
+}
+
+export interface NearestSite {
+    site: RemediationSite;
+    distance_km: number;
+
+    /** Target lies within the site's extent */
+    inside: boolean;
+}
+
+export const SITE_KIND_LABELS: Record<SiteKind, string> = {
+    GYRE: 'Garbage patch',
+    RIVER_MOUTH: 'River mouth',
+    HARBOUR: 'Harbour',
+};
+
+// Floating debris in the gyres is mostly polyolefin fragments and nets
+const GYRE_PROFILE: PlasticComposition = { PP: 30, HDPE: 30, LDPE: 25, PS: 10, PET: 5 };
+
+// Rivers carry packaging: bags, bottles, foam
+const RIVER_PROFILE: PlasticComposition = { LDPE: 35, PET: 25, PP: 20, PS: 15, HDPE: 5 };
+
+// Harbours add construction and shipping waste, plus antifouling metals and fuel
+const HARBOUR_PROFILE: PlasticComposition = { PP: 25, PET: 20, LDPE: 20, PS: 15, PVC: 10, HDPE: 10 };
+const HARBOUR_TOXINS: ToxinPanel = { copper_ug_l: 8, lead_ug_l: 3, hydrocarbons_mg_l: 0.4 };
+
+export const REMEDIATION_SITES: readonly RemediationSite[] = [
+    // Gyres
+    {
+        id: 'great-pacific-garbage-patch', name: 'Great Pacific Garbage Patch', kind: 'GYRE',
+        region: 'North Pacific', lat: 32.0, lng: -145.0, radius_km: 1000,
+        composition: { PP: 25, HDPE: 35, LDPE: 20, PS: 10, PET: 10 },
+    },
+    {
+        id: 'south-pacific-garbage-patch', name: 'South Pacific Garbage Patch', kind: 'GYRE',
+        region: 'South Pacific', lat: -32.0, lng: -105.0, radius_km: 1000,
+        composition: GYRE_PROFILE,
+    },
+    {
+        id: 'north-atlantic-garbage-patch', name: 'North Atlantic Garbage Patch', kind: 'GYRE',
+        region: 'North Atlantic (Sargasso Sea)', lat: 30.0, lng: -55.0, radius_km: 1000,
+        composition: GYRE_PROFILE,
+    },
+    {
+        id: 'south-atlantic-garbage-patch', name: 'South Atlantic Garbage Patch', kind: 'GYRE',
+        region: 'South Atlantic', lat: -30.0, lng: -20.0, radius_km: 900,
+        composition: GYRE_PROFILE,
+    },
+    {
+        id: 'indian-ocean-garbage-patch', name: 'Indian Ocean Garbage Patch', kind: 'GYRE',
+        region: 'South Indian Ocean', lat: -28.0, lng: 80.0, radius_km: 1000,
+        composition: GYRE_PROFILE,
+    },
+
+    // River mouths
+    {
+        id: 'yangtze-river-mouth', name: 'Yangtze River mouth', kind: 'RIVER_MOUTH',
+        region: 'East China Sea', lat: 31.4, lng: 121.8, radius_km: 70,
+        composition: RIVER_PROFILE, site_context: { near_urban_water_supply: true },
+    },
+    {
+        id: 'ganges-brahmaputra-mouth', name: 'Ganges-Brahmaputra mouth', kind: 'RIVER_MOUTH',
+        region: 'Bay of Bengal', lat: 21.7, lng: 90.0, radius_km: 150,
+        composition: RIVER_PROFILE,
+    },
+    {
+        id: 'pearl-river-mouth', name: 'Pearl River mouth', kind: 'RIVER_MOUTH',
+        region: 'South China Sea', lat: 22.3, lng: 113.7, radius_km: 60,
+        composition: RIVER_PROFILE, site_context: { near_urban_water_supply: true },
+    },
+    {
+        id: 'mekong-river-mouth', name: 'Mekong River mouth', kind: 'RIVER_MOUTH',
+        region: 'South China Sea', lat: 9.8, lng: 106.5, radius_km: 90,
+        composition: RIVER_PROFILE,
+    },
+    {
+        id: 'niger-delta', name: 'Niger Delta', kind: 'RIVER_MOUTH',
+        region: 'Gulf of Guinea', lat: 4.3, lng: 6.0, radius_km: 100,
+        composition: RIVER_PROFILE, toxins: { hydrocarbons_mg_l: 1.5 },
+    },
+    {
+        id: 'amazon-river-mouth', name: 'Amazon River mouth', kind: 'RIVER_MOUTH',
+        region: 'Equatorial Atlantic', lat: -0.5, lng: -49.5, radius_km: 150,
+        composition: { LDPE: 30, PET: 30, PP: 20, PS: 10, HDPE: 10 },
+    },
+    {
+        id: 'mississippi-river-mouth', name: 'Mississippi River mouth', kind: 'RIVER_MOUTH',
+        region: 'Gulf of Mexico', lat: 29.2, lng: -89.4, radius_km: 60,
+        composition: RIVER_PROFILE, toxins: { hydrocarbons_mg_l: 0.3 },
+    },
+
+    // Harbours
+    {
+        id: 'port-of-rotterdam', name: 'Port of Rotterdam', kind: 'HARBOUR',
+        region: 'North Sea', lat: 51.98, lng: 3.95, radius_km: 30,
+        composition: HARBOUR_PROFILE, toxins: HARBOUR_TOXINS,
+    },
+    {
+        id: 'port-of-singapore', name: 'Port of Singapore', kind: 'HARBOUR',
+        region: 'Singapore Strait', lat: 1.22, lng: 103.85, radius_km: 30,
+        composition: HARBOUR_PROFILE, toxins: { ...HARBOUR_TOXINS, copper_ug_l: 12 },
+    },
+    {
+        id: 'port-of-los-angeles', name: 'Port of Los Angeles and Long Beach', kind: 'HARBOUR',
+        region: 'San Pedro Bay', lat: 33.60, lng: -118.25, radius_km: 30,
+        composition: HARBOUR_PROFILE, toxins: HARBOUR_TOXINS,
+    },
+    {
+        id: 'port-of-new-york', name: 'Port of New York and New Jersey', kind: 'HARBOUR',
+        region: 'New York Bight', lat: 40.55, lng: -74.00, radius_km: 30,
+        composition: HARBOUR_PROFILE, toxins: HARBOUR_TOXINS,
+        site_context: { near_urban_water_supply: true },
+    },
+    {
+        id: 'port-of-mumbai', name: 'Port of Mumbai', kind: 'HARBOUR',
+        region: 'Arabian Sea', lat: 18.90, lng: 72.88, radius_km: 30,
+        composition: HARBOUR_PROFILE, toxins: { ...HARBOUR_TOXINS, lead_ug_l: 12 },
+        site_context: { near_urban_water_supply: true },
+    },
+    {
+        id: 'port-of-lagos', name: 'Port of Lagos', kind: 'HARBOUR',
+        region: 'Gulf of Guinea', lat: 6.30, lng: 3.40, radius_km: 30,
+        composition: HARBOUR_PROFILE, toxins: { ...HARBOUR_TOXINS, hydrocarbons_mg_l: 1.2 },
+    },
+];
+
+/** Where the map starts: the Great Pacific Garbage Patch */
+export const DEFAULT_SITE: RemediationSite = REMEDIATION_SITES[0];
+
+export function findSite(id: string): RemediationSite | undefined {
+    return REMEDIATION_SITES.find(site => site.id === id);
+}
+
+/**
+ * Sites whose name, region or kind contains the query (all of them for an empty query)
+ */
+export function searchSites(query: string): RemediationSite[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) {
+        return [...REMEDIATION_SITES];
+    }
+    return REMEDIATION_SITES.filter(site =>
+        [site.name, site.region, SITE_KIND_LABELS[site.kind]].some(text => text.toLowerCase().includes(needle)));
+}
+
+export function nearestSite(lat: number, lng: number): NearestSite {
+    const [site, distance] = REMEDIATION_SITES
+        .map(candidate => [candidate, distanceKm(lat, lng, candidate.lat, candidate.lng)] as const)
+        .reduce((best, next) => (next[1] < best[1] ? next : best));
+    return { site, distance_km: Math.round(distance), inside: distance <= site.radius_km };
+}
@@ -0,0 +1,128 @@
+/**
+ * Polymer-X: Fixed Vocabulary
+ *
+ * Constants shared by the web bridge and the CLI that are not tunable.
+ * The organism/enzyme tables and scoring numbers are part of the versioned
+ * rule set (core/ruleset.ts).
+ */
+
+import type { ChassisType, PlasticType, SafetyLockType, SiteContext, ToxinPanel, WaterBodyType } from '../docs/INTERFACES.js';
+
+// =============================================================================
+// Plastic Types
+// =============================================================================
+
+export const PLASTIC_TYPES: readonly PlasticType[] = ['PET', 'HDPE', 'PVC', 'LDPE', 'PP', 'PS'];
+
+export function isPlasticType(value: string): value is PlasticType {
+    return (PLASTIC_TYPES as readonly string[]).includes(value);
+}
+
+// =============================================================================
+// Chassis & Mutations
+// =============================================================================
+
+export const CHASSIS_TYPES: readonly ChassisType[] = ['Halophilic', 'Mesophilic', 'Thermophilic', 'Psychrophilic'];
+
+export function isChassisType(value: unknown): value is ChassisType {
+    return typeof value === 'string' && (CHASSIS_TYPES as readonly string[]).includes(value);
+}
+
+/** [OriginalAA][Position][NewAA], e.g. "S238F" */
+export const MUTATION_PATTERN = /^[A-Z]\d+[A-Z]$/;
+
+// =============================================================================
+// Water Quality
+// =============================================================================
+
+export const TOXIN_KEYS: readonly (keyof ToxinPanel)[] = [
+    'lead_ug_l',
+    'mercury_ug_l',
+    'cadmium_ug_l',
+    'copper_ug_l',
+    'hydrocarbons_mg_l',
+];
+
+/**
+ * Physically possible values of each measurement, [min, max]; wider than any
+ * remediation site, so only impossible readings are refused
+ */
+export const MEASUREMENT_RANGES: Record<
+    'salinity' | 'temperature_c' | 'ph' | 'depth_m' | 'dissolved_oxygen_mg_l',
+    readonly [number, number]
+> = {
+    salinity: [0, 350],
+    temperature_c: [-5, 100],
+    ph: [0, 14],
+    depth_m: [0, 11000],
+    dissolved_oxygen_mg_l: [0, 20],
+};
+
+/** Possible toxin concentrations, [min, max] in each key's unit */
+export const TOXIN_RANGES: Record<keyof ToxinPanel, readonly [number, number]> = {
+    lead_ug_l: [0, 100000],
+    mercury_ug_l: [0, 100000],
+    cadmium_ug_l: [0, 100000],
+    copper_ug_l: [0, 100000],
+    hydrocarbons_mg_l: [0, 100000],
+};
+
+export const WATER_BODY_TYPES: readonly WaterBodyType[] = ['OPEN_OCEAN', 'COASTAL', 'ESTUARY', 'LAKE'];
+
+export function isWaterBodyType(value: unknown): value is WaterBodyType {
+    return typeof value === 'string' && (WATER_BODY_TYPES as readonly string[]).includes(value);
+}
+
+export const WATER_BODY_LABELS: Record<WaterBodyType, string> = {
+    OPEN_OCEAN: 'Open ocean',
+    COASTAL: 'Coastal water',
+    ESTUARY: 'Estuary',
+    LAKE: 'Lake',
+};
+
+// =============================================================================
+// Safety & References
+// =============================================================================
+
+export const SAFETY_LOCK_TYPES: readonly SafetyLockType[] = [
+    'Quorum_Sensing_Type_A',
+    'Quorum_Sensing_Type_B',
+    'Temperature_Sensitive',
+    'Auxotrophic',
+    'Light_Activated',
+];
+
+export function isSafetyLockType(value: unknown): value is SafetyLockType {
+    return typeof value === 'string' && (SAFETY_LOCK_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * Kill switch every design must carry (docs/LOGIC.md Section 2.1)
+ */
+export const MANDATORY_SAFETY_LOCK: SafetyLockType = 'Quorum_Sensing_Type_B';
+
+export const MANDATORY_SAFETY_LOCK_RULE = 'Mandatory for all engineered organisms (LOGIC.md §2.1, Zhang et al. 2025)';
+
+/**
+ * Site context flags a rule set can attach additional locks to
+ */
+export const SITE_CONTEXT_FLAGS: readonly (keyof SiteContext)[] = [
+    'near_urban_water_supply',
+    'temperature_extremes',
+    'coastal_zone',
+];
+
+/**
+ * Site context flags a kind of water implies
+ */
+export const WATER_BODY_SITE_CONTEXT: Record<WaterBodyType, SiteContext> = {
+    OPEN_OCEAN: {},
+    COASTAL: { coastal_zone: true },
+    ESTUARY: { coastal_zone: true },
+    LAKE: {},
+};
+
+export const REFERENCES = {
+    LEE_2025: 'Lee et al. 2025 - Halophilic Enzyme Expression in Marine Bioremediation',
+    ZHANG_2025: 'Zhang et al. 2025 - Engineered Quorum Sensing Kill Switches for Synthetic Biology Containment',
+} as const;
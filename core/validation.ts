@@ -0,0 +1,392 @@
+/**
+ * Polymer-X: LIVE Design Validation
+ *
+ * Runtime check for EnzymeDesign payloads coming back from a language model
+ * (and for WaterAnalysis samples read from files), and the repair loop that
+ * sends validation errors back to the model until it produces a valid reply
+ * or runs out of attempts.
+ */
+
+import type {
+    AgentRole,
+    BioAgentConfig,
+    DebateEvent,
+    EnzymeDesign,
+    MonologueEntry,
+    SafetyLock,
+    ToxinPanel,
+    WaterAnalysis,
+} from '../docs/INTERFACES.js';
+import { MEASUREMENT_RANGES, MUTATION_PATTERN, SITE_CONTEXT_FLAGS, TOXIN_KEYS, TOXIN_RANGES, WATER_BODY_TYPES, isChassisType, isPlasticType, isSafetyLockType, isWaterBodyType } from './tables.js';
+import { DEFAULT_RULE_SET, type RuleSet } from './ruleset.js';
+import { findMissingSafetyLocks, requiredSafetyLocks, validateComposition } from './rules.js';
+import { buildArchitectSystemPrompt, buildDesignPrompt, buildRepairPrompt, extractJson } from './prompts.js';
+import { resolveBioAgentConfig, type ChatTurn, type LLMProvider } from './providers.js';
+import { VERSION_PATTERN, checkNumber, checkString, isRecord } from './schema.js';
+
+export class EnzymeDesignValidationError extends Error {
+    readonly issues: string[];
+
+    constructor(issues: string[]) {
+        super(`Invalid enzyme design:\n  - ${issues.join('\n  - ')}`);
+        this.name = 'EnzymeDesignValidationError';
+        this.issues = issues;
+    }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/** Cocktail fractions may drift this far from summing to 1 (rounding) */
+const FRACTION_SUM_TOLERANCE = 0.02;
+
+function checkMutationList(issues: string[], value: unknown, path: string): void {
+    if (!Array.isArray(value) || value.length === 0) {
+        issues.push(`${path}: expected a non-empty array`);
+        return;
+    }
+    value.forEach((mutation, i) => {
+        if (typeof mutation !== 'string' || !MUTATION_PATTERN.test(mutation)) {
+            issues.push(`${path}[${i}]: expected [OriginalAA][Position][NewAA], e.g. "S238F"`);
+        }
+    });
+}
+
+export interface EnzymeDesignValidationOptions {
+    /** Locks the site requires; any that are absent are reported */
+    requiredLocks?: readonly SafetyLock[];
+}
+
+/**
+ * Lists every problem with a raw design (empty when valid)
+ */
+export function validateEnzymeDesign(raw: unknown, options: EnzymeDesignValidationOptions = {}): string[] {
+    const issues: string[] = [];
+    if (!isRecord(raw)) {
+        return ['design: expected a JSON object'];
+    }
+
+    checkString(issues, raw.enzyme_name, 'enzyme_name');
+    checkMutationList(issues, raw.mutation_list, 'mutation_list');
+    checkNumber(issues, raw.predicted_efficiency_score, 'predicted_efficiency_score', 0, 1);
+
+    if (!Array.isArray(raw.safety_locks)) {
+        issues.push('safety_locks: expected an array of { type, rule }');
+    } else {
+        raw.safety_locks.forEach((lock: unknown, i) => {
+            const path = `safety_locks[${i}]`;
+            if (!isRecord(lock)) {
+                issues.push(`${path}: expected an object`);
+                return;
+            }
+            if (!isSafetyLockType(lock.type)) {
+                issues.push(`${path}.type: unknown safety lock type`);
+            }
+            checkString(issues, lock.rule, `${path}.rule`);
+        });
+        if (options.requiredLocks) {
+            const missing = findMissingSafetyLocks(raw.safety_locks as SafetyLock[], options.requiredLocks);
+            for (const lock of missing) {
+                issues.push(`safety_locks: missing required ${lock.type} (${lock.rule})`);
+            }
+        }
+    }
+
+    if (!isChassisType(raw.chassis_type)) {
+        issues.push('chassis_type: expected Halophilic, Mesophilic, Thermophilic or Psychrophilic');
+    }
+    checkString(issues, raw.design_rationale, 'design_rationale');
+
+    if (!Array.isArray(raw.references) || raw.references.some(reference => typeof reference !== 'string')) {
+        issues.push('references: expected an array of strings');
+    }
+
+    if (typeof raw.rule_set_version !== 'string' || !VERSION_PATTERN.test(raw.rule_set_version)) {
+        issues.push('rule_set_version: expected a semantic version such as "1.2.0"');
+    }
+
+    if (raw.cocktail !== undefined) {
+        if (!Array.isArray(raw.cocktail) || raw.cocktail.length < 2) {
+            issues.push('cocktail: expected an array of at least 2 components (omit it for single-polymer sites)');
+        } else {
+            let fractionSum = 0;
+            raw.cocktail.forEach((component: unknown, i) => {
+                const path = `cocktail[${i}]`;
+                if (!isRecord(component)) {
+                    issues.push(`${path}: expected an object`);
+                    return;
+                }
+                if (typeof component.plastic_type !== 'string' || !isPlasticType(component.plastic_type)) {
+                    issues.push(`${path}.plastic_type: unknown plastic type`);
+                }
+                checkNumber(issues, component.fraction, `${path}.fraction`, 0, 1);
+                checkString(issues, component.organism, `${path}.organism`);
+                checkString(issues, component.enzyme_name, `${path}.enzyme_name`);
+                checkMutationList(issues, component.mutation_list, `${path}.mutation_list`);
+                checkNumber(issues, component.predicted_efficiency_score, `${path}.predicted_efficiency_score`, 0, 1);
+                fractionSum += typeof component.fraction === 'number' ? component.fraction : 0;
+            });
+            if (Math.abs(fractionSum - 1) > FRACTION_SUM_TOLERANCE) {
+                issues.push(`cocktail: fractions sum to ${fractionSum.toFixed(3)}, expected 1`);
+            }
+        }
+    }
+
+    return issues;
+}
+
+const OPTIONAL_MEASUREMENTS = ['temperature_c', 'ph', 'depth_m', 'dissolved_oxygen_mg_l'] as const;
+
+/**
+ * Lists every problem with a raw WaterAnalysis (empty when valid), e.g. a
+ * sample read from a file
+ */
+export function validateWaterAnalysis(raw: unknown): string[] {
+    const issues: string[] = [];
+    if (!isRecord(raw)) {
+        return ['analysis: expected a JSON object'];
+    }
+
+    checkNumber(issues, raw.lat, 'lat', -90, 90);
+    checkNumber(issues, raw.lng, 'lng', -180, 180);
+    checkNumber(issues, raw.salinity, 'salinity', ...MEASUREMENT_RANGES.salinity);
+    if (typeof raw.plastic_type !== 'string' || !isPlasticType(raw.plastic_type)) {
+        issues.push('plastic_type: unknown plastic type');
+    }
+    if (typeof raw.stress_signal_bool !== 'boolean') {
+        issues.push('stress_signal_bool: expected a boolean');
+    }
+    if (raw.composition !== undefined) {
+        if (!isRecord(raw.composition)) {
+            issues.push('composition: expected an object');
+        } else {
+            issues.push(...validateComposition(raw.composition).map(issue => `composition.${issue}`));
+        }
+    }
+    for (const field of OPTIONAL_MEASUREMENTS) {
+        if (raw[field] !== undefined) {
+            checkNumber(issues, raw[field], field, ...MEASUREMENT_RANGES[field]);
+        }
+    }
+    if (raw.toxins !== undefined) {
+        if (!isRecord(raw.toxins)) {
+            issues.push('toxins: expected an object');
+        } else {
+            for (const [key, value] of Object.entries(raw.toxins)) {
+                if (!(TOXIN_KEYS as readonly string[]).includes(key)) {
+                    issues.push(`toxins.${key}: expected one of ${TOXIN_KEYS.join(', ')}`);
+                } else if (value !== undefined) {
+                    checkNumber(issues, value, `toxins.${key}`, ...TOXIN_RANGES[key as keyof ToxinPanel]);
+                }
+            }
+        }
+    }
+    if (raw.site_context !== undefined) {
+        if (!isRecord(raw.site_context)) {
+            issues.push('site_context: expected an object');
+        } else {
+            for (const [flag, value] of Object.entries(raw.site_context)) {
+                if (!(SITE_CONTEXT_FLAGS as readonly string[]).includes(flag)) {
+                    issues.push(`site_context.${flag}: expected one of ${SITE_CONTEXT_FLAGS.join(', ')}`);
+                } else if (value !== undefined && typeof value !== 'boolean') {
+                    issues.push(`site_context.${flag}: expected a boolean`);
+                }
+            }
+        }
+    }
+    if (raw.water_body !== undefined && !isWaterBodyType(raw.water_body)) {
+        issues.push(`water_body: expected one of ${WATER_BODY_TYPES.join(', ')}`);
+    }
+    return issues;
+}
+
+/**
+ * Validates a raw design and returns it typed.
+ * Throws EnzymeDesignValidationError listing every problem found.
+ */
+export function parseEnzymeDesign(raw: unknown, options: EnzymeDesignValidationOptions = {}): EnzymeDesign {
+    const issues = validateEnzymeDesign(raw, options);
+    if (issues.length > 0) {
+        throw new EnzymeDesignValidationError(issues);
+    }
+    return raw as EnzymeDesign;
+}
+
+// =============================================================================
+// Repair-and-Retry
+// =============================================================================
+
+/** Attempts a LIVE reply gets before the caller falls back */
+export const DEFAULT_MAX_DESIGN_ATTEMPTS = 3;
+
+export interface DesignAttempt {
+    attempt: number;
+    issues: string[];
+}
+
+/** A parsed reply, or the validation errors to send back */
+export interface ReplyCheck<T> {
+    value?: T;
+    issues: string[];
+}
+
+export interface ValidatedReplyOptions {
+    maxAttempts?: number;
+
+    /** Generation settings (defaults from resolveBioAgentConfig) */
+    config?: BioAgentConfig;
+
+    /** What a repair asks the model to return, e.g. "review" */
+    subject?: string;
+
+    /** Receives the reply tokens and failed-attempt entries as they happen */
+    onEvent?: (event: DebateEvent) => void;
+
+    /** Aborts the model calls */
+    signal?: AbortSignal;
+}
+
+export interface ValidatedReplyResult<T> {
+    /** The first reply that passed validation (undefined when every attempt failed) */
+    value?: T;
+    attempts: DesignAttempt[];
+
+    /** One entry per failed attempt, attributed to the calling role */
+    monologue: MonologueEntry[];
+
+    /** The conversation, ending with the accepted reply when there is one */
+    turns: ChatTurn[];
+}
+
+/**
+ * Parses the JSON payload of a reply and validates it, for roles whose
+ * replies need no post-processing
+ */
+export function checkJsonReply<T>(text: string, validate: (raw: unknown) => string[]): ReplyCheck<T> {
+    const { raw, issues } = parseJsonReply(text);
+    if (issues.length > 0) {
+        return { issues };
+    }
+    const problems = validate(raw);
+    return problems.length > 0 ? { issues: problems } : { value: raw as T, issues: problems };
+}
+
+function parseJsonReply(text: string): { raw?: unknown; issues: string[] } {
+    try {
+        return { raw: JSON.parse(extractJson(text)), issues: [] };
+    } catch (error) {
+        return { issues: [`response: not valid JSON (${error instanceof Error ? error.message : 'parse error'})`] };
+    }
+}
+
+/**
+ * Sends a conversation to the model and, while its reply fails the check,
+ * sends the specific errors back for repair - up to maxAttempts replies in
+ * total. Provider errors (network, quota) propagate to the caller.
+ */
+export async function requestValidatedReply<T>(
+    provider: LLMProvider,
+    agent: AgentRole,
+    request: { system: string; turns: readonly ChatTurn[] },
+    check: (text: string) => ReplyCheck<T>,
+    options: ValidatedReplyOptions = {}
+): Promise<ValidatedReplyResult<T>> {
+    const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_DESIGN_ATTEMPTS);
+    const config = options.config ?? resolveBioAgentConfig(provider);
+    const onEvent = options.onEvent;
+    const turns: ChatTurn[] = [...request.turns];
+    const attempts: DesignAttempt[] = [];
+    const monologue: MonologueEntry[] = [];
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        const text = await provider.generate({
+            system: request.system,
+            turns: [...turns],
+            model: config.model,
+            temperature: config.temperature,
+            maxTokens: config.max_tokens,
+            signal: options.signal,
+            ...(onEvent && { onToken: (token: string) => onEvent({ type: 'token', agent, text: token }) }),
+        });
+        const { value, issues } = check(text);
+        attempts.push({ attempt, issues });
+        turns.push({ role: 'model', text });
+
+        if (value !== undefined) {
+            return { value, attempts, monologue, turns };
+        }
+
+        const retrying = attempt < maxAttempts;
+        const entry: MonologueEntry = {
+            agent,
+            timestamp: new Date().toISOString(),
+            thought: `Model response (attempt ${attempt}/${maxAttempts}) failed schema validation: ${issues.join('; ')}.`,
+            decision: retrying ? 'Returning the validation errors to the model for repair.' : 'Attempts exhausted.',
+            rejected: true,
+            ...(retrying && { retry_reason: `Repair attempt ${attempt + 1}/${maxAttempts}: ${issues.length} issue(s) to fix.` }),
+        };
+        monologue.push(entry);
+        onEvent?.({ type: 'entry', entry });
+        turns.push({ role: 'user', text: buildRepairPrompt(issues, options.subject) });
+    }
+
+    return { attempts, monologue, turns };
+}
+
+export interface ValidatedDesignResult {
+    /** The first design that passed validation (undefined when every attempt failed) */
+    design?: EnzymeDesign;
+    attempts: DesignAttempt[];
+
+    /** One ARCHITECT entry per failed attempt */
+    monologue: MonologueEntry[];
+
+    /** The Architect's conversation, for sending back objections */
+    turns: ChatTurn[];
+}
+
+export interface ValidatedDesignOptions extends ValidatedReplyOptions {
+    ruleSet?: RuleSet;
+
+    /** Conversation to continue (defaults to a fresh design request) */
+    turns?: readonly ChatTurn[];
+}
+
+/**
+ * Parses a reply into a design stamped with the rule set version, returning
+ * either the design or the validation errors to send back.
+ */
+function checkDesignReply(text: string, input: WaterAnalysis, rules: RuleSet): ReplyCheck<EnzymeDesign> {
+    const { raw, issues: parseIssues } = parseJsonReply(text);
+    if (parseIssues.length > 0) {
+        return { issues: parseIssues };
+    }
+
+    const stamped = isRecord(raw) ? { ...raw, rule_set_version: rules.version } : raw;
+    const issues = validateEnzymeDesign(stamped, { requiredLocks: requiredSafetyLocks(input, rules) });
+    return issues.length > 0 ? { issues } : { value: stamped as EnzymeDesign, issues };
+}
+
+/**
+ * Asks the Architect model for a design, repairing replies that fail
+ * schema validation (see requestValidatedReply).
+ */
+export async function requestValidatedDesign(
+    provider: LLMProvider,
+    input: WaterAnalysis,
+    options: ValidatedDesignOptions = {}
+): Promise<ValidatedDesignResult> {
+    const rules = options.ruleSet ?? DEFAULT_RULE_SET;
+    const { value, attempts, monologue, turns } = await requestValidatedReply(
+        provider,
+        'ARCHITECT',
+        {
+            system: buildArchitectSystemPrompt(rules),
+            turns: options.turns ?? [{ role: 'user', text: buildDesignPrompt(input, rules) }],
+        },
+        text => checkDesignReply(text, input, rules),
+        options
+    );
+    return { design: value, attempts, monologue, turns };
+}
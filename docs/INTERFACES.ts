@@ -6,6 +6,24 @@
  * and the enzyme design outputs generated by the simulated Evo 2/RFdiffusion pipeline.
  */
 
+/**
+ * Plastic polymer families the bio-agent can target.
+ * PET = Polyethylene Terephthalate (bottles, containers)
+ * HDPE = High-Density Polyethylene (pipes, bottles)
+ * PVC = Polyvinyl Chloride (pipes, cable insulation)
+ * LDPE = Low-Density Polyethylene (bags, films)
+ * PP = Polypropylene (containers, automotive parts)
+ * PS = Polystyrene (foam, packaging)
+ */
+export type PlasticType = 'PET' | 'HDPE' | 'PVC' | 'LDPE' | 'PP' | 'PS';
+
+/**
+ * Share of each polymer in a mixed-contamination sample, in percent
+ * (e.g. { PET: 60, PP: 30, PS: 10 }). Shares are normalized before use,
+ * so they need not sum to exactly 100. Omitted polymers count as 0.
+ */
+export type PlasticComposition = Partial<Record<PlasticType, number>>;
+
 /**
  * Input interface for water sample analysis.
  * Used to characterize the environmental conditions at a contamination site.
@@ -20,23 +38,89 @@ export interface WaterAnalysis {
   /** Salinity level in parts per thousand (ppt). Seawater is typically ~35ppt */
   salinity: number;
 
-  /** 
-   * Type of plastic contamination detected.
-   * PET = Polyethylene Terephthalate (bottles, containers)
-   * HDPE = High-Density Polyethylene (pipes, bottles)
-   * PVC = Polyvinyl Chloride (pipes, cable insulation)
-   * LDPE = Low-Density Polyethylene (bags, films)
-   * PP = Polypropylene (containers, automotive parts)
-   * PS = Polystyrene (foam, packaging)
-   */
-  plastic_type: 'PET' | 'HDPE' | 'PVC' | 'LDPE' | 'PP' | 'PS';
+  /** Type of plastic contamination detected (the dominant polymer when a composition is given) */
+  plastic_type: PlasticType;
+
+  /** Polymer mix at a mixed-contamination site. Omitted = 100% plastic_type */
+  composition?: PlasticComposition;
 
   /** 
    * Boolean indicating if environmental stress signals are detected.
    * True = hostile conditions (extreme temp, pH, toxins)
    * False = normal environmental conditions
+   * When measured values are given below, the individual stressors are derived
+   * from them and this flag only adds an otherwise unspecified reported stress.
    */
   stress_signal_bool: boolean;
+
+  /** Measured water temperature in °C */
+  temperature_c?: number;
+
+  /** Measured pH */
+  ph?: number;
+
+  /** Sampling depth in metres */
+  depth_m?: number;
+
+  /** Dissolved oxygen in mg/L */
+  dissolved_oxygen_mg_l?: number;
+
+  /** Measured contaminant concentrations */
+  toxins?: ToxinPanel;
+
+  /** Site conditions that require additional safety locks (docs/LOGIC.md Section 2.2) */
+  site_context?: SiteContext;
+
+  /**
+   * Kind of water at lat/lng, classified from the bundled coastline and
+   * inland-water outlines. Coastal and estuary targets imply site_context.coastal_zone.
+   */
+  water_body?: WaterBodyType;
+}
+
+/**
+ * Water at a deployment target.
+ * OPEN_OCEAN = sea beyond the coastal zone
+ * COASTAL = sea near a coastline
+ * ESTUARY = tidal river mouth or bay
+ * LAKE = inland lake or enclosed inland sea
+ */
+export type WaterBodyType = 'OPEN_OCEAN' | 'COASTAL' | 'ESTUARY' | 'LAKE';
+
+/**
+ * Contaminant concentrations from a water-quality panel.
+ * Omitted entries were not measured.
+ */
+export interface ToxinPanel {
+  /** Lead in µg/L */
+  lead_ug_l?: number;
+
+  /** Mercury in µg/L */
+  mercury_ug_l?: number;
+
+  /** Cadmium in µg/L */
+  cadmium_ug_l?: number;
+
+  /** Copper in µg/L */
+  copper_ug_l?: number;
+
+  /** Total petroleum hydrocarbons in mg/L */
+  hydrocarbons_mg_l?: number;
+}
+
+/**
+ * Deployment-site conditions checked by the Safety Officer.
+ * Omitted flags are treated as false.
+ */
+export interface SiteContext {
+  /** Site is near an urban water supply (requires Auxotrophic) */
+  near_urban_water_supply?: boolean;
+
+  /** Temperature extremes are expected at the site (requires Temperature_Sensitive) */
+  temperature_extremes?: boolean;
+
+  /** Site is in a coastal or tidal zone (requires Light_Activated as UV backup) */
+  coastal_zone?: boolean;
 }
 
 /**
@@ -50,14 +134,25 @@ export type SafetyLockType =
   | 'Auxotrophic'             // Requires external nutrient to survive
   | 'Light_Activated';        // UV-triggered termination
 
+/**
+ * A safety lock carried by a design, with the rule that demanded it.
+ */
+export interface SafetyLock {
+  /** The kill-switch mechanism */
+  type: SafetyLockType;
+
+  /** The rule that requires this lock (e.g. "Near urban water supply (LOGIC.md §2.2)") */
+  rule: string;
+}
+
 /**
  * Chassis organism types for enzyme expression.
  */
 export type ChassisType = 
   | 'Halophilic'      // Salt-tolerant (REQUIRED when salinity > 35ppt per Lee et al. 2025)
   | 'Mesophilic'      // Standard conditions
-  | 'Thermophilic'    // Heat-tolerant
-  | 'Psychrophilic';  // Cold-tolerant
+  | 'Thermophilic'    // Heat-tolerant, also used for non-thermal stress
+  | 'Psychrophilic';  // Cold-tolerant (measured temperature below the rule set threshold)
 
 /**
  * Output interface for enzyme design recommendations.
@@ -80,10 +175,11 @@ export interface EnzymeDesign {
   predicted_efficiency_score: number;
 
   /** 
-   * The biosafety mechanism integrated into the organism.
-   * MUST include Quorum_Sensing_Type_B per Zhang et al. 2025 safety protocols.
+   * Stack of biosafety mechanisms integrated into the organism.
+   * MUST include Quorum_Sensing_Type_B per Zhang et al. 2025 safety protocols,
+   * plus any additional locks the site context requires.
    */
-  safety_lock_type: SafetyLockType;
+  safety_locks: SafetyLock[];
 
   /** Chassis organism selected for enzyme expression */
   chassis_type: ChassisType;
@@ -93,10 +189,43 @@ export interface EnzymeDesign {
 
   /** Reference citations supporting the design choices */
   references: string[];
+
+  /** Version of the rule set (core/rulesets/) the design was produced under */
+  rule_set_version: string;
+
+  /**
+   * Per-polymer breakdown for mixed sites. When present, enzyme_name,
+   * mutation_list and predicted_efficiency_score describe the whole cocktail
+   * and the score is the composition-weighted mean of the components.
+   */
+  cocktail?: CocktailComponent[];
+}
+
+/**
+ * One enzyme of a multi-enzyme cocktail, expressed by its own chassis organism.
+ */
+export interface CocktailComponent {
+  /** Polymer this enzyme targets */
+  plastic_type: PlasticType;
+
+  /** Share of the site's plastic this component is responsible for (0.0 - 1.0) */
+  fraction: number;
+
+  /** Chassis organism expressing the enzyme */
+  organism: string;
+
+  /** Name of the designed enzyme (e.g., "CutinasePP-v4.2-Halo") */
+  enzyme_name: string;
+
+  /** Mutations applied to this enzyme */
+  mutation_list: string[];
+
+  /** Predicted efficiency of this enzyme on its polymer (0.0 - 1.0) */
+  predicted_efficiency_score: number;
 }
 
 /**
- * Configuration for the Gemini-based bio-agent simulation.
+ * Generation settings for LIVE mode model calls.
  */
 export interface BioAgentConfig {
   /** Model identifier (e.g., "gemini-1.5-flash") */
@@ -122,6 +251,356 @@ export interface BioAgentResponse {
   /** Error message if simulation failed */
   error?: string;
 
+  /** Why the simulation failed, if it did (error carries the same message) */
+  failure?: DebateFailure;
+
   /** Timestamp of the response */
   timestamp: string;
 }
+
+/**
+ * Category of a failed or degraded run.
+ */
+export type FailureCategory =
+  | 'AUTH'                   // The provider rejected the credentials (HTTP 401/403)
+  | 'QUOTA'                  // Rate limit or quota exhausted (HTTP 429)
+  | 'NETWORK'                // The provider could not be reached
+  | 'PROVIDER'               // Any other provider error (5xx, empty or malformed reply)
+  | 'PARSE'                  // A model reply was not JSON
+  | 'VALIDATION'             // A model reply failed schema validation
+  | 'SAFETY_REJECTION'       // The Safety Officer rejected every proposal
+  | 'CONFORMANCE_REJECTION'  // The conformance audit rejected the approved design
+  | 'CANCELLED'              // The caller aborted the run
+  | 'TIMED_OUT'              // A phase exceeded its timeout
+  | 'INTERNAL';              // Anything else (a bug)
+
+/**
+ * Why a debate was stopped before it finished.
+ */
+export type AbortKind = Extract<FailureCategory, 'CANCELLED' | 'TIMED_OUT'>;
+
+/**
+ * Structured reason a run failed or a LIVE run fell back to the simulation.
+ */
+export interface DebateFailure {
+  category: FailureCategory;
+
+  /** One-line explanation */
+  message: string;
+
+  /** Committee role whose reply failed, for PARSE and VALIDATION */
+  agent?: AgentRole;
+
+  /** The original error, e.g. "429 Too Many Requests" or the last validation issues */
+  cause?: string;
+}
+
+/**
+ * Committee sub-agents that deliberate on a design.
+ */
+export type AgentRole = 'ARCHITECT' | 'SAFETY_OFFICER' | 'SIMULATOR';
+
+/**
+ * Internal monologue entry from a committee sub-agent.
+ */
+export interface MonologueEntry {
+  /** Sub-agent that produced this entry */
+  agent: AgentRole;
+
+  /** Timestamp of the entry */
+  timestamp: string;
+
+  /** What the sub-agent considered */
+  thought: string;
+
+  /** What the sub-agent decided, if anything */
+  decision?: string;
+
+  /** True when the sub-agent rejected the current proposal */
+  rejected?: boolean;
+
+  /** Why the proposal was sent back for another round */
+  retry_reason?: string;
+}
+
+/**
+ * Response wrapper from a committee debate, including the full monologue.
+ */
+export interface CommitteeBioAgentResponse extends BioAgentResponse {
+  /** Ordered record of the debate between the sub-agents */
+  internal_monologue: MonologueEntry[];
+
+  /** Whether the design came from a live model or the deterministic rules */
+  mode: 'LIVE' | 'SIMULATION';
+
+  /** Cross-check of a LIVE design against the deterministic engine */
+  conformance?: ConformanceReport;
+
+  /** Effective settings of the LIVE calls (absent when no model was called) */
+  agent_config?: BioAgentConfig;
+
+  /** Backend that served the LIVE calls, e.g. "gemini" */
+  provider?: string;
+
+  /** Set when a LIVE run fell back to the simulation (mode 'SIMULATION'): why the model's design was not used */
+  fallback?: DebateFailure;
+}
+
+/**
+ * A deployment as persisted in the history: everything needed to reopen it
+ * exactly as it was.
+ */
+export interface DeploymentRecord {
+  /** Unique identifier, assigned when the record is stored */
+  id: string;
+
+  /** When the deployment was started (ISO 8601) */
+  created_at: string;
+
+  /** Input the committee designed for, location included */
+  input: WaterAnalysis;
+
+  /** Rule set the committee ran under */
+  rule_set_version: string;
+
+  /** Effective LIVE generation settings (absent in SIMULATION mode) */
+  agent_config?: BioAgentConfig;
+
+  response: CommitteeBioAgentResponse;
+}
+
+/**
+ * A cited work from docs/BIBLIOGRAPHY.md.
+ */
+export interface BibliographyEntry {
+  /** Lead author and year as designs cite them (e.g., "Lee et al. 2025") */
+  citation: string;
+
+  /** Research area the entry backs (e.g., "Halophilic Expression Systems") */
+  topic: string;
+
+  title: string;
+  publication: string;
+  year: number;
+
+  /** What the work defines or contributes to the rules */
+  notes: string[];
+}
+
+/**
+ * A deployment exported for hand-off: self-contained and verifiable.
+ */
+export interface DesignDossier {
+  format: 'polymer-x-dossier';
+  format_version: 1;
+
+  /** When the dossier was exported (ISO 8601) */
+  exported_at: string;
+
+  deployment: DeploymentRecord;
+
+  /** Bibliography entries the design cites */
+  references: BibliographyEntry[];
+
+  /**
+   * SHA-256 of every other field, serialized as canonical JSON (sorted keys).
+   * Detects any change to the dossier; it does not identify who exported it.
+   */
+  content_hash: {
+    algorithm: 'SHA-256';
+    value: string;
+  };
+}
+
+// =============================================================================
+// Replay (imported designs under the current rules)
+// =============================================================================
+
+/** Design field a replay compares */
+export type ReplayField =
+  | 'outcome'
+  | 'chassis_type'
+  | 'enzyme_name'
+  | 'mutation_list'
+  | 'safety_locks'
+  | 'predicted_efficiency_score'
+  | 'cocktail';
+
+export interface ReplayDifference {
+  field: ReplayField;
+
+  /** Value in the imported design */
+  stored: string;
+
+  /** Value the deterministic committee produces today */
+  current: string;
+}
+
+/**
+ * An imported design compared with a fresh deterministic committee run on
+ * the same WaterAnalysis under the current rules. Differences are rule drift
+ * to review: intended rule changes or regressions.
+ */
+export interface ReplayReport {
+  /** UNCHANGED = the current rules reproduce the stored design */
+  verdict: 'UNCHANGED' | 'DRIFTED';
+
+  differences: ReplayDifference[];
+
+  /** Rule set the stored design was made under (absent for a failed deployment) */
+  stored_rule_set_version?: string;
+
+  current_rule_set_version: string;
+
+  /** The committee run under the current rules */
+  replayed: CommitteeBioAgentResponse;
+}
+
+/**
+ * Progress of a committee debate, emitted in the order it happens.
+ */
+export type DebateEvent =
+  | { type: 'entry'; entry: MonologueEntry }                      // A monologue entry was recorded
+  | { type: 'token'; agent: AgentRole; text: string }             // LIVE only: next chunk of a model reply
+  | { type: 'complete'; response: CommitteeBioAgentResponse };    // Always last
+
+/**
+ * Rule a LIVE design was checked against by the conformance auditor.
+ */
+export type ConformanceCheck =
+  | 'chassis'           // Section 1.1 chassis selection
+  | 'mutations'         // Section 1.2 allowed mutations per polymer
+  | 'cocktail'          // Section 1.4 one component per polymer on site
+  | 'mandatory_lock'    // Section 2.1 Quorum_Sensing_Type_B
+  | 'site_lock'         // Section 2.2 site-dependent locks
+  | 'efficiency_score'; // Section 1.3 score, re-computed by the engine
+
+/**
+ * One deviation between a LIVE design and the deterministic engine.
+ */
+export interface ConformanceFinding {
+  check: ConformanceCheck;
+
+  /** HARD = breaks a LOGIC.md rule; SOFT = disagrees with the engine's estimate */
+  severity: 'HARD' | 'SOFT';
+
+  /** What the engine expected */
+  expected: string;
+
+  /** What the design contained */
+  actual: string;
+
+  /** Whether the auditor corrected the design or had to reject it */
+  resolution: 'OVERRIDDEN' | 'REJECTED';
+}
+
+/**
+ * Diff report from re-scoring a LIVE design with the deterministic engine.
+ */
+export interface ConformanceReport {
+  /** CONFORMS = no findings; OVERRIDDEN = corrected in place; REJECTED = unusable */
+  verdict: 'CONFORMS' | 'OVERRIDDEN' | 'REJECTED';
+
+  findings: ConformanceFinding[];
+
+  /** Score the model predicted */
+  model_efficiency_score: number;
+
+  /** Score the engine computes for the (corrected) design */
+  engine_efficiency_score: number;
+
+  /** model_efficiency_score - engine_efficiency_score */
+  score_deviation: number;
+
+  /** Rule set the audit ran under */
+  rule_set_version: string;
+}
+
+// =============================================================================
+// Survey Batches (CLI --input)
+// =============================================================================
+
+/**
+ * VALID = designed and passes the site's rules;
+ * SAFETY_VIOLATION = a required safety lock is missing;
+ * CHASSIS_VIOLATION = the chassis is not the one the rules select;
+ * DESIGN_FAILED = the committee produced no design;
+ * INVALID_INPUT = the sample row could not be read
+ */
+export type BatchRowStatus = 'VALID' | 'SAFETY_VIOLATION' | 'CHASSIS_VIOLATION' | 'DESIGN_FAILED' | 'INVALID_INPUT';
+
+/**
+ * One line of a batch results file
+ */
+export interface BatchResult {
+  /** Line of the sample in the input file (1-based, header included) */
+  line: number;
+
+  /** The sample's id column, when the survey has one */
+  sample_id?: string;
+
+  status: BatchRowStatus;
+
+  /** Absent when the row could not be read */
+  input?: WaterAnalysis;
+
+  design?: EnzymeDesign;
+
+  /** Why the row is not VALID */
+  issues: string[];
+
+  /** Why the committee produced no design */
+  failure?: DebateFailure;
+
+  mode?: 'LIVE' | 'SIMULATION';
+}
+
+export interface BatchSummary {
+  rows: number;
+
+  /** Rows per status */
+  statuses: Record<BatchRowStatus, number>;
+
+  /** Designs per chassis */
+  chassis_distribution: Partial<Record<ChassisType, number>>;
+
+  /** Mean predicted efficiency over the rows with a design (absent when there are none) */
+  mean_efficiency?: number;
+
+  /** Rows whose design is missing a required safety lock */
+  safety_failures: number;
+}
+
+// =============================================================================
+// Campaigns
+// =============================================================================
+
+/**
+ * A candidate site in a campaign and, once the committee has run, its deployment
+ */
+export interface CampaignSite {
+  /** Display name: a gazetteer site, a survey sample id or coordinates */
+  label: string;
+
+  input: WaterAnalysis;
+
+  /** Deployment designed for the site (also kept in the deployment history) */
+  deployment?: DeploymentRecord;
+}
+
+/**
+ * Candidate sites planned, designed and ranked together, stored as one unit
+ */
+export interface CampaignRecord {
+  id: string;
+  name: string;
+
+  /** When the campaign was created and last saved (ISO 8601) */
+  created_at: string;
+  updated_at: string;
+
+  /** Sites the budget covers; the best-ranked ones are selected (absent: no limit) */
+  budget?: number;
+
+  sites: CampaignSite[];
+}
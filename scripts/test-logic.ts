@@ -10,67 +10,397 @@
  * Usage:
  *   npx ts-node scripts/test-logic.ts --salinity=38 --plastic=PET
  *   npx ts-node scripts/test-logic.ts --salinity=25 --plastic=HDPE --stress
+ *   npx ts-node scripts/test-logic.ts --salinity=20 --temp=4 --ph=7.9 --toxins=lead_ug_l:15
+ *   npx ts-node scripts/test-logic.ts --salinity=36 --composition=PET:60,PP:30,PS:10
+ *   npx ts-node scripts/test-logic.ts --rules=./my-rules.json
+ *   npx ts-node scripts/test-logic.ts --lat=51.45 --lng=0.75 --no-snap
+ *   npx ts-node scripts/test-logic.ts --live --model=gemini-1.5-pro --temperature=0 --max-tokens=2048
+ *   npx ts-node scripts/test-logic.ts --salinity=38 --dossier=design.json --report=design.html
+ *   npx ts-node scripts/test-logic.ts --import=design.json
+ *   npx ts-node scripts/test-logic.ts --input=samples.csv --concurrency=8
  * 
  * Environment:
- *   GEMINI_API_KEY - Your Gemini API key (required for real API calls)
+ *   GEMINI_API_KEY - Your Gemini API key (required for --provider=gemini)
+ *   OPENAI_API_KEY - Bearer token for --provider=openai-compatible (optional for local servers)
  *   MOCK_MODE=true - Use hardcoded mock responses instead of API calls
  */
 
-import type { WaterAnalysis, EnzymeDesign, BioAgentResponse, ChassisType, SafetyLockType } from '../docs/INTERFACES.js';
+import { randomUUID } from 'node:crypto';
+import { readFileSync, writeFileSync } from 'node:fs';
+import {
+    DEFAULT_BATCH_CONCURRENCY,
+    DEFAULT_GEMINI_MODEL,
+    DEFAULT_MAX_DEBATE_ROUNDS,
+    DEFAULT_MAX_DESIGN_ATTEMPTS,
+    DEFAULT_MAX_TOKENS,
+    DEFAULT_OPENAI_COMPATIBLE_BASE_URL,
+    DEFAULT_PHASE_TIMEOUT_MS,
+    DEFAULT_RULE_SET,
+    DEFAULT_TEMPERATURE,
+    FixtureProvider,
+    GeminiProvider,
+    MANDATORY_SAFETY_LOCK,
+    MAX_TOKENS_LIMIT,
+    MEASUREMENT_RANGES,
+    OpenAICompatibleProvider,
+    PLASTIC_TYPES,
+    RuleSetValidationError,
+    FAILURE_LABELS,
+    DossierValidationError,
+    EnzymeDesignValidationError,
+    auditDesign,
+    checkDesignAgainstRules,
+    describeDeploymentTarget,
+    describeLocation,
+    createDossier,
+    failureFromConformance,
+    failureFromDebate,
+    failureFromError,
+    TOXIN_KEYS,
+    TOXIN_RANGES,
+    determineChassisType,
+    dominantPlasticType,
+    findMissingSafetyLocks,
+    getRuleSet,
+    isPlasticType,
+    lookupClimatology,
+    parseBibliography,
+    parseSurveyCsv,
+    parseSurveyJsonl,
+    parseImportedDesign,
+    parseProviderFixture,
+    parseRuleSet,
+    renderDossierHtml,
+    replayDesign,
+    runBatch,
+    summarizeBatch,
+    requiredSafetyLocks,
+    resolveBioAgentConfig,
+    resolveDeploymentTarget,
+    verifyDossier,
+    validateBioAgentConfig,
+    validateComposition,
+    runDeterministicCommittee,
+    runLiveCommittee,
+    type BatchResult,
+    type BatchRowStatus,
+    type BatchSummary,
+    type BioAgentConfig,
+    type CommitteeBioAgentResponse,
+    type ConformanceReport,
+    type DebateFailure,
+    type DeploymentRecord,
+    type DossierVerification,
+    type EnzymeDesign,
+    type ImportedDesign,
+    type LLMProvider,
+    type MonologueEntry,
+    type PlasticComposition,
+    type PlasticType,
+    type ReplayReport,
+    type RuleSet,
+    type SiteContext,
+    type SurveySample,
+    type ToxinPanel,
+    type WaterAnalysis,
+} from '../core/index.js';
+
+// =============================================================================
+// Output and Exit Codes
+// =============================================================================
+
+/** Process exit codes, so scripts can gate on the outcome */
+const EXIT_CODES = {
+    OK: 0,
+    /** Unexpected error */
+    ERROR: 1,
+    /** Invalid arguments, or an input file that could not be read */
+    USAGE: 2,
+    /** The committee produced no design (provider, parse or validation failure, cancellation) */
+    DESIGN_FAILED: 3,
+    /** A design is missing a required safety lock */
+    SAFETY_VIOLATION: 4,
+    /** A design uses a chassis the rules do not select */
+    CHASSIS_VIOLATION: 5,
+    /** --import: the current rules no longer reproduce the design */
+    REPLAY_DRIFT: 6,
+    /** --import: the dossier's content hash does not match */
+    DOSSIER_MODIFIED: 7,
+} as const;
+
+/** Exit code per design status; in a batch the first status present in this order wins */
+const STATUS_EXIT_CODES: [BatchRowStatus, number][] = [
+    ['SAFETY_VIOLATION', EXIT_CODES.SAFETY_VIOLATION],
+    ['CHASSIS_VIOLATION', EXIT_CODES.CHASSIS_VIOLATION],
+    ['DESIGN_FAILED', EXIT_CODES.DESIGN_FAILED],
+    ['INVALID_INPUT', EXIT_CODES.USAGE],
+];
+
+const OUTPUT_FORMATS = ['text', 'json', 'ndjson', 'table'] as const;
+type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+/**
+ * Human-readable progress and reports. Silenced by --quiet and by the
+ * machine formats, which own stdout; errors always go to stderr.
+ */
+let log: (...lines: unknown[]) => void = console.log;
+
+function emit(text: string): void {
+    process.stdout.write(text.endsWith('\n') ? text : text + '\n');
+}
+
+/**
+ * Left-aligned columns separated by two spaces
+ */
+function formatTable(headers: string[], rows: string[][]): string {
+    const widths = headers.map((header, i) => Math.max(header.length, ...rows.map(row => (row[i] ?? '').length)));
+    return [headers, ...rows]
+        .map(row => row.map((cell, i) => i === row.length - 1 ? cell : cell.padEnd(widths[i])).join('  '))
+        .join('\n');
+}
+
+function exitCodeFor(statuses: Iterable<BatchRowStatus>): number {
+    const present = new Set(statuses);
+    return STATUS_EXIT_CODES.find(([status]) => present.has(status))?.[1] ?? EXIT_CODES.OK;
+}
 
 // =============================================================================
 // CLI Argument Parsing
 // =============================================================================
 
+// Salinity when neither --salinity nor --auto-env gives one
+const DEFAULT_SALINITY = 35;
+
+/** Accepted values of the run-control flags: [min, max] */
+const CONTROL_RANGES = {
+    maxAttempts: [1, 10],
+    maxRounds: [1, 10],
+    phaseTimeoutSeconds: [1, 3600],
+    concurrency: [1, 64],
+} as const;
+
 interface CLIArgs {
-    salinity: number;
-    plastic: WaterAnalysis['plastic_type'];
+    salinity?: number;
+    plastic: PlasticType;
+    composition?: PlasticComposition;
     stress: boolean;
+    temperature?: number;
+    ph?: number;
+    depth?: number;
+    dissolvedOxygen?: number;
+    toxins?: ToxinPanel;
+    siteContext: SiteContext;
     lat: number;
     lng: number;
+    snapToWater: boolean;
+    autoEnv: boolean;
     mock: boolean;
+    provider: ProviderKind;
+    model?: string;
+    generationTemperature?: number;
+    maxTokens?: number;
+    baseUrl?: string;
+    fixture: string;
+    maxAttempts: number;
+    maxRounds: number;
+    phaseTimeoutMs: number;
+    rules?: string;
+    dossier?: string;
+    report?: string;
+    importPath?: string;
+    inputPath?: string;
+    outputPath?: string;
+    concurrency: number;
+    format: OutputFormat;
+    quiet: boolean;
 }
 
 function parseArgs(): CLIArgs {
     const args = process.argv.slice(2);
     const parsed: CLIArgs = {
-        salinity: 35,
         plastic: 'PET',
         stress: false,
-        lat: 37.7749,
-        lng: -122.4194,
+        siteContext: {},
+        // Open water off San Francisco (the city itself is inside the bay estuary)
+        lat: 37.5,
+        lng: -123.5,
+        snapToWater: true,
+        autoEnv: false,
         mock: true, // Default to mock mode for zero-cost operation
+        provider: 'gemini',
+        fixture: DEFAULT_FIXTURE,
+        maxAttempts: DEFAULT_MAX_DESIGN_ATTEMPTS,
+        maxRounds: DEFAULT_MAX_DEBATE_ROUNDS,
+        phaseTimeoutMs: DEFAULT_PHASE_TIMEOUT_MS,
+        concurrency: DEFAULT_BATCH_CONCURRENCY,
+        format: 'text',
+        quiet: false,
     };
 
     for (const arg of args) {
         if (arg.startsWith('--salinity=')) {
-            parsed.salinity = parseFloat(arg.split('=')[1]);
+            parsed.salinity = parseNumberFlag(arg, ...MEASUREMENT_RANGES.salinity);
         } else if (arg.startsWith('--plastic=')) {
-            const plastic = arg.split('=')[1].toUpperCase() as WaterAnalysis['plastic_type'];
-            if (['PET', 'HDPE', 'PVC', 'LDPE', 'PP', 'PS'].includes(plastic)) {
+            const plastic = arg.split('=')[1].toUpperCase();
+            if (isPlasticType(plastic)) {
                 parsed.plastic = plastic;
             } else {
                 console.error(`❌ Invalid plastic type: ${plastic}`);
-                console.error('   Valid types: PET, HDPE, PVC, LDPE, PP, PS');
-                process.exit(1);
+                console.error(`   Valid types: ${PLASTIC_TYPES.join(', ')}`);
+                process.exit(EXIT_CODES.USAGE);
             }
+        } else if (arg.startsWith('--composition=')) {
+            parsed.composition = parseComposition(arg.split('=')[1]);
         } else if (arg === '--stress') {
             parsed.stress = true;
+        } else if (arg.startsWith('--temp=')) {
+            parsed.temperature = parseNumberFlag(arg, ...MEASUREMENT_RANGES.temperature_c);
+        } else if (arg.startsWith('--ph=')) {
+            parsed.ph = parseNumberFlag(arg, ...MEASUREMENT_RANGES.ph);
+        } else if (arg.startsWith('--depth=')) {
+            parsed.depth = parseNumberFlag(arg, ...MEASUREMENT_RANGES.depth_m);
+        } else if (arg.startsWith('--do=')) {
+            parsed.dissolvedOxygen = parseNumberFlag(arg, ...MEASUREMENT_RANGES.dissolved_oxygen_mg_l);
+        } else if (arg.startsWith('--toxins=')) {
+            parsed.toxins = parseToxins(arg.split('=')[1]);
+        } else if (arg === '--urban') {
+            parsed.siteContext.near_urban_water_supply = true;
+        } else if (arg === '--temp-extremes') {
+            parsed.siteContext.temperature_extremes = true;
+        } else if (arg === '--coastal') {
+            parsed.siteContext.coastal_zone = true;
         } else if (arg.startsWith('--lat=')) {
-            parsed.lat = parseFloat(arg.split('=')[1]);
+            parsed.lat = parseNumberFlag(arg, -90, 90);
         } else if (arg.startsWith('--lng=')) {
-            parsed.lng = parseFloat(arg.split('=')[1]);
+            parsed.lng = parseNumberFlag(arg, -180, 180);
+        } else if (arg === '--no-snap') {
+            parsed.snapToWater = false;
+        } else if (arg === '--auto-env') {
+            parsed.autoEnv = true;
+        } else if (arg.startsWith('--rules=')) {
+            parsed.rules = arg.split('=')[1];
+        } else if (arg.startsWith('--max-attempts=')) {
+            parsed.maxAttempts = parseNumberFlag(arg, ...CONTROL_RANGES.maxAttempts, true);
+        } else if (arg.startsWith('--max-rounds=')) {
+            parsed.maxRounds = parseNumberFlag(arg, ...CONTROL_RANGES.maxRounds, true);
+        } else if (arg.startsWith('--phase-timeout=')) {
+            parsed.phaseTimeoutMs = parseNumberFlag(arg, ...CONTROL_RANGES.phaseTimeoutSeconds) * 1000;
         } else if (arg === '--live') {
             parsed.mock = false;
+        } else if (arg.startsWith('--provider=')) {
+            const provider = arg.split('=')[1] === 'openai' ? 'openai-compatible' : arg.split('=')[1];
+            if (!(PROVIDER_KINDS as readonly string[]).includes(provider)) {
+                console.error(`❌ Invalid provider: ${provider}`);
+                console.error(`   Valid providers: ${PROVIDER_KINDS.join(', ')}`);
+                process.exit(EXIT_CODES.USAGE);
+            }
+            parsed.provider = provider as ProviderKind;
+            parsed.mock = false;
+        } else if (arg.startsWith('--model=')) {
+            parsed.model = arg.split('=')[1];
+        } else if (arg.startsWith('--temperature=')) {
+            parsed.generationTemperature = parseNumberFlag(arg, 0, 1);
+        } else if (arg.startsWith('--max-tokens=')) {
+            parsed.maxTokens = parseNumberFlag(arg, 1, MAX_TOKENS_LIMIT, true);
+        } else if (arg.startsWith('--base-url=')) {
+            parsed.baseUrl = arg.slice('--base-url='.length);
+        } else if (arg.startsWith('--fixture=')) {
+            parsed.fixture = arg.split('=')[1];
+        } else if (arg.startsWith('--dossier=')) {
+            parsed.dossier = arg.slice('--dossier='.length);
+        } else if (arg.startsWith('--report=')) {
+            parsed.report = arg.slice('--report='.length);
+        } else if (arg.startsWith('--import=')) {
+            parsed.importPath = arg.slice('--import='.length);
+        } else if (arg.startsWith('--input=')) {
+            parsed.inputPath = arg.slice('--input='.length);
+        } else if (arg.startsWith('--output=')) {
+            parsed.outputPath = arg.slice('--output='.length);
+        } else if (arg.startsWith('--format=')) {
+            const format = arg.split('=')[1];
+            if (!(OUTPUT_FORMATS as readonly string[]).includes(format)) {
+                console.error(`❌ Invalid format: ${format}`);
+                console.error(`   Valid formats: ${OUTPUT_FORMATS.join(', ')}`);
+                process.exit(EXIT_CODES.USAGE);
+            }
+            parsed.format = format as OutputFormat;
+        } else if (arg === '--quiet' || arg === '-q') {
+            parsed.quiet = true;
+        } else if (arg.startsWith('--concurrency=')) {
+            parsed.concurrency = parseNumberFlag(arg, ...CONTROL_RANGES.concurrency, true);
         } else if (arg === '--help' || arg === '-h') {
             printHelp();
             process.exit(0);
         }
     }
 
+    const configIssues = validateBioAgentConfig({
+        model: parsed.model,
+        temperature: parsed.generationTemperature,
+        max_tokens: parsed.maxTokens,
+    });
+    if (configIssues.length > 0) {
+        console.error('❌ Invalid generation settings:');
+        configIssues.forEach(issue => console.error(`   - ${issue}`));
+        process.exit(EXIT_CODES.USAGE);
+    }
+
     return parsed;
 }
 
+/**
+ * Reads the number after a flag's "=", exiting with a usage error unless it
+ * is a finite number (an integer when `integer` is set) in [min, max]
+ */
+function parseNumberFlag(arg: string, min: number, max: number, integer = false): number {
+    const [flag, text = ''] = arg.split('=');
+    const value = text.trim() === '' ? NaN : Number(text);
+    if (!Number.isFinite(value) || value < min || value > max || (integer && !Number.isInteger(value))) {
+        console.error(`❌ Invalid ${flag}: ${text}`);
+        console.error(`   Expected ${integer ? 'an integer' : 'a number'} in [${min}, ${max}]`);
+        process.exit(EXIT_CODES.USAGE);
+    }
+    return value;
+}
+
+/**
+ * Parses a polymer mix such as "PET:60,PP:30,PS:10" (shares in percent)
+ */
+function parseComposition(spec: string): PlasticComposition {
+    const composition: Record<string, number> = {};
+    for (const pair of spec.split(',').filter(Boolean)) {
+        const [plastic, share] = pair.split(':');
+        composition[plastic.toUpperCase()] = parseFloat(share);
+    }
+    const issues = validateComposition(composition);
+    if (issues.length > 0) {
+        console.error(`❌ Invalid composition: ${spec}`);
+        issues.forEach(issue => console.error(`   - ${issue}`));
+        console.error(`   Expected <type>:<percent>,… with types: ${PLASTIC_TYPES.join(', ')}`);
+        process.exit(EXIT_CODES.USAGE);
+    }
+    return composition as PlasticComposition;
+}
+
+/**
+ * Parses a toxin panel such as "lead_ug_l:12,mercury_ug_l:0.4"
+ */
+function parseToxins(spec: string): ToxinPanel {
+    const panel: ToxinPanel = {};
+    for (const pair of spec.split(',').filter(Boolean)) {
+        const [key, value] = pair.split(':');
+        const amount = value === undefined || value.trim() === '' ? NaN : Number(value);
+        const range = TOXIN_RANGES[key as keyof ToxinPanel];
+        if (!range || !Number.isFinite(amount) || amount < range[0] || amount > range[1]) {
+            console.error(`❌ Invalid toxin reading: ${pair}`);
+            console.error(`   Expected <key>:<value> with key one of: ${TOXIN_KEYS.join(', ')}, value 0 to ${TOXIN_RANGES.lead_ug_l[1]}`);
+            process.exit(EXIT_CODES.USAGE);
+        }
+        panel[key as keyof ToxinPanel] = amount;
+    }
+    return panel;
+}
+
 function printHelp(): void {
     console.log(`
 ╔══════════════════════════════════════════════════════════════════════════════╗
@@ -82,14 +412,64 @@ USAGE:
   npx ts-node scripts/test-logic.ts [OPTIONS]
 
 OPTIONS:
-  --salinity=<number>    Water salinity in ppt (default: 35)
+  --salinity=<number>    Water salinity in ppt, 0 to 350 (default: ${DEFAULT_SALINITY})
   --plastic=<type>       Plastic type: PET, HDPE, PVC, LDPE, PP, PS (default: PET)
-  --stress               Enable stress signal flag
-  --lat=<number>         Latitude coordinate (default: 37.7749)
-  --lng=<number>         Longitude coordinate (default: -122.4194)
-  --live                 Use live Gemini API (requires GEMINI_API_KEY)
+  --composition=<mix>    Mixed site, e.g. PET:60,PP:30,PS:10 (overrides --plastic)
+  --stress               Enable reported stress signal flag
+  --temp=<number>        Measured water temperature in °C (-5 to 100)
+  --ph=<number>          Measured pH (0 to 14)
+  --depth=<number>       Sampling depth in m (0 to 11000)
+  --do=<number>          Dissolved oxygen in mg/L (0 to 20)
+  --toxins=<key:value,…> Toxin panel, keys: ${TOXIN_KEYS.join(', ')}
+  --urban                Site is near an urban water supply (+ Auxotrophic)
+  --temp-extremes        Temperature extremes expected (+ Temperature_Sensitive)
+  --coastal              Coastal/tidal zone (+ Light_Activated)
+  --lat=<number>         Latitude, -90 to 90 (default: 37.5)
+  --lng=<number>         Longitude, -180 to 180 (default: -123.5)
+  --no-snap              Refuse a target on land instead of moving it to the nearest water
+  --auto-env             Salinity and temperature from the bundled surface climatology
+                         at the target, unless --salinity / --temp are given
+  --rules=<version|path> Rule set: a bundled version or a JSON file (default: ${DEFAULT_RULE_SET.version})
+  --live                 Use a live model (provider: gemini unless --provider is given)
+  --provider=<name>      LIVE provider: gemini (GEMINI_API_KEY), openai-compatible
+                         (alias openai; OPENAI_API_KEY optional), fixture (offline playback)
+  --model=<id>           Model override (default: ${DEFAULT_GEMINI_MODEL} for gemini)
+  --temperature=<0-1>    LIVE sampling temperature (default: ${DEFAULT_TEMPERATURE})
+  --max-tokens=<n>       LIVE reply token limit, up to ${MAX_TOKENS_LIMIT} (default: ${DEFAULT_MAX_TOKENS})
+  --base-url=<url>       OpenAI-compatible base URL (default: ${DEFAULT_OPENAI_COMPATIBLE_BASE_URL})
+  --fixture=<path>       Recorded replies for --provider=fixture (default: ${DEFAULT_FIXTURE})
+  --max-attempts=<n>     LIVE replies allowed per role call, incl. repairs, 1-10 (default: ${DEFAULT_MAX_DESIGN_ATTEMPTS})
+  --max-rounds=<n>       Architect proposals the Safety Officer may review, 1-10 (default: ${DEFAULT_MAX_DEBATE_ROUNDS})
+  --phase-timeout=<s>    LIVE time limit per committee phase in seconds, 1-3600 (default: ${DEFAULT_PHASE_TIMEOUT_MS / 1000})
+  --dossier=<path>       Write the run as a hashed JSON design dossier
+  --report=<path>        Write the dossier's printable HTML report
+  --import=<path>        Replay an exported dossier, or a plain EnzymeDesign on the
+                         input given by the flags above, through the current rules
+                         (--rules) and report any drift; exits ${EXIT_CODES.REPLAY_DRIFT} on drift,
+                         ${EXIT_CODES.DOSSIER_MODIFIED} on a modified dossier
+  --input=<path>         Batch mode: design every sample of a .csv or .jsonl survey
+                         (columns: lat, lng, salinity, plastic or composition,
+                         stress, temp, ph, depth, do, toxin keys, coastal, urban,
+                         temp-extremes, id); the water body comes from lat/lng and
+                         rows on land are invalid
+  --output=<path>        Batch results, one JSON line per sample
+                         (default: <input>.results.jsonl)
+  --concurrency=<n>      Samples designed at the same time, 1-64 (default: ${DEFAULT_BATCH_CONCURRENCY})
+  --format=<name>        Output: text (default, human-readable), json (one document),
+                         ndjson (one object per line, per sample in batch mode),
+                         table (aligned columns)
+  --quiet, -q            No progress or reports; json/ndjson/table output still prints
   --help, -h             Show this help message
 
+  Press Ctrl+C during a run to cancel the debate.
+
+EXIT CODES:
+  ${EXIT_CODES.OK}  Design(s) valid              ${EXIT_CODES.SAFETY_VIOLATION}  Missing required safety lock
+  ${EXIT_CODES.ERROR}  Unexpected error             ${EXIT_CODES.CHASSIS_VIOLATION}  Chassis not the one the rules select
+  ${EXIT_CODES.USAGE}  Invalid arguments or input   ${EXIT_CODES.REPLAY_DRIFT}  --import: design drifted under current rules
+  ${EXIT_CODES.DESIGN_FAILED}  No design produced           ${EXIT_CODES.DOSSIER_MODIFIED}  --import: dossier modified after export
+  In batch mode the most severe row decides: 4, then 5, then 3, then 2.
+
 EXAMPLES:
   # High salinity marine environment with PET contamination
   npx ts-node scripts/test-logic.ts --salinity=38 --plastic=PET
@@ -97,379 +477,365 @@ EXAMPLES:
   # Freshwater with HDPE under stress conditions
   npx ts-node scripts/test-logic.ts --salinity=5 --plastic=HDPE --stress
 
+  # Cold brackish water with a lead reading above the limit
+  npx ts-node scripts/test-logic.ts --salinity=20 --temp=4 --ph=7.9 --toxins=lead_ug_l:15
+
+  # Mixed site: multi-enzyme cocktail with per-polymer breakdown
+  npx ts-node scripts/test-logic.ts --salinity=36 --composition=PET:60,PP:30,PS:10
+
+  # Replay under a bundled rule set, or try out an edited rule file
+  npx ts-node scripts/test-logic.ts --salinity=38 --plastic=PET --rules=1.0.0
+  npx ts-node scripts/test-logic.ts --salinity=38 --plastic=PET --rules=./draft-rules.json
+
   # Use live Gemini API
   GEMINI_API_KEY=xxx npx ts-node scripts/test-logic.ts --salinity=40 --plastic=PVC --live
+
+  # Pin the generation settings of a LIVE run
+  GEMINI_API_KEY=xxx npx ts-node scripts/test-logic.ts --live --model=gemini-1.5-pro --temperature=0 --max-tokens=2048
+
+  # Use a local llama.cpp / Ollama server
+  npx ts-node scripts/test-logic.ts --provider=openai --base-url=http://localhost:8080/v1 --model=qwen2.5-7b
+
+  # Exercise the LIVE path offline with recorded replies
+  npx ts-node scripts/test-logic.ts --salinity=38 --plastic=PET --coastal --provider=fixture
+
+  # Export the design for a wet-lab partner (open the HTML and print to PDF)
+  npx ts-node scripts/test-logic.ts --salinity=38 --plastic=PET --dossier=design.json --report=design.html
+
+  # Check that an exported design still holds under a draft rule file
+  npx ts-node scripts/test-logic.ts --import=design.json --rules=./draft-rules.json
+
+  # Design a whole field survey (composition cells as PET:60;PP:40)
+  npx ts-node scripts/test-logic.ts --input=survey.csv --output=survey.results.jsonl --concurrency=8
+
+  # Let the climatology fill in salinity and temperature for a Baltic site
+  npx ts-node scripts/test-logic.ts --lat=58 --lng=19 --auto-env --plastic=LDPE
+
+  # Gate a script on the design, or pipe it into jq
+  npx ts-node scripts/test-logic.ts --salinity=38 --coastal --quiet || echo "rejected: $?"
+  npx ts-node scripts/test-logic.ts --salinity=38 --format=json | jq .response.data.chassis_type
 `);
 }
 
 // =============================================================================
-// Committee Mode: Sub-Agent Definitions
+// Committee Mode: Mock Gemini Service (Wizard of Oz Pattern)
 // =============================================================================
 
 /**
- * Organism chassis mapping based on plastic type (expanded for Architect sub-agent)
+ * Mock Gemini Service with Committee Mode
+ * Runs the shared deterministic committee (core/committee.ts) and returns
+ * the debate between the 3 sub-agents as internal monologue
  */
-const ORGANISM_CHASSIS: Record<WaterAnalysis['plastic_type'], { organism: string; description: string }> = {
-    PET: { organism: 'Ideonella sakaiensis', description: 'Native PETase producer, optimal for PET degradation' },
-    HDPE: { organism: 'Pseudomonas putida', description: 'Robust chassis for hydrocarbon degradation pathways' },
-    PVC: { organism: 'Sphingomonas sp.', description: 'Known for chlorinated compound metabolism' },
-    LDPE: { organism: 'Rhodococcus ruber', description: 'Alkane-degrading actinobacterium' },
-    PP: { organism: 'Aspergillus tubingensis', description: 'Fungal chassis with strong cutinase expression' },
-    PS: { organism: 'Exiguobacterium sp.', description: 'Psychrotolerant styrene degrader' },
-};
+class MockGeminiService {
+    private ruleSet: RuleSet;
+    private phaseDelayMs: number;
 
-/**
- * Enzyme configurations based on docs/LOGIC.md Section 1.2
- */
-const ENZYME_CONFIG: Record<WaterAnalysis['plastic_type'], { base: string; mutations: string[] }> = {
-    PET: { base: 'PETase', mutations: ['S238F', 'W159H', 'S280A'] },
-    HDPE: { base: 'LacCase-HD', mutations: ['T241M', 'G352V'] },
-    PVC: { base: 'HaloHyd-VC', mutations: ['C127S', 'L89F'] },
-    LDPE: { base: 'AlkB-LDPE', mutations: ['W55L', 'F181Y'] },
-    PP: { base: 'CutinasePP', mutations: ['L117F', 'S141G'] },
-    PS: { base: 'StyreneOx', mutations: ['M108L', 'H223Y'] },
-};
+    constructor(ruleSet: RuleSet, phaseDelayMs = 200) {
+        this.ruleSet = ruleSet;
+        this.phaseDelayMs = phaseDelayMs;
+    }
 
-/**
- * Internal monologue entry from a sub-agent
- */
-interface MonologueEntry {
-    agent: 'ARCHITECT' | 'SAFETY_OFFICER' | 'SIMULATOR';
-    timestamp: string;
-    thought: string;
-    decision?: string;
-    rejected?: boolean;
-    retry_reason?: string;
+    async generateEnzymeDesign(input: WaterAnalysis, signal?: AbortSignal): Promise<CommitteeBioAgentResponse> {
+        return runDeterministicCommittee(input, { phaseDelayMs: this.phaseDelayMs, ruleSet: this.ruleSet, signal });
+    }
 }
 
-/**
- * Extended response with internal monologue for debugging
- */
-interface CommitteeBioAgentResponse extends BioAgentResponse {
-    internal_monologue: MonologueEntry[];
-}
+// =============================================================================
+// LIVE Provider Selection
+// =============================================================================
+
+const PROVIDER_KINDS = ['gemini', 'openai-compatible', 'fixture'] as const;
+type ProviderKind = typeof PROVIDER_KINDS[number];
+
+const DEFAULT_FIXTURE = 'scripts/fixtures/live-pet-coastal.json';
 
 /**
- * Determines chassis type based on docs/LOGIC.md Section 1.1
+ * Returns the provider for each debate. Network providers are shared; fixture
+ * playback starts over for every debate, so each batch row replays the whole
+ * recording.
  */
-function determineChassisType(salinity: number, stress: boolean): ChassisType {
-    if (salinity > 35) {
-        return 'Halophilic'; // Lee et al. 2025
-    }
-    if (stress) {
-        return 'Thermophilic'; // Enhanced stress resistance
+function createProviderFactory(args: CLIArgs): () => LLMProvider {
+    switch (args.provider) {
+        case 'gemini': {
+            const apiKey = process.env.GEMINI_API_KEY;
+            if (!apiKey) {
+                console.error('❌ ERROR: GEMINI_API_KEY environment variable not set');
+                console.error('   Set it with: export GEMINI_API_KEY=your_key_here');
+                console.error('   Or use --provider=fixture to replay recorded replies offline');
+                process.exit(EXIT_CODES.USAGE);
+            }
+            const provider = new GeminiProvider({ apiKey, model: args.model });
+            return () => provider;
+        }
+        case 'openai-compatible': {
+            if (!args.model) {
+                console.error('❌ ERROR: --model is required for the openai-compatible provider');
+                process.exit(EXIT_CODES.USAGE);
+            }
+            const provider = new OpenAICompatibleProvider({
+                baseUrl: args.baseUrl,
+                model: args.model,
+                apiKey: process.env.OPENAI_API_KEY,
+            });
+            return () => provider;
+        }
+        case 'fixture':
+            try {
+                const fixture = parseProviderFixture(JSON.parse(readFileSync(args.fixture, 'utf-8')));
+                return () => new FixtureProvider(fixture);
+            } catch (error) {
+                console.error(`❌ Could not load fixture "${args.fixture}": ${error instanceof Error ? error.message : error}`);
+                process.exit(EXIT_CODES.USAGE);
+            }
     }
-    return 'Mesophilic'; // Standard conditions
 }
 
+// =============================================================================
+// Rule Set Loading
+// =============================================================================
+
 /**
- * Calculates efficiency score based on docs/LOGIC.md Section 1.3
+ * Resolves --rules to a bundled version or a rule file on disk.
+ * Rule files are validated against the schema before use.
  */
-function calculateEfficiencyScore(
-    salinity: number,
-    stress: boolean,
-    chassis: ChassisType,
-    mutationCount: number
-): number {
-    let score = 0.60; // Base score
-
-    // Chassis matches optimal salinity range
-    if ((salinity > 35 && chassis === 'Halophilic') ||
-        (salinity <= 35 && chassis !== 'Halophilic')) {
-        score += 0.15;
+function loadRuleSet(spec: string | undefined): RuleSet {
+    if (!spec) {
+        return DEFAULT_RULE_SET;
     }
 
-    // Favorable conditions bonus
-    if (!stress) {
-        score += 0.10;
+    const bundled = getRuleSet(spec);
+    if (bundled) {
+        return bundled;
     }
 
-    // Stress penalty for Mesophilic
-    if (stress && chassis === 'Mesophilic') {
-        score -= 0.10;
+    try {
+        return parseRuleSet(JSON.parse(readFileSync(spec, 'utf-8')));
+    } catch (error) {
+        if (error instanceof RuleSetValidationError) {
+            console.error(`❌ Rule file ${spec} failed schema validation:`);
+            error.issues.forEach(issue => console.error(`   - ${issue}`));
+        } else {
+            console.error(`❌ Could not load rule set "${spec}": ${error instanceof Error ? error.message : error}`);
+        }
+        process.exit(EXIT_CODES.USAGE);
     }
-
-    // Mutation bonus (max 3 counted)
-    score += Math.min(mutationCount, 3) * 0.05;
-
-    // Cap at 0.95
-    return Math.min(0.95, Math.round(score * 100) / 100);
 }
 
 // =============================================================================
-// Committee Mode: Sub-Agent A - The Architect
+// Dossier Export
 // =============================================================================
 
-interface ArchitectProposal {
-    organism: string;
-    organism_description: string;
-    chassis_type: ChassisType;
-    enzyme_name: string;
-    mutation_list: string[];
-    rationale: string;
-    safety_lock_type?: SafetyLockType; // May be missing initially
-}
-
-function runArchitect(input: WaterAnalysis): { proposal: ArchitectProposal; monologue: MonologueEntry } {
-    const organism = ORGANISM_CHASSIS[input.plastic_type];
-    const enzymeConfig = ENZYME_CONFIG[input.plastic_type];
-    const chassis = determineChassisType(input.salinity, input.stress_signal_bool);
-
-    const chassisSuffix = chassis === 'Halophilic' ? '-Halo' :
-        chassis === 'Thermophilic' ? '-Thermo' : '';
-
-    const proposal: ArchitectProposal = {
-        organism: organism.organism,
-        organism_description: organism.description,
-        chassis_type: chassis,
-        enzyme_name: `${enzymeConfig.base}-v4.2${chassisSuffix}`,
-        mutation_list: enzymeConfig.mutations,
-        rationale: `Selected ${organism.organism} as chassis organism (${organism.description}). ` +
-            `Environmental analysis: salinity=${input.salinity}ppt, stress=${input.stress_signal_bool}. ` +
-            `Applying ${chassis} expression system.`,
-        // NOTE: Architect might "forget" to add safety lock (intentionally for demo)
-        // In a real scenario, this would be randomized or based on complexity
-    };
+const BIBLIOGRAPHY_PATH = new URL('../docs/BIBLIOGRAPHY.md', import.meta.url);
 
-    const monologue: MonologueEntry = {
-        agent: 'ARCHITECT',
-        timestamp: new Date().toISOString(),
-        thought: `Analyzing water sample at (${input.lat}, ${input.lng}). ` +
-            `Detected ${input.plastic_type} contamination. Salinity: ${input.salinity}ppt. ` +
-            `Stress signals: ${input.stress_signal_bool ? 'PRESENT' : 'absent'}.`,
-        decision: `Proposing ${organism.organism} chassis with ${enzymeConfig.base} enzyme. ` +
-            `Expression system: ${chassis}. Mutations: ${enzymeConfig.mutations.join(', ')}.`,
-    };
+/**
+ * Writes the run as a design dossier (--dossier) and/or its printable report (--report)
+ */
+async function exportDossier(args: CLIArgs, record: DeploymentRecord): Promise<void> {
+    if (!args.dossier && !args.report) {
+        return;
+    }
 
-    return { proposal, monologue };
+    const dossier = await createDossier(record, parseBibliography(readFileSync(BIBLIOGRAPHY_PATH, 'utf-8')));
+    log('');
+    log(`📦 DESIGN DOSSIER (${dossier.content_hash.algorithm} ${dossier.content_hash.value}):`);
+    if (args.dossier) {
+        writeFileSync(args.dossier, JSON.stringify(dossier, null, 2) + '\n');
+        log(`   Bundle → ${args.dossier}`);
+    }
+    if (args.report) {
+        writeFileSync(args.report, renderDossierHtml(dossier));
+        log(`   Report → ${args.report} (open in a browser and print to PDF)`);
+    }
 }
 
 // =============================================================================
-// Committee Mode: Sub-Agent B - The Safety Officer
+// Import and Replay
 // =============================================================================
 
-interface SafetyReview {
-    approved: boolean;
-    required_lock: SafetyLockType;
-    additional_locks: SafetyLockType[];
-    rejection_reason?: string;
-    corrected_proposal?: ArchitectProposal;
-}
-
-function runSafetyOfficer(
-    proposal: ArchitectProposal,
-    input: WaterAnalysis
-): { review: SafetyReview; monologue: MonologueEntry } {
-
-    // Check if safety lock is present (Zhang et al. 2025 MANDATORY requirement)
-    const hasSafetyLock = proposal.safety_lock_type === 'Quorum_Sensing_Type_B';
-
-    // Determine additional safety measures based on environment
-    const additionalLocks: SafetyLockType[] = [];
-    if (input.lat > 40 || input.lat < -40) {
-        additionalLocks.push('Temperature_Sensitive');
+function printReplayReport(report: ReplayReport): void {
+    const icon = report.verdict === 'UNCHANGED' ? '✅' : '⚠️';
+    const designedUnder = report.stored_rule_set_version ? ` (designed under v${report.stored_rule_set_version})` : '';
+    log('');
+    log(`🔁 REPLAY under rule set v${report.current_rule_set_version}${designedUnder}: ${icon} ${report.verdict}`);
+    for (const difference of report.differences) {
+        log(`   ❌ ${difference.field}: stored ${difference.stored} → current ${difference.current}`);
     }
-    if (input.salinity > 35) {
-        additionalLocks.push('Auxotrophic');
+    if (report.differences.length === 0) {
+        log('   ✅ The current rules reproduce the stored design');
     }
+}
 
-    let review: SafetyReview;
-    let monologue: MonologueEntry;
-
-    if (!hasSafetyLock) {
-        // REJECT and force retry with corrected proposal
-        const correctedProposal: ArchitectProposal = {
-            ...proposal,
-            safety_lock_type: 'Quorum_Sensing_Type_B',
-        };
-
-        review = {
-            approved: false,
-            required_lock: 'Quorum_Sensing_Type_B',
-            additional_locks: additionalLocks,
-            rejection_reason: 'CRITICAL VIOLATION: Missing mandatory Quorum_Sensing_Type_B kill switch per Zhang et al. 2025',
-            corrected_proposal: correctedProposal,
-        };
+/**
+ * Replays an exported dossier, or a plain EnzymeDesign on the command-line
+ * input, through the current rules, and returns the exit code
+ */
+async function replayImport(path: string, flagsInput: WaterAnalysis, ruleSet: RuleSet, format: OutputFormat): Promise<number> {
+    let imported: ImportedDesign;
+    try {
+        imported = parseImportedDesign(JSON.parse(readFileSync(path, 'utf-8')));
+    } catch (error) {
+        if (error instanceof DossierValidationError || error instanceof EnzymeDesignValidationError) {
+            console.error(`❌ ${path} failed validation (${error instanceof DossierValidationError ? 'dossier' : 'EnzymeDesign'}):`);
+            error.issues.forEach(issue => console.error(`   - ${issue}`));
+        } else {
+            console.error(`❌ Could not import "${path}": ${error instanceof Error ? error.message : error}`);
+        }
+        process.exit(EXIT_CODES.USAGE);
+    }
 
-        monologue = {
-            agent: 'SAFETY_OFFICER',
-            timestamp: new Date().toISOString(),
-            thought: `Reviewing proposal for ${proposal.organism}. ` +
-                `Checking safety constraints from docs/LOGIC.md...`,
-            decision: `REJECTED - Architect proposal lacks Quorum_Sensing_Type_B lock!`,
-            rejected: true,
-            retry_reason: 'Forcing retry with mandatory safety lock. Zhang et al. 2025 requires Quorum_Sensing_Type_B for all engineered organisms.',
-        };
+    let stored: EnzymeDesign | undefined;
+    let input: WaterAnalysis;
+    let verification: DossierVerification | undefined;
+    log(`📥 IMPORT: ${path}`);
+    log('─'.repeat(60));
+    if (imported.kind === 'dossier') {
+        const { dossier } = imported;
+        verification = await verifyDossier(dossier);
+        log(`   Dossier exported ${dossier.exported_at} (${dossier.deployment.response.mode} deployment of ${dossier.deployment.created_at})`);
+        if (verification.valid) {
+            log(`   ✅ Content hash verified (SHA-256 ${verification.expected})`);
+        } else {
+            log('   ❌ Content hash mismatch: the dossier was modified after export');
+            log(`      recorded ${verification.expected}`);
+            log(`      content  ${verification.actual}`);
+        }
+        stored = dossier.deployment.response.data;
+        input = dossier.deployment.input;
     } else {
-        review = {
-            approved: true,
-            required_lock: 'Quorum_Sensing_Type_B',
-            additional_locks: additionalLocks,
-        };
-
-        monologue = {
-            agent: 'SAFETY_OFFICER',
-            timestamp: new Date().toISOString(),
-            thought: `Reviewing proposal for ${proposal.organism}. ` +
-                `Verifying Zhang et al. 2025 compliance...`,
-            decision: `APPROVED - All safety constraints satisfied. ` +
-                `Quorum_Sensing_Type_B verified. ` +
-                (additionalLocks.length > 0 ? `Recommending additional locks: ${additionalLocks.join(', ')}.` : 'No additional locks required.'),
-        };
+        log('   Plain EnzymeDesign: no input recorded, replaying on the command-line input');
+        stored = imported.design;
+        input = flagsInput;
     }
-
-    return { review, monologue };
+    log(JSON.stringify(input, null, 2));
+
+    const report = await replayDesign(stored, input, ruleSet);
+    printReplayReport(report);
+
+    const exitCode = verification?.valid === false
+        ? EXIT_CODES.DOSSIER_MODIFIED
+        : report.verdict === 'DRIFTED' ? EXIT_CODES.REPLAY_DRIFT : EXIT_CODES.OK;
+    if (format === 'table') {
+        emit(`${report.verdict}${verification?.valid === false ? ' (dossier modified after export)' : ''}`);
+        if (report.differences.length > 0) {
+            emit(formatTable(['FIELD', 'STORED', 'CURRENT'], report.differences.map(difference => [
+                difference.field, difference.stored, difference.current,
+            ])));
+        }
+    } else if (format !== 'text') {
+        const result = { exit_code: exitCode, source: imported.kind, ...(verification && { verification }), input, report };
+        emit(format === 'json' ? JSON.stringify(result, null, 2) : JSON.stringify(result));
+    }
+    return exitCode;
 }
 
 // =============================================================================
-// Committee Mode: Sub-Agent C - The Simulator
+// Survey Batches
 // =============================================================================
 
-interface SimulatorPrediction {
-    efficiency_score: number;
-    confidence: number;
-    environmental_match: 'OPTIMAL' | 'SUBOPTIMAL' | 'MARGINAL';
-    notes: string;
+const STATUS_ICONS: Record<BatchRowStatus, string> = {
+    VALID: '✅',
+    SAFETY_VIOLATION: '🔓',
+    CHASSIS_VIOLATION: '🧬',
+    DESIGN_FAILED: '❌',
+    INVALID_INPUT: '⚠️',
+};
+
+function readSurvey(path: string): SurveySample[] {
+    let text: string;
+    try {
+        text = readFileSync(path, 'utf-8');
+    } catch (error) {
+        console.error(`❌ Could not read survey "${path}": ${error instanceof Error ? error.message : error}`);
+        process.exit(EXIT_CODES.USAGE);
+    }
+    if (/\.csv$/i.test(path)) {
+        return parseSurveyCsv(text);
+    }
+    if (/\.(jsonl|ndjson)$/i.test(path)) {
+        return parseSurveyJsonl(text);
+    }
+    console.error(`❌ Unknown survey format: ${path} (expected .csv or .jsonl)`);
+    process.exit(EXIT_CODES.USAGE);
 }
 
-function runSimulator(
-    proposal: ArchitectProposal,
-    input: WaterAnalysis
-): { prediction: SimulatorPrediction; monologue: MonologueEntry } {
-
-    const efficiencyScore = calculateEfficiencyScore(
-        input.salinity,
-        input.stress_signal_bool,
-        proposal.chassis_type,
-        proposal.mutation_list.length
-    );
-
-    // Determine environmental match quality
-    let envMatch: 'OPTIMAL' | 'SUBOPTIMAL' | 'MARGINAL';
-    if (efficiencyScore >= 0.85) {
-        envMatch = 'OPTIMAL';
-    } else if (efficiencyScore >= 0.70) {
-        envMatch = 'SUBOPTIMAL';
-    } else {
-        envMatch = 'MARGINAL';
-    }
-
-    // Calculate confidence based on conditions
-    let confidence = 0.85;
-    if (input.stress_signal_bool) confidence -= 0.15;
-    if (input.salinity > 40) confidence -= 0.10;
-    confidence = Math.max(0.50, Math.round(confidence * 100) / 100);
-
-    const prediction: SimulatorPrediction = {
-        efficiency_score: efficiencyScore,
-        confidence,
-        environmental_match: envMatch,
-        notes: `Simulated ${proposal.enzyme_name} activity under ${proposal.chassis_type} expression. ` +
-            `Temperature/pH match: ${envMatch}. ` +
-            `Mutation count: ${proposal.mutation_list.length} (contributing +${Math.min(proposal.mutation_list.length, 3) * 0.05} to score).`,
-    };
+function sampleLabel(result: BatchResult): string {
+    return result.sample_id ?? `line ${result.line}`;
+}
 
-    const monologue: MonologueEntry = {
-        agent: 'SIMULATOR',
-        timestamp: new Date().toISOString(),
-        thought: `Running Evo 2 efficiency simulation for ${proposal.enzyme_name}. ` +
-            `Base chassis: ${proposal.chassis_type}. ` +
-            `Environmental parameters: salinity=${input.salinity}ppt, stress=${input.stress_signal_bool}.`,
-        decision: `Prediction complete. Efficiency: ${(efficiencyScore * 100).toFixed(1)}% (${envMatch}). ` +
-            `Confidence: ${(confidence * 100).toFixed(0)}%. ` +
-            `Model ready for deployment recommendation.`,
-    };
+function printBatchSummary(summary: BatchSummary, results: BatchResult[], outputPath: string): void {
+    log('');
+    log(`📊 BATCH SUMMARY (${summary.rows} samples → ${outputPath}):`);
+    log('─'.repeat(60));
+    const statuses = (Object.keys(summary.statuses) as BatchRowStatus[])
+        .filter(status => summary.statuses[status] > 0)
+        .map(status => `${STATUS_ICONS[status]} ${status} ${summary.statuses[status]}`);
+    log(`   ${statuses.join(' · ') || 'No samples'}`);
+
+    const designs = Object.values(summary.chassis_distribution).reduce((sum, count) => sum + count, 0);
+    const chassis = Object.entries(summary.chassis_distribution)
+        .map(([type, count]) => `${type} ${count} (${((count / designs) * 100).toFixed(0)}%)`);
+    if (chassis.length > 0) {
+        log(`   🧬 Chassis: ${chassis.join(', ')}`);
+    }
+    if (summary.mean_efficiency !== undefined) {
+        log(`   📈 Mean efficiency: ${(summary.mean_efficiency * 100).toFixed(1)}% over ${designs} design(s)`);
+    }
 
-    return { prediction, monologue };
+    const unsafe = results.filter(result => result.status === 'SAFETY_VIOLATION').map(sampleLabel);
+    log(`   🔒 Safety failures: ${summary.safety_failures}` +
+        (unsafe.length > 0 ? ` (${unsafe.slice(0, 10).join(', ')}${unsafe.length > 10 ? ', …' : ''})` : ''));
 }
 
-// =============================================================================
-// Committee Mode: Mock Gemini Service (Wizard of Oz Pattern)
-// =============================================================================
-
 /**
- * Mock Gemini Service with Committee Mode
- * Simulates a debate between 3 sub-agents and outputs internal monologue
+ * Designs every sample of a survey, writes one result per line and returns
+ * the exit code of the most severe row
  */
-class MockGeminiService {
-    async generateEnzymeDesign(input: WaterAnalysis): Promise<CommitteeBioAgentResponse> {
-        const monologue: MonologueEntry[] = [];
-
-        try {
-            // Simulate API latency
-            await new Promise(resolve => setTimeout(resolve, 300));
-
-            // ═══════════════════════════════════════════════════════════════
-            // PHASE 1: The Architect proposes initial design
-            // ═══════════════════════════════════════════════════════════════
-            const { proposal: initialProposal, monologue: architectMonologue } = runArchitect(input);
-            monologue.push(architectMonologue);
-
-            await new Promise(resolve => setTimeout(resolve, 200));
-
-            // ═══════════════════════════════════════════════════════════════
-            // PHASE 2: The Safety Officer reviews (may reject and force retry)
-            // ═══════════════════════════════════════════════════════════════
-            const { review: safetyReview, monologue: safetyMonologue } = runSafetyOfficer(initialProposal, input);
-            monologue.push(safetyMonologue);
-
-            // If rejected, use the corrected proposal
-            const finalProposal = safetyReview.approved
-                ? { ...initialProposal, safety_lock_type: 'Quorum_Sensing_Type_B' as SafetyLockType }
-                : safetyReview.corrected_proposal!;
-
-            // If there was a rejection, log the retry
-            if (!safetyReview.approved) {
-                monologue.push({
-                    agent: 'ARCHITECT',
-                    timestamp: new Date().toISOString(),
-                    thought: 'Received rejection from Safety Officer. Acknowledging mandatory safety requirement.',
-                    decision: `Retry accepted. Adding Quorum_Sensing_Type_B lock to proposal as required by Zhang et al. 2025.`,
-                });
+async function runSurvey(
+    inputPath: string,
+    outputPath: string,
+    concurrency: number,
+    format: OutputFormat,
+    ruleSet: RuleSet,
+    service: MockGeminiService | LiveService,
+    signal: AbortSignal
+): Promise<number> {
+    const samples = readSurvey(inputPath);
+    log(`📋 SURVEY: ${inputPath} (${samples.length} samples, ${concurrency} at a time)`);
+    log('');
+
+    const results = await runBatch(samples, (input, rowSignal) => service.generateEnzymeDesign(input, rowSignal), {
+        concurrency,
+        ruleSet,
+        signal,
+        onResult: (result, finished) => {
+            const detail = result.design
+                ? `${result.design.chassis_type}, ${(result.design.predicted_efficiency_score * 100).toFixed(1)}%`
+                : result.issues.join('; ');
+            log(`   [${finished}/${samples.length}] ${STATUS_ICONS[result.status]} ${sampleLabel(result)}: ${result.status} - ${detail}`);
+            if (format === 'ndjson') {
+                emit(JSON.stringify(result));
             }
-
-            await new Promise(resolve => setTimeout(resolve, 200));
-
-            // ═══════════════════════════════════════════════════════════════
-            // PHASE 3: The Simulator predicts efficiency
-            // ═══════════════════════════════════════════════════════════════
-            const { prediction, monologue: simulatorMonologue } = runSimulator(finalProposal, input);
-            monologue.push(simulatorMonologue);
-
-            // ═══════════════════════════════════════════════════════════════
-            // FINAL: Assemble the EnzymeDesign from committee consensus
-            // ═══════════════════════════════════════════════════════════════
-            const design: EnzymeDesign = {
-                enzyme_name: finalProposal.enzyme_name,
-                mutation_list: finalProposal.mutation_list,
-                predicted_efficiency_score: prediction.efficiency_score,
-                safety_lock_type: finalProposal.safety_lock_type!,
-                chassis_type: finalProposal.chassis_type,
-                design_rationale: `[COMMITTEE CONSENSUS] Organism: ${finalProposal.organism} (${finalProposal.organism_description}). ` +
-                    `${finalProposal.rationale} ` +
-                    `Safety: ${finalProposal.safety_lock_type} verified. ` +
-                    `Simulation: ${prediction.efficiency_score * 100}% efficiency (${prediction.environmental_match}).`,
-                references: [
-                    'Lee et al. 2025 - Halophilic Enzyme Expression in Marine Bioremediation',
-                    'Zhang et al. 2025 - Engineered Quorum Sensing Kill Switches for Synthetic Biology Containment',
-                ],
-            };
-
-            return {
-                success: true,
-                data: design,
-                timestamp: new Date().toISOString(),
-                internal_monologue: monologue,
-            };
-        } catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
-                timestamp: new Date().toISOString(),
-                internal_monologue: monologue,
-            };
-        }
+        },
+    });
+
+    writeFileSync(outputPath, results.map(result => JSON.stringify(result) + '\n').join(''));
+    const summary = summarizeBatch(results);
+    printBatchSummary(summary, results, outputPath);
+
+    if (format === 'json') {
+        emit(JSON.stringify({ summary, results }, null, 2));
+    } else if (format === 'table') {
+        emit(formatTable(['LINE', 'SAMPLE', 'STATUS', 'CHASSIS', 'EFFICIENCY', 'ENZYME', 'ISSUES'], results.map(result => [
+            String(result.line),
+            result.sample_id ?? '-',
+            result.status,
+            result.design?.chassis_type ?? '-',
+            result.design ? `${(result.design.predicted_efficiency_score * 100).toFixed(1)}%` : '-',
+            result.design?.enzyme_name ?? '-',
+            result.issues.join('; ') || '-',
+        ])));
     }
+    return exitCodeFor(results.map(result => result.status));
 }
 
 // =============================================================================
@@ -477,9 +843,9 @@ class MockGeminiService {
 // =============================================================================
 
 function printInternalMonologue(monologue: MonologueEntry[]): void {
-    console.log('');
-    console.log('🧠 INTERNAL MONOLOGUE (Committee Debate):');
-    console.log('═'.repeat(70));
+    log('');
+    log('🧠 INTERNAL MONOLOGUE (Committee Debate):');
+    log('═'.repeat(70));
 
     for (const entry of monologue) {
         const agentEmoji = {
@@ -496,121 +862,122 @@ function printInternalMonologue(monologue: MonologueEntry[]): void {
 
         const reset = '\x1b[0m';
 
-        console.log('');
-        console.log(`${agentColor}${agentEmoji} [${entry.agent}]${reset} @ ${entry.timestamp.split('T')[1].split('.')[0]}`);
-        console.log(`   💭 ${entry.thought}`);
+        log('');
+        log(`${agentColor}${agentEmoji} [${entry.agent}]${reset} @ ${entry.timestamp.split('T')[1].split('.')[0]}`);
+        log(`   💭 ${entry.thought}`);
 
         if (entry.decision) {
             const prefix = entry.rejected ? '❌' : '✅';
-            console.log(`   ${prefix} ${entry.decision}`);
+            log(`   ${prefix} ${entry.decision}`);
         }
 
         if (entry.retry_reason) {
-            console.log(`   🔄 ${entry.retry_reason}`);
+            log(`   🔄 ${entry.retry_reason}`);
         }
     }
 
-    console.log('');
-    console.log('═'.repeat(70));
+    log('');
+    log('═'.repeat(70));
+}
+
+function printConformanceReport(report: ConformanceReport): void {
+    const icon = { CONFORMS: '✅', OVERRIDDEN: '⚠️', REJECTED: '❌' }[report.verdict];
+    log('');
+    log(`📋 CONFORMANCE AUDIT (rule set v${report.rule_set_version}): ${icon} ${report.verdict}`);
+    log(`   Model score ${(report.model_efficiency_score * 100).toFixed(1)}% vs engine ` +
+        `${(report.engine_efficiency_score * 100).toFixed(1)}% (deviation ${(report.score_deviation * 100).toFixed(1)}%)`);
+    for (const finding of report.findings) {
+        log(`   ${finding.severity === 'HARD' ? '❌' : '⚠️'} [${finding.severity}] ${finding.check}: ` +
+            `expected ${finding.expected}, got ${finding.actual} → ${finding.resolution}`);
+    }
 }
 
 /**
- * Live Gemini Service - calls the real Gemini 1.5 Flash API
- * Uses the "Wizard of Oz" pattern: prompts Gemini to ACT as Evo 2
+ * Live Service - calls a real language model through an LLMProvider
+ * (Gemini, an OpenAI-compatible server, or recorded fixtures).
+ * Uses the "Wizard of Oz" pattern: each committee role is a separate model
+ * call, and replies that fail schema validation are sent back for repair.
  */
-class LiveGeminiService {
-    private apiKey: string;
-    private baseUrl = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent';
-
-    constructor(apiKey: string) {
-        this.apiKey = apiKey;
-    }
-
-    async generateEnzymeDesign(input: WaterAnalysis): Promise<BioAgentResponse> {
-        const systemPrompt = `You are simulating the Evo 2 protein language model for bioremediation enzyme design.
-You MUST follow these rules from our safety protocols:
-
-1. CHASSIS SELECTION (Lee et al. 2025):
-   - If salinity > 35ppt: MUST use Halophilic chassis
-   - If salinity <= 35ppt AND no stress: use Mesophilic chassis
-   - If salinity <= 35ppt AND stress signal: use Thermophilic chassis
-
-2. ENZYME SELECTION by plastic type:
-   - PET → PETase with mutations S238F, W159H, S280A
-   - HDPE → LacCase-HD with mutations T241M, G352V
-   - PVC → HaloHyd-VC with mutations C127S, L89F
-   - LDPE → AlkB-LDPE with mutations W55L, F181Y
-   - PP → CutinasePP with mutations L117F, S141G
-   - PS → StyreneOx with mutations M108L, H223Y
-
-3. SAFETY (Zhang et al. 2025):
-   - ALWAYS include safety_lock_type: "Quorum_Sensing_Type_B" - this is MANDATORY
-
-4. EFFICIENCY SCORE (0.0-0.95):
-   Base = 0.60, +0.15 if chassis matches salinity, +0.10 if no stress, +0.05 per mutation (max 3)
-
-Respond with ONLY a valid JSON object matching this interface:
-{
-  "enzyme_name": "string",
-  "mutation_list": ["string"],
-  "predicted_efficiency_score": number,
-  "safety_lock_type": "Quorum_Sensing_Type_B",
-  "chassis_type": "Halophilic" | "Mesophilic" | "Thermophilic",
-  "design_rationale": "string",
-  "references": ["string"]
-}`;
-
-        const userPrompt = `Design an enzyme for:
-- Location: ${input.lat}, ${input.lng}
-- Salinity: ${input.salinity}ppt
-- Plastic Type: ${input.plastic_type}
-- Stress Signal: ${input.stress_signal_bool}`;
+class LiveService {
+    private newProvider: () => LLMProvider;
+    private ruleSet: RuleSet;
+    private maxAttempts: number;
+    private maxRounds: number;
+    private phaseTimeoutMs: number;
+    private config: BioAgentConfig;
+
+    constructor(
+        newProvider: () => LLMProvider,
+        ruleSet: RuleSet,
+        maxAttempts: number,
+        maxRounds: number,
+        phaseTimeoutMs: number,
+        config: BioAgentConfig
+    ) {
+        this.newProvider = newProvider;
+        this.ruleSet = ruleSet;
+        this.maxAttempts = maxAttempts;
+        this.maxRounds = maxRounds;
+        this.phaseTimeoutMs = phaseTimeoutMs;
+        this.config = config;
+    }
 
+    async generateEnzymeDesign(input: WaterAnalysis, signal?: AbortSignal): Promise<CommitteeBioAgentResponse> {
+        // Collected as it happens so a failed or cancelled run keeps the exchange so far
+        const monologue: MonologueEntry[] = [];
+        const provider = this.newProvider();
         try {
-            const response = await fetch(`${this.baseUrl}?key=${this.apiKey}`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    contents: [
-                        { role: 'user', parts: [{ text: systemPrompt + '\n\n' + userPrompt }] }
-                    ],
-                    generationConfig: {
-                        temperature: 0.2,
-                        maxOutputTokens: 1024,
+            const debate = await runLiveCommittee(provider, input, {
+                ruleSet: this.ruleSet,
+                maxAttempts: this.maxAttempts,
+                maxRounds: this.maxRounds,
+                config: this.config,
+                signal,
+                phaseTimeoutMs: this.phaseTimeoutMs,
+                onEvent: event => {
+                    if (event.type === 'entry') {
+                        monologue.push(event.entry);
                     }
-                }),
+                },
             });
 
-            if (!response.ok) {
-                throw new Error(`Gemini API error: ${response.status} ${response.statusText}`);
+            if (!debate.design) {
+                return this.failed(failureFromDebate(debate)!, monologue, provider);
             }
 
-            const result = await response.json() as { candidates?: { content?: { parts?: { text?: string }[] } }[] };
-            const text = result.candidates?.[0]?.content?.parts?.[0]?.text;
-
-            if (!text) {
-                throw new Error('Empty response from Gemini API');
+            // Cross-check against the deterministic engine
+            const { report, design: audited } = auditDesign(debate.design, input, this.ruleSet);
+            if (!audited) {
+                return { ...this.failed(failureFromConformance(report), monologue, provider), conformance: report };
             }
 
-            // Extract JSON from response (handle markdown code blocks)
-            const jsonMatch = text.match(/```json\n?([\s\S]*?)\n?```/) ||
-                text.match(/\{[\s\S]*\}/);
-            const jsonStr = jsonMatch ? (jsonMatch[1] || jsonMatch[0]) : text;
-            const design = JSON.parse(jsonStr) as EnzymeDesign;
-
             return {
                 success: true,
-                data: design,
+                data: audited,
                 timestamp: new Date().toISOString(),
+                internal_monologue: monologue,
+                mode: 'LIVE',
+                conformance: report,
+                agent_config: this.config,
+                provider: provider.name,
             };
         } catch (error) {
-            return {
-                success: false,
-                error: error instanceof Error ? error.message : 'Unknown error',
-                timestamp: new Date().toISOString(),
-            };
+            return this.failed(failureFromError(error), monologue, provider);
         }
     }
+
+    private failed(failure: DebateFailure, monologue: MonologueEntry[], provider: LLMProvider): CommitteeBioAgentResponse {
+        return {
+            success: false,
+            error: failure.message,
+            failure,
+            timestamp: new Date().toISOString(),
+            internal_monologue: monologue,
+            mode: 'LIVE',
+            agent_config: this.config,
+            provider: provider.name,
+        };
+    }
 }
 
 // =============================================================================
@@ -618,93 +985,230 @@ Respond with ONLY a valid JSON object matching this interface:
 // =============================================================================
 
 async function main(): Promise<void> {
-    console.log(`
+    const args = parseArgs();
+    if (args.quiet || args.format !== 'text') {
+        log = () => {};
+    }
+
+    log(`
 ╔══════════════════════════════════════════════════════════════════════════════╗
 ║                    POLYMER-X: Bioremediation Command Center                  ║
 ║                      Enzyme Design Simulation v0.2 (Committee Mode)          ║
 ╚══════════════════════════════════════════════════════════════════════════════╝
 `);
 
-    const args = parseArgs();
+    const ruleSet = loadRuleSet(args.rules);
+
+    // Deploy only on water: a target on land is moved to the nearest water or refused
+    const target = resolveDeploymentTarget(args.lat, args.lng);
+    const targetWarning = describeDeploymentTarget(target);
+    if (!args.inputPath && (target.status === 'land' || (target.status === 'snapped' && !args.snapToWater))) {
+        if (target.status === 'snapped') {
+            console.error(`❌ ${args.lat}°, ${args.lng}° is on land (${target.landmass})`);
+            console.error(`   Nearest water (${target.distance_km} km, ${describeLocation(target.location)}): ` +
+                `--lat=${target.lat} --lng=${target.lng}, or drop --no-snap to move there`);
+        } else {
+            console.error(`❌ ${targetWarning}`);
+        }
+        process.exit(EXIT_CODES.USAGE);
+    }
+    if (!args.inputPath && targetWarning) {
+        console.warn(`⚠️  ${targetWarning}`);
+    }
+
+    // --auto-env: climatological salinity and temperature where no measurement was given
+    const climatology = args.autoEnv && target.status !== 'land'
+        ? lookupClimatology(target.lat, target.lng)
+        : undefined;
 
     // Build WaterAnalysis input
     const input: WaterAnalysis = {
-        lat: args.lat,
-        lng: args.lng,
-        salinity: args.salinity,
-        plastic_type: args.plastic,
+        lat: target.status === 'land' ? args.lat : target.lat,
+        lng: target.status === 'land' ? args.lng : target.lng,
+        salinity: args.salinity ?? climatology?.salinity ?? DEFAULT_SALINITY,
+        plastic_type: args.composition ? dominantPlasticType(args.composition) ?? args.plastic : args.plastic,
+        composition: args.composition,
         stress_signal_bool: args.stress,
+        temperature_c: args.temperature ?? climatology?.temperature_c,
+        ph: args.ph,
+        depth_m: args.depth,
+        dissolved_oxygen_mg_l: args.dissolvedOxygen,
+        toxins: args.toxins,
+        site_context: args.siteContext,
+        water_body: target.status === 'land' ? undefined : target.location.water_body,
     };
 
-    console.log('📊 INPUT PARAMETERS:');
-    console.log('─'.repeat(60));
-    console.log(JSON.stringify(input, null, 2));
-    console.log('');
+    if (args.importPath) {
+        process.exit(await replayImport(args.importPath, input, ruleSet, args.format));
+    }
+
+    if (!args.inputPath) {
+        log('📊 INPUT PARAMETERS:');
+        log('─'.repeat(60));
+        log(JSON.stringify(input, null, 2));
+        if (target.status !== 'land') {
+            log(`🌊 Target: ${describeLocation(target.location)}`);
+        }
+        if (climatology) {
+            log(`📚 Climatology (${climatology.source}): ${climatology.salinity} ppt, ${climatology.temperature_c}°C` +
+                (args.salinity !== undefined || args.temperature !== undefined ? ' (measured values kept)' : ''));
+        }
+    }
+    log(`📐 Rule set: v${ruleSet.version} (${ruleSet.description})`);
+    log('');
 
     // Select service based on mode
-    let service: MockGeminiService | LiveGeminiService;
-    let isMockMode = args.mock;
+    let service: MockGeminiService | LiveService;
 
     if (args.mock) {
-        console.log('🧪 MODE: Committee Mode Simulation (Wizard of Oz Pattern)');
-        console.log('   Sub-Agents: 🏗️ Architect → 🛡️ Safety Officer → 🔬 Simulator');
-        console.log('   Using hardcoded logic from docs/LOGIC.md');
-        service = new MockGeminiService();
+        log('🧪 MODE: Committee Mode Simulation (Wizard of Oz Pattern)');
+        log('   Sub-Agents: 🏗️ Architect → 🛡️ Safety Officer → 🔬 Simulator');
+        log('   Using hardcoded logic from docs/LOGIC.md');
+        // No staged pauses when designing a whole survey
+        service = new MockGeminiService(ruleSet, args.inputPath ? 0 : 200);
     } else {
-        const apiKey = process.env.GEMINI_API_KEY;
-        if (!apiKey) {
-            console.error('❌ ERROR: GEMINI_API_KEY environment variable not set');
-            console.error('   Set it with: export GEMINI_API_KEY=your_key_here');
-            console.error('   Or use --mock flag for simulation mode');
-            process.exit(1);
-        }
-        console.log('🌐 MODE: Live Gemini API (gemini-1.5-flash)');
-        console.log('   Prompting Gemini to simulate Committee Mode debate');
-        service = new LiveGeminiService(apiKey);
+        const newProvider = createProviderFactory(args);
+        const provider = newProvider();
+        const config = resolveBioAgentConfig(provider, {
+            model: args.model,
+            temperature: args.generationTemperature,
+            max_tokens: args.maxTokens,
+        });
+        log(`🌐 MODE: Live ${provider.name} (${config.model})`);
+        log(`   Temperature ${config.temperature}, max ${config.max_tokens} tokens`);
+        log('   Sub-Agents: 🏗️ Architect ⇄ 🛡️ Safety Officer → 🔬 Simulator (one model call each)');
+        service = new LiveService(newProvider, ruleSet, args.maxAttempts, args.maxRounds, args.phaseTimeoutMs, config);
     }
 
-    console.log('');
-    console.log('⏳ Running committee debate...');
-    console.log('');
+    log('');
 
-    const response = await service.generateEnzymeDesign(input);
+    // Ctrl+C cancels the debate instead of killing the process mid-output
+    const controller = new AbortController();
+    process.once('SIGINT', () => controller.abort());
 
-    // Print internal monologue first (if available from mock mode)
-    const committeeResponse = response as CommitteeBioAgentResponse;
-    if (isMockMode && committeeResponse.internal_monologue && Array.isArray(committeeResponse.internal_monologue)) {
-        printInternalMonologue(committeeResponse.internal_monologue);
+    if (args.inputPath) {
+        const outputPath = args.outputPath ?? args.inputPath.replace(/\.[^./\\]*$/, '') + '.results.jsonl';
+        process.exit(await runSurvey(args.inputPath, outputPath, args.concurrency, args.format, ruleSet, service, controller.signal));
     }
 
+    log('⏳ Running committee debate...');
+    log('');
+
+    const startedAt = new Date().toISOString();
+    const response = await service.generateEnzymeDesign(input, controller.signal);
+
+    // Print internal monologue first (the debate, or the LIVE repair attempts)
+    if (response.internal_monologue.length > 0) {
+        printInternalMonologue(response.internal_monologue);
+    }
+
+    if (response.conformance) {
+        printConformanceReport(response.conformance);
+    }
+
+    const check = response.data && checkDesignAgainstRules(response.data, input, ruleSet);
+
     if (response.success && response.data) {
-        console.log('');
-        console.log('✅ ENZYME DESIGN OUTPUT (Committee Consensus):');
-        console.log('─'.repeat(60));
-        console.log(JSON.stringify(response.data, null, 2));
-        console.log('');
-        console.log('─'.repeat(60));
-        console.log(`🕐 Timestamp: ${response.timestamp}`);
+        log('');
+        log('✅ ENZYME DESIGN OUTPUT (Committee Consensus):');
+        log('─'.repeat(60));
+        log(JSON.stringify(response.data, null, 2));
+        log('');
+        log('─'.repeat(60));
+        log(`🕐 Timestamp: ${response.timestamp}`);
+        if (response.agent_config) {
+            log(`🎛️ Generated by ${response.provider} with ${JSON.stringify(response.agent_config)}`);
+        }
 
         // Validation checks
-        console.log('');
-        console.log('🔒 SAFETY VALIDATION:');
-        if (response.data.safety_lock_type === 'Quorum_Sensing_Type_B') {
-            console.log('   ✅ Quorum_Sensing_Type_B verified (Zhang et al. 2025)');
-        } else {
-            console.log('   ❌ CRITICAL: Missing mandatory Quorum_Sensing_Type_B lock!');
+        log('');
+        log('🔒 SAFETY VALIDATION:');
+        for (const lock of response.data.safety_locks) {
+            log(`   🔒 ${lock.type} — ${lock.rule}`);
+        }
+        const missingLocks = findMissingSafetyLocks(response.data.safety_locks, requiredSafetyLocks(input, ruleSet));
+        for (const lock of missingLocks) {
+            const severity = lock.type === MANDATORY_SAFETY_LOCK ? 'CRITICAL' : 'WARNING';
+            log(`   ❌ ${severity}: Missing required ${lock.type} lock (${lock.rule})!`);
+        }
+        if (missingLocks.length === 0) {
+            log(`   ✅ All ${response.data.safety_locks.length} required lock(s) present`);
+        }
+
+        if (response.data.cocktail) {
+            log('');
+            log('🧪 COCKTAIL BREAKDOWN:');
+            for (const component of response.data.cocktail) {
+                log(`   ${component.plastic_type.padEnd(5)} ${(component.fraction * 100).toFixed(0).padStart(3)}%  ` +
+                    `${component.enzyme_name} in ${component.organism} → ${(component.predicted_efficiency_score * 100).toFixed(1)}%`);
+            }
+            log(`   Weighted efficiency: ${(response.data.predicted_efficiency_score * 100).toFixed(1)}%`);
         }
 
-        if (input.salinity > 35 && response.data.chassis_type === 'Halophilic') {
-            console.log('   ✅ Halophilic chassis correct for high salinity (Lee et al. 2025)');
-        } else if (input.salinity > 35) {
-            console.log('   ❌ WARNING: High salinity requires Halophilic chassis!');
+        log('');
+        log('🧬 CHASSIS VALIDATION:');
+        const expectedChassis = determineChassisType(input, ruleSet);
+        if (expectedChassis === 'Halophilic' && response.data.chassis_type === 'Halophilic') {
+            log('   ✅ Halophilic chassis correct for high salinity (Lee et al. 2025)');
+        } else if (expectedChassis === 'Halophilic') {
+            log('   ❌ VIOLATION: High salinity requires Halophilic chassis!');
+        } else if (expectedChassis === 'Psychrophilic' && response.data.chassis_type !== 'Psychrophilic') {
+            log('   ❌ VIOLATION: Cold water requires Psychrophilic chassis!');
+        } else if (response.data.chassis_type !== expectedChassis) {
+            log(`   ❌ VIOLATION: The rules select a ${expectedChassis} chassis, not ${response.data.chassis_type}!`);
+        } else {
+            log(`   ✅ ${expectedChassis} chassis matches the rules`);
         }
     } else {
-        console.log('❌ ENZYME DESIGN FAILED:');
-        console.log('─'.repeat(60));
-        console.log(`   Error: ${response.error}`);
-        console.log(`   Timestamp: ${response.timestamp}`);
-        process.exit(1);
+        const category = response.failure?.category;
+        const outcome = category === 'CANCELLED' ? 'CANCELLED' : category === 'TIMED_OUT' ? 'TIMED OUT' : 'FAILED';
+        log(`❌ ENZYME DESIGN ${outcome}:`);
+        log('─'.repeat(60));
+        if (response.failure) {
+            log(`   Category: ${response.failure.category} (${FAILURE_LABELS[response.failure.category]})`);
+        }
+        log(`   Error: ${response.error}`);
+        if (response.failure?.cause) {
+            log(`   Cause: ${response.failure.cause}`);
+        }
+        log(`   Timestamp: ${response.timestamp}`);
+    }
+
+    await exportDossier(args, {
+        id: randomUUID(),
+        created_at: startedAt,
+        input,
+        rule_set_version: ruleSet.version,
+        ...(response.agent_config && { agent_config: response.agent_config }),
+        response,
+    });
+
+    const status: BatchRowStatus = check ? check.status : 'DESIGN_FAILED';
+    const exitCode = exitCodeFor([status]);
+    if (args.format === 'table') {
+        emit(formatTable(['STATUS', 'CHASSIS', 'EFFICIENCY', 'ENZYME', 'LOCKS', 'ISSUES'], [[
+            status,
+            response.data?.chassis_type ?? '-',
+            response.data ? `${(response.data.predicted_efficiency_score * 100).toFixed(1)}%` : '-',
+            response.data?.enzyme_name ?? '-',
+            response.data?.safety_locks.map(lock => lock.type).join(',') || '-',
+            (check ? check.issues : [response.error ?? 'No design']).join('; ') || '-',
+        ]]));
+    } else if (args.format !== 'text') {
+        const result = {
+            status,
+            exit_code: exitCode,
+            issues: check ? check.issues : [response.error ?? 'No design'],
+            input,
+            rule_set_version: ruleSet.version,
+            response,
+        };
+        emit(args.format === 'json' ? JSON.stringify(result, null, 2) : JSON.stringify(result));
     }
+    process.exit(exitCode);
 }
 
-main().catch(console.error);
+main().catch(error => {
+    console.error('❌ Unexpected error:', error);
+    process.exit(EXIT_CODES.ERROR);
+});
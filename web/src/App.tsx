@@ -11,10 +11,12 @@ import OceanMap from './components/OceanMap';
  * - Control panel for salinity, plastic type, and stress parameters
  * - Committee Mode: 3-agent debate (Architect, Safety Officer, Simulator)
  * - Physarum slime mold visualization for enzyme spread
- * - Gemini API integration (optional) with simulation fallback
+ * - LLM integration (optional: Gemini or OpenAI-compatible) with simulation fallback
  * 
  * Environment Variables:
  * - VITE_GEMINI_API_KEY: Enable live Gemini API mode
+ * - VITE_LLM_PROVIDER / VITE_LLM_BASE_URL / VITE_LLM_MODEL / VITE_LLM_API_KEY:
+ *   Use an OpenAI-compatible server instead (see services/geminiBridge.ts)
  * - VITE_GOOGLE_MAPS_API_KEY: Enable 3D Google Maps
  */
 
@@ -0,0 +1,280 @@
+import { useRef } from 'react';
+import { CAMPAIGN_SORTS, CAMPAIGN_SORT_LABELS, type CampaignSort, type RankedSite } from '@core';
+import type { CampaignRecord } from '../services/geminiBridge';
+
+interface CampaignPanelProps {
+    campaign: CampaignRecord;
+
+    /** The campaign's sites in rank order (rankCampaign) */
+    ranking: RankedSite[];
+    sort: CampaignSort;
+    savedCampaigns: CampaignRecord[];
+    isRunning: boolean;
+
+    /** Sites designed so far in the current run */
+    progress?: { finished: number; total: number };
+
+    /** Outcome of the last import, run or save */
+    notice: string | null;
+
+    /** The current target can be added (it is on water and has a plastic) */
+    canAddTarget: boolean;
+    onCampaignChange: (campaign: CampaignRecord) => void;
+    onSortChange: (sort: CampaignSort) => void;
+    onAddTarget: () => void;
+    onImportFile: (file: File) => void;
+    onRun: () => void;
+    onCancel: () => void;
+    onSave: () => void;
+
+    /** Shows a designed site's deployment like a reopened history entry */
+    onOpenSite: (index: number) => void;
+    onOpenCampaign: (campaign: CampaignRecord) => void;
+    onDeleteCampaign: (campaign: CampaignRecord) => void;
+    onNewCampaign: () => void;
+    onClose: () => void;
+}
+
+const STATUS_LABELS: Record<RankedSite['status'], string> = {
+    VALID: '✅',
+    SAFETY_VIOLATION: '⚠️ Missing lock',
+    CHASSIS_VIOLATION: '⚠️ Wrong chassis',
+    DESIGN_FAILED: '❌ Failed',
+    PENDING: '… Not run',
+};
+
+export default function CampaignPanel({
+    campaign,
+    ranking,
+    sort,
+    savedCampaigns,
+    isRunning,
+    progress,
+    notice,
+    canAddTarget,
+    onCampaignChange,
+    onSortChange,
+    onAddTarget,
+    onImportFile,
+    onRun,
+    onCancel,
+    onSave,
+    onOpenSite,
+    onOpenCampaign,
+    onDeleteCampaign,
+    onNewCampaign,
+    onClose,
+}: CampaignPanelProps) {
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const pending = ranking.filter(site => site.status === 'PENDING').length;
+    const selected = ranking.filter(site => site.selected).length;
+
+    const removeSite = (index: number) => {
+        onCampaignChange({ ...campaign, sites: campaign.sites.filter((_, i) => i !== index) });
+    };
+
+    return (
+        <div className="absolute top-40 left-4 z-20 w-96 glass rounded-xl p-3 space-y-3 animate-slideIn max-h-[calc(100vh-14rem)] overflow-y-auto">
+            <div className="flex items-center gap-2">
+                <span>🗺️</span>
+                <input
+                    value={campaign.name}
+                    onChange={(e) => onCampaignChange({ ...campaign, name: e.target.value })}
+                    disabled={isRunning}
+                    className="flex-1 px-2 py-1 rounded bg-white/5 text-gray-200 text-sm border border-white/10"
+                    aria-label="Campaign name"
+                />
+                <button onClick={onClose} className="text-xs text-gray-400 hover:text-white transition-colors">✕</button>
+            </div>
+
+            <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                <label className="flex items-center gap-1">
+                    Budget
+                    <input
+                        type="number"
+                        min="1"
+                        value={campaign.budget ?? ''}
+                        placeholder="all"
+                        onChange={(e) => {
+                            const budget = Math.floor(Number(e.target.value));
+                            onCampaignChange({ ...campaign, budget: e.target.value === '' || budget < 1 ? undefined : budget });
+                        }}
+                        disabled={isRunning}
+                        className="w-14 px-1 py-0.5 rounded bg-white/5 text-gray-200 font-mono border border-white/10"
+                    />
+                    sites
+                </label>
+                <label className="flex items-center gap-1">
+                    Rank by
+                    <select
+                        value={sort}
+                        onChange={(e) => onSortChange(e.target.value as CampaignSort)}
+                        className="px-1 py-0.5 rounded bg-slate-800 text-gray-200 border border-white/10"
+                    >
+                        {CAMPAIGN_SORTS.map((key) => (
+                            <option key={key} value={key}>{CAMPAIGN_SORT_LABELS[key]}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            {/* Sites */}
+            <div className="flex flex-wrap gap-2 text-xs">
+                <button
+                    onClick={onAddTarget}
+                    disabled={isRunning || !canAddTarget}
+                    className="px-2 py-1 rounded bg-white/5 text-gray-300 hover:bg-white/10 disabled:opacity-40 transition-colors"
+                    title="Add the current target with the control panel's settings"
+                >
+                    ➕ Add target
+                </button>
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={isRunning}
+                    className="px-2 py-1 rounded bg-white/5 text-gray-300 hover:bg-white/10 disabled:opacity-40 transition-colors"
+                    title="Add every sample of a survey file (.csv or .jsonl, the CLI's --input format)"
+                >
+                    📥 Import sites
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".csv,.jsonl,text/csv"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) onImportFile(file);
+                    }}
+                />
+                {isRunning ? (
+                    <button
+                        onClick={onCancel}
+                        className="px-2 py-1 rounded bg-white/5 text-gray-300 hover:bg-white/10 transition-colors"
+                    >
+                        ⏹️ Cancel
+                    </button>
+                ) : (
+                    <button
+                        onClick={onRun}
+                        disabled={pending === 0}
+                        className="px-2 py-1 rounded bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30 disabled:opacity-40 transition-colors"
+                        title="Run the committee for every site not designed yet"
+                    >
+                        🧬 Run ({pending})
+                    </button>
+                )}
+                <button
+                    onClick={onSave}
+                    disabled={isRunning || campaign.sites.length === 0}
+                    className="px-2 py-1 rounded bg-white/5 text-gray-300 hover:bg-white/10 disabled:opacity-40 transition-colors"
+                >
+                    💾 Save
+                </button>
+            </div>
+
+            {progress && (
+                <div className="text-xs text-cyan-400">⏳ Designing {progress.finished}/{progress.total} sites…</div>
+            )}
+            {notice && <div className="text-xs text-yellow-400">{notice}</div>}
+
+            {/* Ranking */}
+            {ranking.length === 0 ? (
+                <div className="text-xs text-gray-500">
+                    No sites yet: pick a target on the map or in Known Sites and add it, or import a survey file.
+                </div>
+            ) : (
+                <table className="w-full text-xs">
+                    <thead>
+                        <tr className="text-gray-500">
+                            <th className="text-left font-normal">#</th>
+                            <th className="text-left font-normal">Site</th>
+                            <th className="text-right font-normal" title="Predicted efficiency">Eff.</th>
+                            <th className="text-right font-normal" title="Safety locks the design carries">Locks</th>
+                            <th className="text-right font-normal" title="1 − Simulator confidence at the site">Risk</th>
+                            <th />
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {ranking.map((site) => (
+                            <tr
+                                key={site.index}
+                                className={`border-t border-white/5 ${site.selected ? 'bg-green-500/10 text-green-200' : 'text-gray-300'}`}
+                            >
+                                <td className="py-1 pr-1 font-mono">{site.rank ?? ''}</td>
+                                <td className="py-1 pr-1">
+                                    <button
+                                        onClick={() => onOpenSite(site.index)}
+                                        disabled={site.status === 'PENDING'}
+                                        className="text-left hover:text-cyan-300 disabled:hover:text-inherit transition-colors"
+                                    >
+                                        {site.label}
+                                    </button>
+                                    {site.status !== 'VALID' && (
+                                        <div className="text-gray-500" title={site.issues.join('\n')}>{STATUS_LABELS[site.status]}</div>
+                                    )}
+                                </td>
+                                <td className="py-1 pr-1 text-right font-mono">
+                                    {site.efficiency === undefined ? '—' : `${(site.efficiency * 100).toFixed(0)}%`}
+                                </td>
+                                <td className="py-1 pr-1 text-right font-mono">{site.safety_burden ?? '—'}</td>
+                                <td className="py-1 pr-1 text-right font-mono">{(site.risk * 100).toFixed(0)}%</td>
+                                <td className="py-1 text-right">
+                                    <button
+                                        onClick={() => removeSite(site.index)}
+                                        disabled={isRunning}
+                                        className="text-gray-500 hover:text-red-400 disabled:opacity-40 transition-colors"
+                                        title="Remove from the campaign"
+                                    >
+                                        ✕
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {ranking.length > 0 && (
+                <div className="text-xs text-gray-500">
+                    {campaign.budget === undefined
+                        ? `${selected} of ${ranking.length} sites pass the rules`
+                        : `Budget covers ${selected} of ${ranking.length} sites (highlighted)`}
+                </div>
+            )}
+
+            {/* Saved campaigns */}
+            <div className="pt-2 border-t border-white/10 space-y-1">
+                <div className="flex items-center justify-between text-xs text-gray-400 uppercase tracking-wider">
+                    <span>Saved Campaigns ({savedCampaigns.length})</span>
+                    <button
+                        onClick={onNewCampaign}
+                        disabled={isRunning}
+                        className="normal-case tracking-normal text-cyan-400 hover:text-cyan-300 disabled:opacity-40 transition-colors"
+                    >
+                        + New
+                    </button>
+                </div>
+                {savedCampaigns.map((saved) => (
+                    <div key={saved.id} className="flex items-center justify-between gap-2 text-xs">
+                        <button
+                            onClick={() => onOpenCampaign(saved)}
+                            disabled={isRunning}
+                            className={`flex-1 text-left truncate transition-colors disabled:opacity-40 ${saved.id === campaign.id ? 'text-cyan-300' : 'text-gray-300 hover:text-white'}`}
+                        >
+                            {saved.name}
+                            <span className="text-gray-500"> · {saved.sites.length} sites · {new Date(saved.updated_at).toLocaleDateString()}</span>
+                        </button>
+                        <button
+                            onClick={() => onDeleteCampaign(saved)}
+                            disabled={isRunning}
+                            className="text-gray-500 hover:text-red-400 disabled:opacity-40 transition-colors"
+                            title="Delete the saved campaign (its deployments stay in the history)"
+                        >
+                            🗑️
+                        </button>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
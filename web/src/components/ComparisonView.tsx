@@ -0,0 +1,87 @@
+import { useMemo, useState } from 'react';
+import type { DeploymentRecord } from '../services/geminiBridge';
+import { compareDeployments } from '../services/deploymentComparison';
+
+interface ComparisonViewProps {
+    records: DeploymentRecord[];
+    onClose: () => void;
+}
+
+export default function ComparisonView({ records, onClose }: ComparisonViewProps) {
+    const [onlyDifferences, setOnlyDifferences] = useState(false);
+    const sections = useMemo(() => compareDeployments(records), [records]);
+    const differing = sections.reduce((count, section) => count + section.rows.filter(row => row.differs).length, 0);
+
+    return (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+            <div
+                className="glass rounded-xl p-4 shadow-2xl animate-slideIn w-full max-w-5xl max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-cyan-400 font-bold flex items-center gap-2">
+                        <span>⚖️</span>
+                        Comparing {records.length} Deployments
+                        <span className="text-xs text-yellow-400 font-normal">({differing} differing fields)</span>
+                    </h3>
+                    <div className="flex items-center gap-3 text-xs text-gray-400">
+                        <label className="flex items-center gap-2 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={onlyDifferences}
+                                onChange={(e) => setOnlyDifferences(e.target.checked)}
+                                className="accent-cyan-500"
+                            />
+                            Only differences
+                        </label>
+                        <button onClick={onClose} className="hover:text-white transition-colors">✕ Close</button>
+                    </div>
+                </div>
+
+                <div className="overflow-auto text-xs">
+                    <table className="w-full border-collapse">
+                        <thead className="sticky top-0 bg-slate-900/95">
+                            <tr>
+                                <th className="text-left text-gray-500 font-normal p-2 w-40" />
+                                {records.map((record) => (
+                                    <th key={record.id} className="text-left p-2 align-top">
+                                        <div className="text-white font-mono">{record.response.data?.enzyme_name ?? 'Failed'}</div>
+                                        <div className="text-gray-500 font-normal">{new Date(record.created_at).toLocaleString()}</div>
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        {sections.map((section) => {
+                            const rows = onlyDifferences ? section.rows.filter(row => row.differs) : section.rows;
+                            if (rows.length === 0) return null;
+                            return (
+                                <tbody key={section.title}>
+                                    <tr>
+                                        <td colSpan={records.length + 1} className="pt-4 pb-1 px-2 text-gray-400 uppercase tracking-wider">
+                                            {section.title}
+                                        </td>
+                                    </tr>
+                                    {rows.map((row) => (
+                                        <tr key={row.label} className="border-t border-white/5">
+                                            <td className={`p-2 align-top ${row.differs ? 'text-yellow-400' : 'text-gray-500'}`}>
+                                                {row.label}
+                                            </td>
+                                            {row.values.map((value, i) => (
+                                                <td
+                                                    key={records[i].id}
+                                                    className={`p-2 align-top ${row.differs ? 'bg-yellow-500/10 text-yellow-200' : 'text-gray-300'}`}
+                                                >
+                                                    {value}
+                                                </td>
+                                            ))}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            );
+                        })}
+                    </table>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,49 @@
+import type { ConformanceReport } from '../services/geminiBridge';
+
+interface ConformanceReportPanelProps {
+    report: ConformanceReport;
+}
+
+const VERDICT_STYLES: Record<ConformanceReport['verdict'], { icon: string; className: string }> = {
+    CONFORMS: { icon: '✅', className: 'text-green-400' },
+    OVERRIDDEN: { icon: '⚠️', className: 'text-yellow-400' },
+    REJECTED: { icon: '❌', className: 'text-red-400' },
+};
+
+export default function ConformanceReportPanel({ report }: ConformanceReportPanelProps) {
+    const verdict = VERDICT_STYLES[report.verdict];
+    const deviation = report.score_deviation * 100;
+
+    return (
+        <div className="mt-3 pt-3 border-t border-gray-700 text-xs space-y-1">
+            <div className="flex justify-between">
+                <span className="text-gray-400">Conformance Audit:</span>
+                <span className={`font-bold ${verdict.className}`}>
+                    {verdict.icon} {report.verdict}
+                </span>
+            </div>
+            <div className="flex justify-between text-gray-500">
+                <span>Model vs engine score</span>
+                <span className="font-mono">
+                    {(report.model_efficiency_score * 100).toFixed(1)}% / {(report.engine_efficiency_score * 100).toFixed(1)}%
+                    {' '}({deviation >= 0 ? '+' : ''}{deviation.toFixed(1)}%)
+                </span>
+            </div>
+            {report.findings.length > 0 && (
+                <ul className="space-y-1">
+                    {report.findings.map((finding, i) => (
+                        <li key={i} className="ml-2">
+                            <span className={finding.severity === 'HARD' ? 'text-red-400' : 'text-yellow-400'}>
+                                {finding.check}
+                            </span>
+                            <span className="text-gray-500">
+                                {' '}— expected {finding.expected}, got {finding.actual}
+                            </span>
+                            <span className="text-gray-400"> → {finding.resolution}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
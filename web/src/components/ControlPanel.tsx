@@ -1,17 +1,50 @@
 import { useState } from 'react';
-import type { PlasticType } from '../services/geminiBridge';
+import {
+    MAX_TOKENS_LIMIT,
+    SITE_KIND_LABELS,
+    WATER_BODY_LABELS,
+    WATER_BODY_SITE_CONTEXT,
+    searchSites,
+    type ClimatologyEstimate,
+    type RemediationSite,
+    type SiteKind,
+} from '@core';
+import type { BioAgentConfig, ChassisType, PlasticComposition, PlasticType, SiteContext, ToxinPanel, WaterBodyType, WaterQuality } from '../services/geminiBridge';
 
 interface ControlPanelProps {
     salinity: number;
-    plasticType: PlasticType;
+    composition: PlasticComposition;
     stressSignal: boolean;
+    waterQuality: WaterQuality;
+    expectedChassis: ChassisType;
+    siteContext: SiteContext;
+
+    /** Water at the target; some kinds imply site flags (coastal and estuary: coastal_zone) */
+    waterBody?: WaterBodyType;
+
+    /** Climatological salinity and temperature at the target (none on land) */
+    climatology?: ClimatologyEstimate;
     isLiveMode: boolean;
+    agentConfig?: BioAgentConfig;
     onSalinityChange: (value: number) => void;
-    onPlasticTypeChange: (value: PlasticType) => void;
+    onCompositionChange: (value: PlasticComposition) => void;
     onStressSignalChange: (value: boolean) => void;
-    onResetLocation: () => void;
+    onWaterQualityChange: (value: WaterQuality) => void;
+    onApplyClimatology: (field: 'salinity' | 'temperature_c') => void;
+    onSiteContextChange: (value: SiteContext) => void;
+    onAgentConfigChange: (value: BioAgentConfig) => void;
+
+    /** Gazetteer site the target lies in, if any */
+    selectedSiteId?: string;
+    onSelectSite: (site: RemediationSite) => void;
 }
 
+const SITE_KIND_ICONS: Record<SiteKind, string> = {
+    GYRE: '🌀',
+    RIVER_MOUTH: '🏞️',
+    HARBOUR: '⚓',
+};
+
 const PLASTIC_TYPES: { value: PlasticType; label: string; icon: string }[] = [
     { value: 'PET', label: 'PET (Bottles)', icon: '🍶' },
     { value: 'HDPE', label: 'HDPE (Pipes)', icon: '🔧' },
@@ -21,17 +54,103 @@ const PLASTIC_TYPES: { value: PlasticType; label: string; icon: string }[] = [
     { value: 'PS', label: 'PS (Foam)', icon: '🧊' },
 ];
 
+const WATER_QUALITY_SLIDERS: {
+    key: 'temperature_c' | 'ph' | 'depth_m' | 'dissolved_oxygen_mg_l';
+    label: string;
+    unit: string;
+    min: number;
+    max: number;
+    step: number;
+}[] = [
+    { key: 'temperature_c', label: 'Temperature', unit: '°C', min: -2, max: 40, step: 0.5 },
+    { key: 'ph', label: 'pH', unit: '', min: 4, max: 10, step: 0.1 },
+    { key: 'depth_m', label: 'Depth', unit: 'm', min: 0, max: 1000, step: 5 },
+    { key: 'dissolved_oxygen_mg_l', label: 'Dissolved O₂', unit: 'mg/L', min: 0, max: 14, step: 0.1 },
+];
+
+const TOXIN_FIELDS: { key: keyof ToxinPanel; label: string; unit: string }[] = [
+    { key: 'lead_ug_l', label: 'Lead', unit: 'µg/L' },
+    { key: 'mercury_ug_l', label: 'Mercury', unit: 'µg/L' },
+    { key: 'cadmium_ug_l', label: 'Cadmium', unit: 'µg/L' },
+    { key: 'copper_ug_l', label: 'Copper', unit: 'µg/L' },
+    { key: 'hydrocarbons_mg_l', label: 'Hydrocarbons', unit: 'mg/L' },
+];
+
+const CHASSIS_HINTS: Partial<Record<ChassisType, { icon: string; text: string; className: string }>> = {
+    Halophilic: { icon: '🧬', text: 'Halophilic chassis required (Lee et al. 2025)', className: 'text-cyan-400' },
+    Thermophilic: { icon: '⚠️', text: 'Thermophilic chassis recommended for stress conditions', className: 'text-orange-400' },
+    Psychrophilic: { icon: '❄️', text: 'Psychrophilic chassis selected for cold water', className: 'text-sky-300' },
+};
+
+const SITE_CONTEXT_OPTIONS: { key: keyof SiteContext; label: string; lock: string }[] = [
+    { key: 'near_urban_water_supply', label: 'Near urban water supply', lock: 'Auxotrophic' },
+    { key: 'temperature_extremes', label: 'Temperature extremes', lock: 'Temperature_Sensitive' },
+    { key: 'coastal_zone', label: 'Coastal / tidal zone', lock: 'Light_Activated' },
+];
+
+/**
+ * Where a value came from: the climatology, or a manual override with the estimate to go back to
+ */
+function ClimatologyNote({ value, estimate, source, unit, onApply }: {
+    value?: number;
+    estimate: number;
+    source: string;
+    unit: string;
+    onApply: () => void;
+}) {
+    if (value === estimate) {
+        return (
+            <div className="text-xs text-gray-500" title="Annual-mean approximation; replace it with a measurement when you have one">
+                📚 Climatology · {source}
+            </div>
+        );
+    }
+    return (
+        <div className="text-xs text-gray-500 flex items-center gap-1">
+            <span title={source}>✏️ Override · climatology {estimate} {unit}</span>
+            <button onClick={onApply} className="text-cyan-400 hover:text-cyan-300 transition-colors">use</button>
+        </div>
+    );
+}
+
 export default function ControlPanel({
     salinity,
-    plasticType,
+    composition,
     stressSignal,
+    waterQuality,
+    expectedChassis,
+    siteContext,
+    waterBody,
+    climatology,
     isLiveMode,
+    agentConfig,
     onSalinityChange,
-    onPlasticTypeChange,
+    onCompositionChange,
     onStressSignalChange,
-    onResetLocation,
+    onWaterQualityChange,
+    onApplyClimatology,
+    onSiteContextChange,
+    onAgentConfigChange,
+    selectedSiteId,
+    onSelectSite,
 }: ControlPanelProps) {
     const [isExpanded, setIsExpanded] = useState(true);
+    const [showToxins, setShowToxins] = useState(false);
+    const [siteQuery, setSiteQuery] = useState('');
+    const matchingSites = searchSites(siteQuery);
+    const chassisHint = CHASSIS_HINTS[expectedChassis];
+    const impliedContext = waterBody ? WATER_BODY_SITE_CONTEXT[waterBody] : {};
+    const compositionTotal = PLASTIC_TYPES.reduce((sum, type) => sum + (composition[type.value] ?? 0), 0);
+
+    const updateToxin = (key: keyof ToxinPanel, value: string) => {
+        const toxins = { ...waterQuality.toxins };
+        if (value === '') {
+            delete toxins[key];
+        } else {
+            toxins[key] = parseFloat(value);
+        }
+        onWaterQualityChange({ ...waterQuality, toxins });
+    };
 
     // Determine salinity category for visual feedback
     const salinityCategory = salinity > 35 ? 'high' : salinity > 20 ? 'medium' : 'low';
@@ -54,7 +173,7 @@ export default function ControlPanel({
 
             {/* Control Panel */}
             {isExpanded && (
-                <div className="glass rounded-xl p-4 w-72 space-y-4 animate-slideIn">
+                <div className="glass rounded-xl p-4 w-72 space-y-4 animate-slideIn max-h-[calc(100vh-6rem)] overflow-y-auto">
                     {/* API Status */}
                     <div className="flex items-center justify-between pb-3 border-b border-white/10">
                         <span className="text-xs text-gray-400 uppercase tracking-wider">Mode</span>
@@ -66,6 +185,37 @@ export default function ControlPanel({
                         </span>
                     </div>
 
+                    {/* Site Gazetteer */}
+                    <div className="space-y-2">
+                        <label className="text-sm text-gray-300">📍 Known Sites</label>
+                        <input
+                            type="search"
+                            value={siteQuery}
+                            onChange={(e) => setSiteQuery(e.target.value)}
+                            placeholder="Search gyres, river mouths, harbours…"
+                            className="w-full px-2 py-1 rounded bg-white/5 text-gray-200 text-xs border border-white/10"
+                        />
+                        <div className="max-h-36 overflow-y-auto space-y-1">
+                            {matchingSites.map((site) => (
+                                <button
+                                    key={site.id}
+                                    onClick={() => onSelectSite(site)}
+                                    title={`${SITE_KIND_LABELS[site.kind]} · typical mix ${Object.entries(site.composition).map(([type, share]) => `${type} ${share}%`).join(', ')}`}
+                                    className={`w-full text-left px-2 py-1 rounded text-xs transition-colors ${site.id === selectedSiteId
+                                            ? 'bg-cyan-500/20 text-cyan-300'
+                                            : 'text-gray-300 hover:bg-white/10'
+                                        }`}
+                                >
+                                    {SITE_KIND_ICONS[site.kind]} {site.name}
+                                    <span className="text-gray-500"> · {site.region}</span>
+                                </button>
+                            ))}
+                            {matchingSites.length === 0 && (
+                                <div className="text-xs text-gray-500 px-2">No site matches "{siteQuery}"</div>
+                            )}
+                        </div>
+                    </div>
+
                     {/* Salinity Slider */}
                     <div className="space-y-2">
                         <div className="flex items-center justify-between">
@@ -88,39 +238,119 @@ export default function ControlPanel({
                             <span className="text-cyan-500">Ocean (35+)</span>
                             <span>Hypersaline (50)</span>
                         </div>
-                        {salinity > 35 && (
-                            <div className="text-xs text-cyan-400 flex items-center gap-1">
-                                <span>🧬</span>
-                                <span>Halophilic chassis required (Lee et al. 2025)</span>
+                        {climatology && (
+                            <ClimatologyNote
+                                value={salinity}
+                                estimate={climatology.salinity}
+                                source={climatology.source}
+                                unit="ppt"
+                                onApply={() => onApplyClimatology('salinity')}
+                            />
+                        )}
+                    </div>
+
+                    {/* Water Quality (LOGIC.md §1.1 measured stressors) */}
+                    <div className="space-y-2">
+                        <label className="text-sm text-gray-300">Water Quality</label>
+                        {WATER_QUALITY_SLIDERS.map((slider) => (
+                            <div key={slider.key} className="space-y-1">
+                                <div className="flex items-center justify-between text-xs">
+                                    <span className="text-gray-400">{slider.label}</span>
+                                    <span className="font-mono text-gray-200">
+                                        {waterQuality[slider.key] ?? '—'} {slider.unit}
+                                    </span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min={slider.min}
+                                    max={slider.max}
+                                    step={slider.step}
+                                    value={waterQuality[slider.key] ?? slider.min}
+                                    onChange={(e) => onWaterQualityChange({ ...waterQuality, [slider.key]: parseFloat(e.target.value) })}
+                                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                                />
+                                {slider.key === 'temperature_c' && climatology && (
+                                    <ClimatologyNote
+                                        value={waterQuality.temperature_c}
+                                        estimate={climatology.temperature_c}
+                                        source={climatology.source}
+                                        unit={slider.unit}
+                                        onApply={() => onApplyClimatology('temperature_c')}
+                                    />
+                                )}
+                            </div>
+                        ))}
+
+                        {/* Toxin Panel */}
+                        <button
+                            onClick={() => setShowToxins(!showToxins)}
+                            className="text-xs text-gray-400 hover:text-gray-200 transition-colors"
+                        >
+                            {showToxins ? '▾' : '▸'} Toxin panel ({Object.keys(waterQuality.toxins ?? {}).length} measured)
+                        </button>
+                        {showToxins && (
+                            <div className="grid grid-cols-2 gap-2">
+                                {TOXIN_FIELDS.map((field) => (
+                                    <label key={field.key} className="text-xs text-gray-500">
+                                        {field.label} ({field.unit})
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="any"
+                                            value={waterQuality.toxins?.[field.key] ?? ''}
+                                            onChange={(e) => updateToxin(field.key, e.target.value)}
+                                            className="w-full mt-0.5 px-2 py-1 rounded bg-white/5 text-gray-200 font-mono border border-white/10"
+                                        />
+                                    </label>
+                                ))}
                             </div>
                         )}
                     </div>
 
-                    {/* Plastic Type Selector */}
+                    {/* Plastic Composition (LOGIC.md §1.4 mixed sites) */}
                     <div className="space-y-2">
-                        <label className="text-sm text-gray-300">Plastic Type</label>
-                        <div className="grid grid-cols-2 gap-2">
-                            {PLASTIC_TYPES.map((type) => (
-                                <button
-                                    key={type.value}
-                                    onClick={() => onPlasticTypeChange(type.value)}
-                                    className={`px-3 py-2 rounded-lg text-xs font-medium transition-all ${plasticType === type.value
-                                            ? 'bg-cyan-500/30 text-cyan-300 border border-cyan-500/50'
-                                            : 'bg-white/5 text-gray-400 border border-transparent hover:bg-white/10'
-                                        }`}
-                                >
-                                    <span className="mr-1">{type.icon}</span>
-                                    {type.value}
-                                </button>
-                            ))}
+                        <div className="flex items-center justify-between">
+                            <label className="text-sm text-gray-300">Plastic Composition</label>
+                            {compositionTotal > 0 && Object.values(composition).filter((share) => (share ?? 0) > 0).length > 1 && (
+                                <span className="text-xs text-cyan-400">🧪 Cocktail</span>
+                            )}
                         </div>
+                        {PLASTIC_TYPES.map((type) => {
+                            const share = composition[type.value] ?? 0;
+                            return (
+                                <div key={type.value} className="flex items-center gap-2 text-xs">
+                                    <span className="w-14 text-gray-400" title={type.label}>
+                                        <span className="mr-1">{type.icon}</span>
+                                        {type.value}
+                                    </span>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="100"
+                                        step="5"
+                                        value={share}
+                                        onChange={(e) => onCompositionChange({ ...composition, [type.value]: parseFloat(e.target.value) })}
+                                        className="flex-1 h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                                    />
+                                    <span className={`w-9 text-right font-mono ${share > 0 ? 'text-cyan-300' : 'text-gray-600'}`}>
+                                        {compositionTotal > 0 ? Math.round((share / compositionTotal) * 100) : 0}%
+                                    </span>
+                                </div>
+                            );
+                        })}
+                        {compositionTotal === 0 && (
+                            <div className="text-xs text-red-400 flex items-center gap-1">
+                                <span>⚠️</span>
+                                <span>Add at least one polymer to deploy</span>
+                            </div>
+                        )}
                     </div>
 
                     {/* Stress Signal Toggle */}
                     <div className="flex items-center justify-between py-2">
                         <div>
-                            <label className="text-sm text-gray-300">Environmental Stress</label>
-                            <p className="text-xs text-gray-500">Hostile conditions detected</p>
+                            <label className="text-sm text-gray-300">Reported Stress</label>
+                            <p className="text-xs text-gray-500">Other hostile conditions observed</p>
                         </div>
                         <button
                             onClick={() => onStressSignalChange(!stressSignal)}
@@ -133,21 +363,81 @@ export default function ControlPanel({
                             />
                         </button>
                     </div>
-                    {stressSignal && (
-                        <div className="text-xs text-orange-400 flex items-center gap-1 -mt-2">
-                            <span>⚠️</span>
-                            <span>Thermophilic chassis recommended for stress conditions</span>
+                    {chassisHint && (
+                        <div className={`text-xs ${chassisHint.className} flex items-center gap-1 -mt-2`}>
+                            <span>{chassisHint.icon}</span>
+                            <span>{chassisHint.text}</span>
                         </div>
                     )}
 
-                    {/* Reset Location Button */}
-                    <button
-                        onClick={onResetLocation}
-                        className="w-full py-2 px-4 rounded-lg bg-white/5 text-gray-300 text-sm hover:bg-white/10 transition-colors flex items-center justify-center gap-2"
-                    >
-                        <span>📍</span>
-                        <span>Reset to Pacific Garbage Patch</span>
-                    </button>
+                    {/* Site Context (LOGIC.md §2.2 additional safety locks) */}
+                    <div className="space-y-2">
+                        <label className="text-sm text-gray-300">Site Context</label>
+                        {SITE_CONTEXT_OPTIONS.map((option) => (
+                            <label key={option.key} className="flex items-start gap-2 text-xs text-gray-400 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={!!siteContext[option.key] || !!impliedContext[option.key]}
+                                    disabled={!!impliedContext[option.key]}
+                                    onChange={(e) => onSiteContextChange({ ...siteContext, [option.key]: e.target.checked })}
+                                    className="mt-0.5 accent-cyan-500"
+                                />
+                                <span>
+                                    {option.label}
+                                    <span className="block text-gray-500">
+                                        + {option.lock} lock
+                                        {waterBody && impliedContext[option.key] && ` (${WATER_BODY_LABELS[waterBody].toLowerCase()} target)`}
+                                    </span>
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+
+                    {/* Model Settings (BioAgentConfig for LIVE calls) */}
+                    {agentConfig && (
+                        <div className="space-y-2">
+                            <label className="text-sm text-gray-300">Model Settings</label>
+                            <label className="block text-xs text-gray-500">
+                                Model
+                                <input
+                                    type="text"
+                                    value={agentConfig.model}
+                                    onChange={(e) => onAgentConfigChange({ ...agentConfig, model: e.target.value })}
+                                    className="w-full mt-0.5 px-2 py-1 rounded bg-white/5 text-gray-200 font-mono border border-white/10"
+                                />
+                            </label>
+                            <div className="space-y-1">
+                                <div className="flex items-center justify-between text-xs">
+                                    <span className="text-gray-400">Temperature</span>
+                                    <span className="font-mono text-gray-200">{agentConfig.temperature.toFixed(2)}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="1"
+                                    step="0.05"
+                                    value={agentConfig.temperature}
+                                    onChange={(e) => onAgentConfigChange({ ...agentConfig, temperature: parseFloat(e.target.value) })}
+                                    className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer slider"
+                                />
+                            </div>
+                            <label className="block text-xs text-gray-500">
+                                Max tokens
+                                <input
+                                    type="number"
+                                    min="1"
+                                    max={MAX_TOKENS_LIMIT}
+                                    step="128"
+                                    value={agentConfig.max_tokens}
+                                    onChange={(e) => onAgentConfigChange({
+                                        ...agentConfig,
+                                        max_tokens: Math.min(MAX_TOKENS_LIMIT, Math.max(1, Math.round(Number(e.target.value)) || 1)),
+                                    })}
+                                    className="w-full mt-0.5 px-2 py-1 rounded bg-white/5 text-gray-200 font-mono border border-white/10"
+                                />
+                            </label>
+                        </div>
+                    )}
                 </div>
             )}
         </div>
@@ -1,17 +1,54 @@
-import type { CommitteeBioAgentResponse } from '../services/geminiBridge';
+import type { DeploymentRecord } from '../services/geminiBridge';
+import type { DeploymentQuery, GeoBounds } from '../services/deploymentStore';
+import { FailureBadge } from './FailureNotice';
+import HistoryFilterBar from './HistoryFilterBar';
 
 interface DeploymentHistoryProps {
-    deployments: CommitteeBioAgentResponse[];
-    onSelectDeployment: (deployment: CommitteeBioAgentResponse) => void;
-    selectedIndex: number | null;
+    records: DeploymentRecord[];
+
+    /** Records matching the query, across all pages */
+    total: number;
+
+    /** Records stored, matching or not */
+    stored: number;
+    query: DeploymentQuery;
+    visibleBounds: GeoBounds;
+
+    /** Index of the first record shown */
+    offset: number;
+    pageSize: number;
+    selectedId: string | null;
+
+    /** Ids ticked for comparison (may include records on other pages) */
+    comparedIds: string[];
+    onSelectDeployment: (record: DeploymentRecord) => void;
+    onDeleteDeployment: (record: DeploymentRecord) => void;
+    onPageChange: (offset: number) => void;
+    onQueryChange: (query: DeploymentQuery) => void;
+    onToggleCompare: (record: DeploymentRecord) => void;
+    onCompare: () => void;
+    onClearCompare: () => void;
 }
 
 export default function DeploymentHistory({
-    deployments,
+    records,
+    total,
+    stored,
+    query,
+    visibleBounds,
+    offset,
+    pageSize,
+    selectedId,
+    comparedIds,
     onSelectDeployment,
-    selectedIndex,
+    onDeleteDeployment,
+    onPageChange,
+    onQueryChange,
+    onToggleCompare,
+    onCompare,
+    onClearCompare,
 }: DeploymentHistoryProps) {
-    if (deployments.length === 0) {
+    if (stored === 0) {
         return null;
     }
 
@@ -20,12 +57,34 @@ export default function DeploymentHistory({
             <div className="glass rounded-xl p-3">
                 <h3 className="text-xs text-gray-400 uppercase tracking-wider mb-2 flex items-center gap-2">
                     <span>📜</span>
-                    <span>Deployment History ({deployments.length})</span>
+                    <span>Deployment History ({total === stored ? total : `${total} of ${stored}`})</span>
                 </h3>
 
+                {/* Comparison selection */}
+                {comparedIds.length > 0 && (
+                    <div className="flex items-center justify-between mb-2 text-xs">
+                        <button
+                            onClick={onCompare}
+                            disabled={comparedIds.length < 2}
+                            className="px-2 py-1 rounded bg-cyan-500/20 text-cyan-400 hover:bg-cyan-500/30 disabled:opacity-40 transition-colors"
+                        >
+                            ⚖️ Compare ({comparedIds.length})
+                        </button>
+                        <button onClick={onClearCompare} className="text-gray-400 hover:text-white transition-colors">
+                            Clear selection
+                        </button>
+                    </div>
+                )}
+
+                <HistoryFilterBar query={query} onQueryChange={onQueryChange} visibleBounds={visibleBounds} />
+
                 <div className="space-y-2 max-h-48 overflow-y-auto">
-                    {deployments.map((deployment, index) => {
-                        const isSelected = selectedIndex === index;
+                    {total === 0 && (
+                        <div className="text-xs text-gray-500">No deployments match these filters.</div>
+                    )}
+                    {records.map((record) => {
+                        const deployment = record.response;
+                        const isSelected = selectedId === record.id;
                         const efficiency = deployment.data?.predicted_efficiency_score ?? 0;
                         const efficiencyColor = efficiency >= 0.8
                             ? 'bg-green-500'
@@ -34,23 +93,46 @@ export default function DeploymentHistory({
                                 : 'bg-red-500';
 
                         return (
-                            <button
-                                key={index}
-                                onClick={() => onSelectDeployment(deployment)}
-                                className={`w-full p-2 rounded-lg text-left transition-all ${isSelected
+                            <div
+                                key={record.id}
+                                role="button"
+                                tabIndex={0}
+                                onClick={() => onSelectDeployment(record)}
+                                onKeyDown={(e) => e.key === 'Enter' && onSelectDeployment(record)}
+                                className={`w-full p-2 rounded-lg text-left transition-all cursor-pointer ${isSelected
                                         ? 'bg-cyan-500/20 border border-cyan-500/50'
                                         : 'bg-white/5 hover:bg-white/10 border border-transparent'
                                     }`}
                             >
                                 <div className="flex items-center justify-between">
-                                    <span className="text-sm text-white font-mono truncate max-w-[140px]">
-                                        {deployment.data?.enzyme_name ?? 'Failed'}
+                                    <span className="flex items-center gap-2 min-w-0">
+                                        <input
+                                            type="checkbox"
+                                            checked={comparedIds.includes(record.id)}
+                                            onClick={(e) => e.stopPropagation()}
+                                            onChange={() => onToggleCompare(record)}
+                                            className="accent-cyan-500"
+                                            title="Select for comparison"
+                                        />
+                                        <span className="text-sm text-white font-mono truncate max-w-[120px]">
+                                            {deployment.data?.enzyme_name ?? 'Failed'}
+                                        </span>
                                     </span>
                                     <div className="flex items-center gap-1">
                                         <div className={`w-2 h-2 rounded-full ${efficiencyColor}`} />
                                         <span className="text-xs text-gray-400">
                                             {(efficiency * 100).toFixed(0)}%
                                         </span>
+                                        <button
+                                            onClick={(e) => {
+                                                e.stopPropagation();
+                                                onDeleteDeployment(record);
+                                            }}
+                                            className="ml-1 text-xs text-gray-500 hover:text-red-400 transition-colors"
+                                            title="Delete deployment"
+                                        >
+                                            ✕
+                                        </button>
                                     </div>
                                 </div>
                                 <div className="flex items-center gap-2 mt-1">
@@ -64,10 +146,42 @@ export default function DeploymentHistory({
                                         {deployment.data?.chassis_type}
                                     </span>
                                 </div>
-                            </button>
+                                <div className="text-xs text-gray-500 mt-1 font-mono">
+                                    {record.input.lat.toFixed(2)}°, {record.input.lng.toFixed(2)}° · {new Date(record.created_at).toLocaleString()}
+                                </div>
+                                {/* Why the run failed, or why LIVE fell back to the simulation */}
+                                {(deployment.failure || deployment.fallback) && (
+                                    <div className="mt-1">
+                                        {deployment.failure
+                                            ? <FailureBadge failure={deployment.failure} />
+                                            : deployment.fallback && <FailureBadge failure={deployment.fallback} degraded />}
+                                    </div>
+                                )}
+                            </div>
                         );
                     })}
                 </div>
+
+                {/* Paging */}
+                {total > pageSize && (
+                    <div className="flex items-center justify-between mt-2 text-xs text-gray-400">
+                        <button
+                            onClick={() => onPageChange(Math.max(0, offset - pageSize))}
+                            disabled={offset === 0}
+                            className="px-2 hover:text-white disabled:opacity-30 transition-colors"
+                        >
+                            ‹ Prev
+                        </button>
+                        <span>{offset + 1}–{Math.min(offset + pageSize, total)} of {total}</span>
+                        <button
+                            onClick={() => onPageChange(offset + pageSize)}
+                            disabled={offset + pageSize >= total}
+                            className="px-2 hover:text-white disabled:opacity-30 transition-colors"
+                        >
+                            Next ›
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,53 @@
+import { FAILURE_LABELS } from '@core';
+import type { DebateFailure, FailureCategory } from '../services/geminiBridge';
+
+interface FailureNoticeProps {
+    failure: DebateFailure;
+
+    /** The run succeeded on the simulation after the LIVE committee failed */
+    degraded?: boolean;
+}
+
+const CATEGORY_ICONS: Record<FailureCategory, string> = {
+    AUTH: '🔑',
+    QUOTA: '📉',
+    NETWORK: '📡',
+    PROVIDER: '🛰️',
+    PARSE: '🧩',
+    VALIDATION: '📋',
+    SAFETY_REJECTION: '🛡️',
+    CONFORMANCE_REJECTION: '📐',
+    CANCELLED: '⏹️',
+    TIMED_OUT: '⏱️',
+    INTERNAL: '🐞',
+};
+
+/**
+ * Compact category tag, e.g. for deployment history rows
+ */
+export function FailureBadge({ failure, degraded = false }: FailureNoticeProps) {
+    return (
+        <span
+            title={failure.message}
+            className={`text-xs px-1.5 py-0.5 rounded ${degraded ? 'bg-yellow-500/20 text-yellow-400' : 'bg-red-500/20 text-red-400'}`}
+        >
+            {CATEGORY_ICONS[failure.category]} {FAILURE_LABELS[failure.category]}
+        </span>
+    );
+}
+
+export default function FailureNotice({ failure, degraded = false }: FailureNoticeProps) {
+    return (
+        <div className={`text-sm mb-2 ${degraded ? 'text-yellow-400' : 'text-red-400'}`}>
+            <div className="font-bold">
+                {CATEGORY_ICONS[failure.category]} {degraded ? 'LIVE committee failed, simulated instead' : FAILURE_LABELS[failure.category]}
+            </div>
+            <div className="text-xs">
+                {degraded && `${FAILURE_LABELS[failure.category]}: `}{failure.message}
+            </div>
+            {failure.cause && (
+                <div className="text-xs text-gray-500 break-words">Cause: {failure.cause}</div>
+            )}
+        </div>
+    );
+}
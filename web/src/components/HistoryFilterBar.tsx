@@ -0,0 +1,178 @@
+import { useState } from 'react';
+import { CHASSIS_TYPES, PLASTIC_TYPES } from '@core';
+import type { ChassisType, PlasticType } from '../services/geminiBridge';
+import { invertedRanges, type DeploymentQuery, type DeploymentSort, type GeoBounds } from '../services/deploymentStore';
+
+interface HistoryFilterBarProps {
+    query: DeploymentQuery;
+    onQueryChange: (query: DeploymentQuery) => void;
+
+    /** Area currently shown on the map, for the "visible area" filter */
+    visibleBounds: GeoBounds;
+}
+
+const SORT_OPTIONS: { value: DeploymentSort; label: string }[] = [
+    { value: 'newest', label: 'Newest first' },
+    { value: 'oldest', label: 'Oldest first' },
+    { value: 'efficiency_desc', label: 'Highest efficiency' },
+    { value: 'efficiency_asc', label: 'Lowest efficiency' },
+];
+
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-cyan-500/50';
+
+/** ISO timestamp → local YYYY-MM-DD for a date input */
+function toDateInput(iso: string | undefined): string {
+    if (!iso) return '';
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Local day from a date input → its first or last instant as ISO */
+function fromDateInput(value: string, endOfDay: boolean): string | undefined {
+    return value ? new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`).toISOString() : undefined;
+}
+
+/** Percent field → 0.0 - 1.0 (empty clears the bound) */
+function fromPercentInput(value: string): number | undefined {
+    return value === '' ? undefined : Math.min(100, Math.max(0, Number(value))) / 100;
+}
+
+export default function HistoryFilterBar({ query, onQueryChange, visibleBounds }: HistoryFilterBarProps) {
+    const [expanded, setExpanded] = useState(false);
+    const update = (changes: Partial<DeploymentQuery>) => onQueryChange({ ...query, ...changes });
+    const inverted = invertedRanges(query);
+    const activeFilters = Object.entries(query).filter(([key, value]) => key !== 'sort' && key !== 'text' && value !== undefined).length;
+
+    return (
+        <div className="mb-2 space-y-2">
+            <div className="flex gap-2">
+                <input
+                    type="search"
+                    value={query.text ?? ''}
+                    onChange={(e) => update({ text: e.target.value || undefined })}
+                    placeholder="Search enzyme or rationale"
+                    className={inputClass}
+                />
+                <button
+                    onClick={() => setExpanded(!expanded)}
+                    className={`text-xs px-2 rounded whitespace-nowrap transition-colors ${activeFilters > 0
+                            ? 'bg-cyan-500/20 text-cyan-400'
+                            : 'bg-white/5 text-gray-400 hover:text-white'
+                        }`}
+                >
+                    🔍 {activeFilters > 0 ? activeFilters : ''}
+                </button>
+            </div>
+
+            {expanded && (
+                <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
+                    <select
+                        value={query.plasticType ?? ''}
+                        onChange={(e) => update({ plasticType: (e.target.value || undefined) as PlasticType | undefined })}
+                        className={inputClass}
+                    >
+                        <option value="">Any plastic</option>
+                        {PLASTIC_TYPES.map((plastic) => <option key={plastic} value={plastic}>{plastic}</option>)}
+                    </select>
+                    <select
+                        value={query.chassisType ?? ''}
+                        onChange={(e) => update({ chassisType: (e.target.value || undefined) as ChassisType | undefined })}
+                        className={inputClass}
+                    >
+                        <option value="">Any chassis</option>
+                        {CHASSIS_TYPES.map((chassis) => <option key={chassis} value={chassis}>{chassis}</option>)}
+                    </select>
+                    <select
+                        value={query.mode ?? ''}
+                        onChange={(e) => update({ mode: (e.target.value || undefined) as DeploymentQuery['mode'] })}
+                        className={inputClass}
+                    >
+                        <option value="">Any mode</option>
+                        <option value="LIVE">LIVE</option>
+                        <option value="SIMULATION">SIMULATION</option>
+                    </select>
+                    <select
+                        value={query.success === undefined ? '' : String(query.success)}
+                        onChange={(e) => update({ success: e.target.value === '' ? undefined : e.target.value === 'true' })}
+                        className={inputClass}
+                    >
+                        <option value="">Any outcome</option>
+                        <option value="true">Succeeded</option>
+                        <option value="false">Failed</option>
+                    </select>
+
+                    <label className="col-span-2 flex items-center gap-2">
+                        <span className="whitespace-nowrap">Efficiency %</span>
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={query.minEfficiency === undefined ? '' : Math.round(query.minEfficiency * 100)}
+                            onChange={(e) => update({ minEfficiency: fromPercentInput(e.target.value) })}
+                            placeholder="min"
+                            className={inputClass}
+                        />
+                        <input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={query.maxEfficiency === undefined ? '' : Math.round(query.maxEfficiency * 100)}
+                            onChange={(e) => update({ maxEfficiency: fromPercentInput(e.target.value) })}
+                            placeholder="max"
+                            className={inputClass}
+                        />
+                    </label>
+
+                    <label className="flex flex-col gap-1">
+                        From
+                        <input
+                            type="date"
+                            value={toDateInput(query.createdAfter)}
+                            onChange={(e) => update({ createdAfter: fromDateInput(e.target.value, false) })}
+                            className={inputClass}
+                        />
+                    </label>
+                    <label className="flex flex-col gap-1">
+                        To
+                        <input
+                            type="date"
+                            value={toDateInput(query.createdBefore)}
+                            onChange={(e) => update({ createdBefore: fromDateInput(e.target.value, true) })}
+                            className={inputClass}
+                        />
+                    </label>
+                    {inverted.length > 0 && (
+                        <div className="col-span-2 text-yellow-400">
+                            ⚠️ Inverted {inverted.join(' and ')} range: the lower end is above the upper end, so nothing matches
+                        </div>
+                    )}
+
+                    <label className="col-span-2 flex items-center gap-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={query.bounds !== undefined}
+                            onChange={(e) => update({ bounds: e.target.checked ? visibleBounds : undefined })}
+                            className="accent-cyan-500"
+                        />
+                        Within the visible map area
+                    </label>
+
+                    <select
+                        value={query.sort ?? 'newest'}
+                        onChange={(e) => update({ sort: e.target.value as DeploymentSort })}
+                        className={inputClass}
+                    >
+                        {SORT_OPTIONS.map((option) => <option key={option.value} value={option.value}>{option.label}</option>)}
+                    </select>
+                    <button
+                        onClick={() => onQueryChange({ sort: query.sort })}
+                        className="text-xs text-gray-400 hover:text-white transition-colors"
+                    >
+                        Clear filters
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
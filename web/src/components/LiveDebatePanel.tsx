@@ -0,0 +1,62 @@
+import { useEffect, useRef } from 'react';
+import type { AgentRole, MonologueEntry } from '../services/geminiBridge';
+
+interface LiveDebatePanelProps {
+    entries: MonologueEntry[];
+
+    /** Reply currently streaming from a LIVE model call */
+    streaming: { agent: AgentRole; text: string } | null;
+}
+
+const AGENT_STYLES: Record<AgentRole, { icon: string; className: string }> = {
+    ARCHITECT: { icon: '🏗️', className: 'text-cyan-400' },
+    SAFETY_OFFICER: { icon: '🛡️', className: 'text-yellow-400' },
+    SIMULATOR: { icon: '🔬', className: 'text-purple-400' },
+};
+
+export default function LiveDebatePanel({ entries, streaming }: LiveDebatePanelProps) {
+    const scrollRef = useRef<HTMLDivElement>(null);
+
+    // Keep the newest entry in view
+    useEffect(() => {
+        scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+    }, [entries, streaming]);
+
+    return (
+        <div className="glass rounded-xl p-4 shadow-2xl animate-slideIn">
+            <h3 className="text-cyan-400 font-bold flex items-center gap-2 mb-3">
+                <span className="animate-pulse">🧠</span>
+                Committee Debate
+            </h3>
+            <div ref={scrollRef} className="max-h-64 overflow-y-auto text-xs space-y-2">
+                {entries.map((entry, i) => (
+                    <div key={i} className="animate-slideIn">
+                        <span className={AGENT_STYLES[entry.agent].className}>
+                            {AGENT_STYLES[entry.agent].icon} {entry.agent}
+                        </span>
+                        <div className="text-gray-500 ml-5">{entry.thought}</div>
+                        {entry.decision && (
+                            <div className={`ml-5 ${entry.rejected ? 'text-red-400' : 'text-gray-300'}`}>
+                                {entry.rejected ? '❌' : '✅'} {entry.decision}
+                            </div>
+                        )}
+                        {entry.retry_reason && (
+                            <div className="ml-5 text-orange-400">🔄 {entry.retry_reason}</div>
+                        )}
+                    </div>
+                ))}
+                {streaming && (
+                    <div>
+                        <span className={AGENT_STYLES[streaming.agent].className}>
+                            {AGENT_STYLES[streaming.agent].icon} {streaming.agent}
+                        </span>
+                        <pre className="ml-5 text-gray-500 whitespace-pre-wrap font-mono">{streaming.text}▍</pre>
+                    </div>
+                )}
+                {entries.length === 0 && !streaming && (
+                    <div className="text-gray-500">Waiting for the Architect...</div>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -1,15 +1,73 @@
-import { useRef, useEffect, useState, useCallback } from 'react';
-import { geminiBridge, type WaterAnalysis, type PlasticType, type CommitteeBioAgentResponse } from '../services/geminiBridge';
+import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
+import {
+    DEFAULT_SITE,
+    MANDATORY_SAFETY_LOCK,
+    classifyLocation,
+    describeDeploymentTarget,
+    describeLocation,
+    determineChassisType,
+    dominantPlasticType,
+    hasSafetyLock,
+    lookupClimatology,
+    nearestSite,
+    parseSurveyCsv,
+    parseSurveyJsonl,
+    rankCampaign,
+    resolveDeploymentTarget,
+    runBatch,
+    sitesFromSurvey,
+    type CampaignSort,
+    type RemediationSite,
+    type SampleDesigner,
+} from '@core';
+import { geminiBridge, type AgentRole, type BioAgentConfig, type MonologueEntry, type WaterAnalysis, type PlasticComposition, type CommitteeBioAgentResponse, type DeploymentRecord, type SiteContext, type WaterQuality, type CampaignRecord } from '../services/geminiBridge';
+import { campaignStore, deploymentStore, type DeploymentPage, type DeploymentQuery, type GeoBounds } from '../services/deploymentStore';
 import PhysarumCanvas from './PhysarumCanvas';
+import OfflineMap, { type MapMarker } from './OfflineMap';
+import CampaignPanel from './CampaignPanel';
 import ControlPanel from './ControlPanel';
 import DeploymentHistory from './DeploymentHistory';
-
-// Great Pacific Garbage Patch coordinates
-const DEFAULT_LOCATION = {
-    lat: 32.0,
-    lng: -145.0,
+import ConformanceReportPanel from './ConformanceReportPanel';
+import LiveDebatePanel from './LiveDebatePanel';
+import FailureNotice from './FailureNotice';
+import ComparisonView from './ComparisonView';
+import ReplayReportPanel from './ReplayReportPanel';
+import { downloadDossier, openDossierReport } from '../services/dossierExport';
+import { importDesignFile, type DesignImportResult } from '../services/designImport';
+
+// Climatological surface water at the default site
+const DEFAULT_CLIMATOLOGY = lookupClimatology(DEFAULT_SITE.lat, DEFAULT_SITE.lng);
+
+// Typical open-ocean surface water
+const DEFAULT_WATER_QUALITY: WaterQuality = {
+    temperature_c: DEFAULT_CLIMATOLOGY?.temperature_c ?? 18,
+    ph: 8.1,
+    depth_m: 5,
+    dissolved_oxygen_mg_l: 7,
+    toxins: {},
 };
 
+const HISTORY_PAGE_SIZE = 10;
+
+// Until the offline map reports what it shows (Google Maps 3D does not)
+const WHOLE_WORLD: GeoBounds = { south: -90, west: -180, north: 90, east: 180 };
+
+function newCampaign(): CampaignRecord {
+    const now = new Date().toISOString();
+    return { id: crypto.randomUUID(), name: `Campaign ${new Date().toLocaleDateString()}`, created_at: now, updated_at: now, sites: [] };
+}
+
+// The campaign with each designed site's deployment attached (by site index)
+function withDeployments(campaign: CampaignRecord, deployments: Map<number, DeploymentRecord>): CampaignRecord {
+    return {
+        ...campaign,
+        sites: campaign.sites.map((site, index) => {
+            const deployment = deployments.get(index);
+            return deployment ? { ...site, deployment } : site;
+        }),
+    };
+}
+
 interface OceanMapProps {
     apiKey?: string;
 }
@@ -21,14 +79,79 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
     const [isDeploying, setIsDeploying] = useState(false);
     const [deploymentResult, setDeploymentResult] = useState<CommitteeBioAgentResponse | null>(null);
     const [showMonologue, setShowMonologue] = useState(false);
-    const [deploymentHistory, setDeploymentHistory] = useState<CommitteeBioAgentResponse[]>([]);
-    const [selectedHistoryIndex, setSelectedHistoryIndex] = useState<number | null>(null);
+    const [liveEntries, setLiveEntries] = useState<MonologueEntry[]>([]);
+    const [streamingReply, setStreamingReply] = useState<{ agent: AgentRole; text: string } | null>(null);
+    const deploymentAbortRef = useRef<AbortController | null>(null);
+    // Input that produced the result on display (a reopened deployment keeps its own)
+    const [resultInput, setResultInput] = useState<WaterAnalysis | null>(null);
+    // Stored deployment on display, if any (only stored deployments can be exported)
+    const [resultRecord, setResultRecord] = useState<DeploymentRecord | null>(null);
+
+    // Persisted history (IndexedDB), one page at a time
+    const [historyPage, setHistoryPage] = useState<DeploymentPage>({ records: [], total: 0, stored: 0 });
+    const [historyOffset, setHistoryOffset] = useState(0);
+    const [historyQuery, setHistoryQuery] = useState<DeploymentQuery>({});
+    const [selectedDeploymentId, setSelectedDeploymentId] = useState<string | null>(null);
+    const [comparedRecords, setComparedRecords] = useState<DeploymentRecord[]>([]);
+    const [showComparison, setShowComparison] = useState(false);
+
+    // Imported dossier / design replayed under the current rules
+    const [designImport, setDesignImport] = useState<DesignImportResult | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    // Multi-site campaign being planned (null outside campaign mode)
+    const [campaign, setCampaign] = useState<CampaignRecord | null>(null);
+    const [campaignSort, setCampaignSort] = useState<CampaignSort>('efficiency');
+    const [savedCampaigns, setSavedCampaigns] = useState<CampaignRecord[]>([]);
+    const [campaignProgress, setCampaignProgress] = useState<{ finished: number; total: number } | null>(null);
+    const [campaignNotice, setCampaignNotice] = useState<string | null>(null);
+    const campaignAbortRef = useRef<AbortController | null>(null);
 
     // Interactive controls state
-    const [location, setLocation] = useState(DEFAULT_LOCATION);
-    const [salinity, setSalinity] = useState(35.5);
-    const [plasticType, setPlasticType] = useState<PlasticType>('PET');
+    const [location, setLocation] = useState({ lat: DEFAULT_SITE.lat, lng: DEFAULT_SITE.lng });
+    // Why the last picked target was moved or refused (it was on land)
+    const [locationNotice, setLocationNotice] = useState<string | null>(null);
+    const [visibleBounds, setVisibleBounds] = useState<GeoBounds>(WHOLE_WORLD);
+    const [salinity, setSalinity] = useState(DEFAULT_CLIMATOLOGY?.salinity ?? 35.5);
+    const [composition, setComposition] = useState<PlasticComposition>({ ...DEFAULT_SITE.composition });
     const [stressSignal, setStressSignal] = useState(true);
+    const [siteContext, setSiteContext] = useState<SiteContext>({ ...DEFAULT_SITE.site_context });
+    const [waterQuality, setWaterQuality] = useState<WaterQuality>({ ...DEFAULT_WATER_QUALITY, toxins: { ...DEFAULT_SITE.toxins } });
+    const [agentConfig, setAgentConfig] = useState<BioAgentConfig | undefined>(geminiBridge.agentConfig);
+
+    // Water at the target (lake, estuary, coastal or open ocean), or land
+    const targetLocation = useMemo(() => classifyLocation(location.lat, location.lng), [location]);
+    const onLand = targetLocation.surface === 'land';
+    const climatology = useMemo(() => lookupClimatology(location.lat, location.lng), [location]);
+    const nearest = useMemo(() => nearestSite(location.lat, location.lng), [location]);
+
+    // Water analysis from current controls
+    const dominantPlastic = dominantPlasticType(composition);
+    const analysis: WaterAnalysis = useMemo(() => ({
+        lat: location.lat,
+        lng: location.lng,
+        salinity: salinity,
+        plastic_type: dominantPlastic ?? 'PET',
+        composition,
+        stress_signal_bool: stressSignal,
+        ...waterQuality,
+        site_context: siteContext,
+        water_body: targetLocation.surface === 'water' ? targetLocation.water_body : undefined,
+    }), [location, salinity, dominantPlastic, composition, stressSignal, waterQuality, siteContext, targetLocation]);
+    const expectedChassis = determineChassisType(analysis, geminiBridge.ruleSet);
+
+    const campaignRanking = useMemo(
+        () => campaign ? rankCampaign(campaign, campaignSort, geminiBridge.ruleSet) : [],
+        [campaign, campaignSort]
+    );
+    const campaignMarkers: MapMarker[] = useMemo(() => campaign
+        ? campaignRanking.map(site => ({
+            lat: campaign.sites[site.index].input.lat,
+            lng: campaign.sites[site.index].input.lng,
+            label: site.rank ? `#${site.rank} ${site.label}` : site.label,
+            highlighted: site.selected,
+        }))
+        : [], [campaign, campaignRanking]);
 
     // Load Google Maps 3D
     useEffect(() => {
@@ -62,53 +185,78 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
         };
     }, [apiKey, location.lat, location.lng]);
 
-    // Handle map click for location selection
-    const handleMapClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-        if (apiKey) return; // Let Google Maps handle clicks when available
-
-        const rect = e.currentTarget.getBoundingClientRect();
-        const x = e.clientX - rect.left;
-        const y = e.clientY - rect.top;
-
-        // Convert click position to approximate lat/lng
-        // Center is at DEFAULT_LOCATION, with a rough scale
-        const lngRange = 100; // ~100 degrees visible width
-        const latRange = 60;  // ~60 degrees visible height
+    const loadHistoryPage = useCallback(async (offset: number) => {
+        try {
+            setHistoryPage(await deploymentStore.query(historyQuery, offset, HISTORY_PAGE_SIZE));
+            setHistoryOffset(offset);
+        } catch (error) {
+            console.warn('⚠️ Deployment history unavailable:', error);
+        }
+    }, [historyQuery]);
 
-        const newLng = DEFAULT_LOCATION.lng + (x / rect.width - 0.5) * lngRange;
-        const newLat = DEFAULT_LOCATION.lat - (y / rect.height - 0.5) * latRange;
+    useEffect(() => {
+        void loadHistoryPage(0);
+    }, [loadHistoryPage]);
 
-        setLocation({
-            lat: Math.max(-60, Math.min(60, newLat)),
-            lng: Math.max(-180, Math.min(180, newLng)),
-        });
-    }, [apiKey]);
+    // Moving the target zone abandons a deployment for the old one
+    useEffect(() => {
+        deploymentAbortRef.current?.abort();
+    }, [location]);
 
     // Handle Deploy button click
     const handleDeploy = useCallback(async () => {
+        const controller = new AbortController();
+        const startedAt = new Date().toISOString();
+        deploymentAbortRef.current = controller;
         setIsDeploying(true);
         setDeploymentResult(null);
-        setSelectedHistoryIndex(null);
-
-        // Create water analysis from current controls
-        const analysis: WaterAnalysis = {
-            lat: location.lat,
-            lng: location.lng,
-            salinity: salinity,
-            plastic_type: plasticType,
-            stress_signal_bool: stressSignal,
-        };
+        setResultRecord(null);
+        setSelectedDeploymentId(null);
+        setLiveEntries([]);
+        setStreamingReply(null);
 
         console.log('🌊 POLYMER-X: Initiating deployment...');
         console.log('📊 Water Analysis:', analysis);
         console.log('🔧 Mode:', geminiBridge.isLiveMode ? 'LIVE API' : 'SIMULATION');
 
         try {
-            const result = await geminiBridge.runCommitteeDebate(analysis);
+            // Render the debate as it happens
+            let result: CommitteeBioAgentResponse | null = null;
+            for await (const event of geminiBridge.streamCommitteeDebate(analysis, { config: agentConfig, signal: controller.signal })) {
+                if (event.type === 'token') {
+                    setStreamingReply(prev => prev?.agent === event.agent
+                        ? { agent: event.agent, text: prev.text + event.text }
+                        : { agent: event.agent, text: event.text });
+                } else if (event.type === 'entry') {
+                    setStreamingReply(null);
+                    setLiveEntries(prev => [...prev, event.entry]);
+                } else {
+                    result = event.response;
+                }
+            }
+            if (!result) {
+                throw new Error('Committee debate ended without a response');
+            }
             setDeploymentResult(result);
-
-            // Add to history
-            setDeploymentHistory(prev => [result, ...prev].slice(0, 10)); // Keep last 10
+            setResultInput(analysis);
+
+            // Persist to history (cancelled runs are not deployments)
+            if (result.failure?.category !== 'CANCELLED') {
+                try {
+                    const record = await deploymentStore.add({
+                        created_at: startedAt,
+                        input: analysis,
+                        rule_set_version: geminiBridge.ruleSet.version,
+                        ...(result.agent_config && { agent_config: result.agent_config }),
+                        response: result,
+                    });
+                    setSelectedDeploymentId(record.id);
+                    setResultRecord(record);
+                    await loadHistoryPage(0);
+                } catch (error) {
+                    console.warn('⚠️ Deployment not saved to history:', error);
+                }
+            }
 
             // Log the full result
             console.log('');
@@ -138,29 +286,272 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
         } catch (error) {
             console.error('❌ Deployment failed:', error);
         } finally {
+            if (deploymentAbortRef.current === controller) {
+                deploymentAbortRef.current = null;
+            }
+            setStreamingReply(null);
             setIsDeploying(false);
         }
-    }, [location, salinity, plasticType, stressSignal]);
-
-    // Handle selecting a deployment from history
-    const handleSelectDeployment = useCallback((deployment: CommitteeBioAgentResponse) => {
-        const index = deploymentHistory.indexOf(deployment);
-        setSelectedHistoryIndex(index);
-        setDeploymentResult(deployment);
-    }, [deploymentHistory]);
-
-    // Handle reset location
-    const handleResetLocation = useCallback(() => {
-        setLocation(DEFAULT_LOCATION);
+    }, [analysis, agentConfig, loadHistoryPage]);
+
+    // Reopen a deployment from history: its result, and the controls as they were
+    const handleSelectDeployment = useCallback((record: DeploymentRecord) => {
+        if (isDeploying) return;
+
+        const { input } = record;
+        setSelectedDeploymentId(record.id);
+        setDeploymentResult(record.response);
+        setResultInput(input);
+        setResultRecord(record);
+        setLiveEntries([]);
+        setLocation({ lat: input.lat, lng: input.lng });
+        setSalinity(input.salinity);
+        setComposition(input.composition ?? { [input.plastic_type]: 100 });
+        setStressSignal(input.stress_signal_bool);
+        setWaterQuality({
+            temperature_c: input.temperature_c ?? DEFAULT_WATER_QUALITY.temperature_c,
+            ph: input.ph ?? DEFAULT_WATER_QUALITY.ph,
+            depth_m: input.depth_m ?? DEFAULT_WATER_QUALITY.depth_m,
+            dissolved_oxygen_mg_l: input.dissolved_oxygen_mg_l ?? DEFAULT_WATER_QUALITY.dissolved_oxygen_mg_l,
+            toxins: input.toxins ?? {},
+        });
+        setSiteContext(input.site_context ?? {});
+        if (record.agent_config) {
+            setAgentConfig(record.agent_config);
+        }
+    }, [isDeploying]);
+
+    const handleDeleteDeployment = useCallback(async (record: DeploymentRecord) => {
+        try {
+            await deploymentStore.delete(record.id);
+        } catch (error) {
+            console.warn('⚠️ Could not delete deployment:', error);
+            return;
+        }
+        if (record.id === selectedDeploymentId) {
+            setSelectedDeploymentId(null);
+            setDeploymentResult(null);
+            setResultRecord(null);
+        }
+        setComparedRecords(prev => prev.filter(compared => compared.id !== record.id));
+        // Step back a page when the last record of this one was deleted
+        const offset = historyPage.records.length === 1 && historyOffset > 0
+            ? historyOffset - HISTORY_PAGE_SIZE
+            : historyOffset;
+        await loadHistoryPage(offset);
+    }, [selectedDeploymentId, historyPage, historyOffset, loadHistoryPage]);
+
+    const handleExportDossier = useCallback(async (kind: 'json' | 'report') => {
+        if (!resultRecord) return;
+        try {
+            await (kind === 'json' ? downloadDossier(resultRecord) : openDossierReport(resultRecord));
+        } catch (error) {
+            console.warn('⚠️ Dossier export failed:', error);
+        }
+    }, [resultRecord]);
+
+    const handleImportFile = useCallback(async (file: File) => {
+        try {
+            setDesignImport(await importDesignFile(file, analysis, geminiBridge.ruleSet));
+        } catch (error) {
+            console.warn('⚠️ Design import failed:', error);
+        }
+    }, [analysis]);
+
+    const handleOpenImported = useCallback(async (record: DeploymentRecord) => {
+        try {
+            await deploymentStore.put(record);
+        } catch (error) {
+            console.warn('⚠️ Imported deployment not saved to history:', error);
+            return;
+        }
+        setDesignImport(null);
+        handleSelectDeployment(record);
+        await loadHistoryPage(historyOffset);
+    }, [handleSelectDeployment, historyOffset, loadHistoryPage]);
+
+    const handleToggleCompare = useCallback((record: DeploymentRecord) => {
+        setComparedRecords(prev => prev.some(compared => compared.id === record.id)
+            ? prev.filter(compared => compared.id !== record.id)
+            : [...prev, record]);
+    }, []);
+
+    // A picked location brings its climatological salinity and temperature (overridable)
+    const moveTo = useCallback((next: { lat: number; lng: number }) => {
+        setLocation(next);
+        const estimate = lookupClimatology(next.lat, next.lng);
+        if (estimate) {
+            setSalinity(estimate.salinity);
+            setWaterQuality(prev => ({ ...prev, temperature_c: estimate.temperature_c }));
+        }
+    }, []);
+
+    // Only water targets are accepted; a click on land moves to the nearest water
+    const handlePickLocation = useCallback((picked: { lat: number; lng: number }) => {
+        const target = resolveDeploymentTarget(picked.lat, picked.lng);
+        setLocationNotice(describeDeploymentTarget(target) ?? null);
+        if (target.status !== 'land') {
+            moveTo({ lat: target.lat, lng: target.lng });
+        }
+    }, [moveTo]);
+
+    // A gazetteer site brings its typical contamination profile along
+    const handleSelectSite = useCallback((site: RemediationSite) => {
+        moveTo({ lat: site.lat, lng: site.lng });
+        setLocationNotice(null);
+        setComposition({ ...site.composition });
+        setSiteContext({ ...site.site_context });
+        setWaterQuality(prev => ({ ...prev, toxins: { ...site.toxins } }));
+    }, [moveTo]);
+
+    const handleApplyClimatology = useCallback((field: 'salinity' | 'temperature_c') => {
+        if (!climatology) return;
+        if (field === 'salinity') {
+            setSalinity(climatology.salinity);
+        } else {
+            setWaterQuality(prev => ({ ...prev, temperature_c: climatology.temperature_c }));
+        }
+    }, [climatology]);
+
+    // =========================================================================
+    // Campaigns
+    // =========================================================================
+
+    const loadSavedCampaigns = useCallback(async () => {
+        try {
+            setSavedCampaigns(await campaignStore.list());
+        } catch (error) {
+            console.warn('⚠️ Saved campaigns unavailable:', error);
+        }
+    }, []);
+
+    const handleOpenCampaignMode = useCallback(() => {
+        setCampaign(newCampaign());
+        setCampaignNotice(null);
+        void loadSavedCampaigns();
+    }, [loadSavedCampaigns]);
+
+    const handleCloseCampaignMode = useCallback(() => {
+        campaignAbortRef.current?.abort();
+        setCampaign(null);
+    }, []);
+
+    // The current target, with the control panel's settings, becomes a site
+    const handleAddCampaignSite = useCallback(() => {
+        const label = nearest.inside
+            ? nearest.site.name
+            : `${location.lat.toFixed(2)}°, ${location.lng.toFixed(2)}°`;
+        setCampaign(prev => prev && { ...prev, sites: [...prev.sites, { label, input: analysis }] });
+    }, [analysis, location, nearest]);
+
+    const handleImportCampaignSites = useCallback(async (file: File) => {
+        let text: string;
+        try {
+            text = await file.text();
+        } catch (error) {
+            console.warn('⚠️ Campaign import failed:', error);
+            return;
+        }
+        const samples = /\.jsonl?$/i.test(file.name) ? parseSurveyJsonl(text) : parseSurveyCsv(text);
+        const { sites, issues } = sitesFromSurvey(samples);
+        setCampaign(prev => prev && { ...prev, sites: [...prev.sites, ...sites] });
+        setCampaignNotice(`Imported ${sites.length} sites from ${file.name}` + (issues.length > 0
+            ? `; skipped ${issues.length} (${issues[0]}${issues.length > 1 ? ', …' : ''})`
+            : ''));
     }, []);
 
+    const handleSaveCampaign = useCallback(async (toSave: CampaignRecord) => {
+        const saved = { ...toSave, updated_at: new Date().toISOString() };
+        setCampaign(prev => prev?.id === saved.id ? saved : prev);
+        try {
+            await campaignStore.put(saved);
+        } catch (error) {
+            console.warn('⚠️ Campaign not saved:', error);
+            return false;
+        }
+        await loadSavedCampaigns();
+        return true;
+    }, [loadSavedCampaigns]);
+
+    // Designs every site not designed yet; each deployment also goes to the history
+    const handleRunCampaign = useCallback(async () => {
+        if (!campaign) return;
+
+        const controller = new AbortController();
+        campaignAbortRef.current = controller;
+        const pending = campaign.sites.flatMap((site, index) => site.deployment ? [] : [index]);
+        // A sample's line is its site's position + 1
+        const samples = pending.map(index => ({
+            line: index + 1,
+            sample_id: campaign.sites[index].label,
+            input: campaign.sites[index].input,
+            issues: [],
+        }));
+        const deployments = new Map<number, DeploymentRecord>();
+        setCampaignProgress({ finished: 0, total: pending.length });
+        setCampaignNotice(null);
+
+        const design: SampleDesigner = async (input, signal, sample) => {
+            const startedAt = new Date().toISOString();
+            const response = await geminiBridge.runCommitteeDebate(input, { config: agentConfig, signal });
+            if (response.failure?.category === 'CANCELLED') {
+                return response;
+            }
+            const index = sample.line - 1;
+
+            const entry = {
+                created_at: startedAt,
+                input,
+                rule_set_version: geminiBridge.ruleSet.version,
+                ...(response.agent_config && { agent_config: response.agent_config }),
+                response,
+            };
+            let record: DeploymentRecord;
+            try {
+                record = await deploymentStore.add(entry);
+            } catch (error) {
+                console.warn('⚠️ Campaign deployment not saved to history:', error);
+                record = { id: crypto.randomUUID(), ...entry };
+            }
+            deployments.set(index, record);
+            setCampaign(prev => prev?.id === campaign.id ? withDeployments(prev, deployments) : prev);
+            return response;
+        };
+
+        try {
+            await runBatch(samples, design, {
+                ruleSet: geminiBridge.ruleSet,
+                signal: controller.signal,
+                onResult: (_, finished) => setCampaignProgress({ finished, total: pending.length }),
+            });
+            const saved = await handleSaveCampaign(withDeployments(campaign, deployments));
+            setCampaignNotice(`${controller.signal.aborted ? 'Cancelled: designed' : 'Designed'} ${deployments.size} of ${pending.length} sites` +
+                (saved ? '; campaign saved' : '; campaign not saved'));
+            await loadHistoryPage(0);
+        } finally {
+            if (campaignAbortRef.current === controller) {
+                campaignAbortRef.current = null;
+            }
+            setCampaignProgress(null);
+        }
+    }, [campaign, agentConfig, handleSaveCampaign, loadHistoryPage]);
+
+    const handleDeleteCampaign = useCallback(async (saved: CampaignRecord) => {
+        try {
+            await campaignStore.delete(saved.id);
+        } catch (error) {
+            console.warn('⚠️ Could not delete campaign:', error);
+            return;
+        }
+        await loadSavedCampaigns();
+    }, [loadSavedCampaigns]);
+
     return (
         <div className="relative w-full h-full">
             {/* Google Maps 3D Container - or fallback ocean gradient */}
             <div
                 ref={mapContainerRef}
-                className="absolute inset-0 cursor-crosshair"
-                onClick={handleMapClick}
+                className="absolute inset-0"
                 style={{
                     background: apiKey
                         ? '#0a0a1a'
@@ -177,26 +568,12 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
                             }} />
                         </div>
 
-                        {/* Click instruction */}
-                        <div className="absolute top-20 left-1/2 -translate-x-1/2 text-center">
-                            <div className="glass rounded-lg px-4 py-2 text-xs text-gray-400">
-                                Click anywhere to set deployment location
-                            </div>
-                        </div>
-
-                        {/* Location marker */}
-                        <div
-                            className="absolute w-8 h-8 -ml-4 -mt-4 pointer-events-none"
-                            style={{
-                                left: `${50 + (location.lng - DEFAULT_LOCATION.lng) / 100 * 100}%`,
-                                top: `${50 - (location.lat - DEFAULT_LOCATION.lat) / 60 * 100}%`,
-                            }}
-                        >
-                            <div className="w-full h-full relative">
-                                <div className="absolute inset-0 bg-cyan-500/30 rounded-full animate-ping" />
-                                <div className="absolute inset-2 bg-cyan-500 rounded-full shadow-lg shadow-cyan-500/50" />
-                            </div>
-                        </div>
+                        <OfflineMap
+                            location={location}
+                            onLocationPick={handlePickLocation}
+                            markers={campaignMarkers}
+                            onBoundsChange={setVisibleBounds}
+                        />
                     </>
                 )}
             </div>
@@ -204,7 +581,7 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
             {/* Physarum Slime Mold Overlay */}
             <PhysarumCanvas
                 isActive={!!deploymentResult?.success}
-                safetyLockEnabled={deploymentResult?.data?.safety_lock_type === 'Quorum_Sensing_Type_B'}
+                safetyLockEnabled={hasSafetyLock(deploymentResult?.data?.safety_locks, MANDATORY_SAFETY_LOCK)}
                 centerX={typeof window !== 'undefined' ? window.innerWidth / 2 : 500}
                 centerY={typeof window !== 'undefined' ? window.innerHeight / 2 : 400}
             />
@@ -212,34 +589,98 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
             {/* Control Panel */}
             <ControlPanel
                 salinity={salinity}
-                plasticType={plasticType}
+                composition={composition}
                 stressSignal={stressSignal}
+                waterQuality={waterQuality}
+                expectedChassis={expectedChassis}
+                siteContext={siteContext}
+                waterBody={analysis.water_body}
+                climatology={climatology}
                 isLiveMode={geminiBridge.isLiveMode}
+                agentConfig={agentConfig}
                 onSalinityChange={setSalinity}
-                onPlasticTypeChange={setPlasticType}
+                onCompositionChange={setComposition}
                 onStressSignalChange={setStressSignal}
-                onResetLocation={handleResetLocation}
+                onWaterQualityChange={setWaterQuality}
+                onApplyClimatology={handleApplyClimatology}
+                onSiteContextChange={setSiteContext}
+                onAgentConfigChange={setAgentConfig}
+                selectedSiteId={nearest.inside ? nearest.site.id : undefined}
+                onSelectSite={handleSelectSite}
             />
 
             {/* Deployment History */}
             <DeploymentHistory
-                deployments={deploymentHistory}
+                records={historyPage.records}
+                total={historyPage.total}
+                stored={historyPage.stored}
+                query={historyQuery}
+                visibleBounds={visibleBounds}
+                offset={historyOffset}
+                pageSize={HISTORY_PAGE_SIZE}
+                selectedId={selectedDeploymentId}
                 onSelectDeployment={handleSelectDeployment}
-                selectedIndex={selectedHistoryIndex}
+                onDeleteDeployment={handleDeleteDeployment}
+                onPageChange={loadHistoryPage}
+                onQueryChange={setHistoryQuery}
+                comparedIds={comparedRecords.map(record => record.id)}
+                onToggleCompare={handleToggleCompare}
+                onCompare={() => setShowComparison(true)}
+                onClearCompare={() => setComparedRecords([])}
             />
 
+            {/* Multi-site campaign */}
+            {campaign && (
+                <CampaignPanel
+                    campaign={campaign}
+                    ranking={campaignRanking}
+                    sort={campaignSort}
+                    savedCampaigns={savedCampaigns}
+                    isRunning={campaignProgress !== null}
+                    progress={campaignProgress ?? undefined}
+                    notice={campaignNotice}
+                    canAddTarget={!onLand && !!dominantPlastic}
+                    onCampaignChange={setCampaign}
+                    onSortChange={setCampaignSort}
+                    onAddTarget={handleAddCampaignSite}
+                    onImportFile={handleImportCampaignSites}
+                    onRun={handleRunCampaign}
+                    onCancel={() => campaignAbortRef.current?.abort()}
+                    onSave={async () => setCampaignNotice(await handleSaveCampaign(campaign) ? 'Campaign saved' : 'Could not save the campaign')}
+                    onOpenSite={(index) => {
+                        const deployment = campaign.sites[index].deployment;
+                        if (deployment) handleSelectDeployment(deployment);
+                    }}
+                    onOpenCampaign={(saved) => {
+                        setCampaign(saved);
+                        setCampaignNotice(null);
+                    }}
+                    onDeleteCampaign={handleDeleteCampaign}
+                    onNewCampaign={() => {
+                        setCampaign(newCampaign());
+                        setCampaignNotice(null);
+                    }}
+                    onClose={handleCloseCampaignMode}
+                />
+            )}
+
+            {/* Side-by-side comparison of the ticked deployments */}
+            {showComparison && comparedRecords.length >= 2 && (
+                <ComparisonView records={comparedRecords} onClose={() => setShowComparison(false)} />
+            )}
+
             {/* Deploy Button Overlay */}
-            <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 pointer-events-none">
                 <button
                     onClick={handleDeploy}
-                    disabled={isDeploying}
+                    disabled={isDeploying || !dominantPlastic || onLand}
                     className={`
             pointer-events-auto
             px-8 py-4 rounded-xl
             font-bold text-lg uppercase tracking-wider
             transition-all duration-300
-            ${isDeploying
-                            ? 'bg-gray-700 text-gray-400 cursor-wait'
+            ${isDeploying || !dominantPlastic || onLand
+                            ? `bg-gray-700 text-gray-400 ${isDeploying ? 'cursor-wait' : 'cursor-not-allowed'}`
                             : 'bg-gradient-to-r from-cyan-500 to-blue-600 text-white hover:from-cyan-400 hover:to-blue-500 pulse-glow cursor-pointer'
                         }
           `}
@@ -250,14 +691,67 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
                                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
                                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z" />
                             </svg>
-                            {geminiBridge.isLiveMode ? 'Consulting Gemini...' : 'Committee Debating...'}
+                            {geminiBridge.isLiveMode ? `Consulting ${geminiBridge.providerName} · ${agentConfig?.model}...` : 'Committee Debating...'}
                         </span>
                     ) : (
                         '🧬 DEPLOY POLYMER-X'
                     )}
                 </button>
+                {isDeploying && (
+                    <button
+                        onClick={() => deploymentAbortRef.current?.abort()}
+                        className="pointer-events-auto px-4 py-2 rounded-lg glass text-sm text-gray-300 hover:text-white hover:bg-white/10 transition-colors"
+                    >
+                        ⏹️ Cancel
+                    </button>
+                )}
+                {!isDeploying && !campaign && (
+                    <button
+                        onClick={handleOpenCampaignMode}
+                        className="pointer-events-auto px-4 py-2 rounded-lg glass text-sm text-gray-300 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Plan several sites at once and rank their designs"
+                    >
+                        🗺️ Plan Campaign
+                    </button>
+                )}
+                {!isDeploying && (
+                    <button
+                        onClick={() => importInputRef.current?.click()}
+                        className="pointer-events-auto px-4 py-2 rounded-lg glass text-sm text-gray-300 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Replay an exported dossier or EnzymeDesign JSON through the current rules"
+                    >
+                        📥 Import Design
+                    </button>
+                )}
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) handleImportFile(file);
+                    }}
+                />
             </div>
 
+            {/* Replay of an imported design under the current rules */}
+            {designImport && (
+                <ReplayReportPanel
+                    result={designImport}
+                    onOpenInHistory={handleOpenImported}
+                    onClose={() => setDesignImport(null)}
+                />
+            )}
+
+            {/* Live Debate (streams while the committee deliberates) */}
+            {isDeploying && !deploymentResult && (
+                <div className="absolute bottom-4 right-4 md:w-96 z-10">
+                    <LiveDebatePanel entries={liveEntries} streaming={streamingReply} />
+                </div>
+            )}
+
             {/* Result Panel */}
             {deploymentResult && (
                 <div className="absolute bottom-4 right-4 md:w-96 z-10">
@@ -265,7 +759,7 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
                         <div className="flex items-center justify-between mb-3">
                             <h3 className="text-cyan-400 font-bold flex items-center gap-2">
                                 {deploymentResult.success ? '✅' : '❌'}
-                                {deploymentResult.success ? 'Deployment Ready' : 'Deployment Failed'}
+                                {deploymentResult.success ? 'Deployment Ready' : deploymentResult.failure?.category === 'CANCELLED' ? 'Deployment Cancelled' : 'Deployment Failed'}
                             </h3>
                             <div className="flex items-center gap-2">
                                 <span className={`text-xs px-2 py-0.5 rounded ${deploymentResult.mode === 'LIVE'
@@ -280,9 +774,38 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
                                 >
                                     {showMonologue ? 'Hide' : 'Show'} Debate
                                 </button>
+                                {resultRecord && (
+                                    <>
+                                        <button
+                                            onClick={() => handleExportDossier('json')}
+                                            className="text-xs text-gray-400 hover:text-white transition-colors"
+                                            title="Download the design dossier (JSON with content hash)"
+                                        >
+                                            ⬇️ Dossier
+                                        </button>
+                                        <button
+                                            onClick={() => handleExportDossier('report')}
+                                            className="text-xs text-gray-400 hover:text-white transition-colors"
+                                            title="Open the printable report (print or save as PDF)"
+                                        >
+                                            🖨️ Report
+                                        </button>
+                                    </>
+                                )}
                             </div>
                         </div>
 
+                        {deploymentResult.failure ? (
+                            <FailureNotice failure={deploymentResult.failure} />
+                        ) : deploymentResult.error && (
+                            <div className="text-sm text-red-400 mb-2">{deploymentResult.error}</div>
+                        )}
+
+                        {/* Why a LIVE run was degraded to the simulation */}
+                        {deploymentResult.fallback && (
+                            <FailureNotice failure={deploymentResult.fallback} degraded />
+                        )}
+
                         {deploymentResult.data && (
                             <div className="space-y-2 text-sm">
                                 <div className="flex justify-between">
@@ -297,27 +820,72 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
                                         {(deploymentResult.data.predicted_efficiency_score * 100).toFixed(1)}%
                                     </span>
                                 </div>
-                                <div className="flex justify-between">
-                                    <span className="text-gray-400">Safety Lock:</span>
-                                    <span className={`${deploymentResult.data.safety_lock_type === 'Quorum_Sensing_Type_B'
-                                        ? 'text-green-400' : 'text-red-400'
-                                        }`}>
-                                        {deploymentResult.data.safety_lock_type === 'Quorum_Sensing_Type_B' ? '🔒 Active' : '⚠️ Missing'}
-                                    </span>
+                                <div>
+                                    <div className="flex justify-between">
+                                        <span className="text-gray-400">Safety Locks:</span>
+                                        <span className={hasSafetyLock(deploymentResult.data.safety_locks, MANDATORY_SAFETY_LOCK)
+                                            ? 'text-green-400' : 'text-red-400'
+                                        }>
+                                            {hasSafetyLock(deploymentResult.data.safety_locks, MANDATORY_SAFETY_LOCK)
+                                                ? `🔒 ${deploymentResult.data.safety_locks.length} Active`
+                                                : `⚠️ ${MANDATORY_SAFETY_LOCK} Missing`}
+                                        </span>
+                                    </div>
+                                    <ul className="mt-1 space-y-1">
+                                        {deploymentResult.data.safety_locks.map((lock) => (
+                                            <li key={lock.type} className="text-xs ml-2">
+                                                <span className="text-green-400 font-mono">{lock.type}</span>
+                                                <span className="text-gray-500"> — {lock.rule}</span>
+                                            </li>
+                                        ))}
+                                    </ul>
                                 </div>
+                                {deploymentResult.data.cocktail && (
+                                    <div>
+                                        <span className="text-gray-400">Cocktail:</span>
+                                        <ul className="mt-1 space-y-1">
+                                            {deploymentResult.data.cocktail.map((component) => (
+                                                <li key={component.plastic_type} className="text-xs ml-2 flex justify-between gap-2">
+                                                    <span>
+                                                        <span className="text-cyan-300 font-mono">{component.plastic_type}</span>
+                                                        <span className="text-gray-500"> {(component.fraction * 100).toFixed(0)}% · {component.enzyme_name}</span>
+                                                    </span>
+                                                    <span className="text-gray-300">{(component.predicted_efficiency_score * 100).toFixed(1)}%</span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
                                 <div className="flex justify-between">
                                     <span className="text-gray-400">Chassis:</span>
                                     <span className="text-purple-400">{deploymentResult.data.chassis_type}</span>
                                 </div>
+                                <div className="flex justify-between">
+                                    <span className="text-gray-400">Rule Set:</span>
+                                    <span className="text-gray-300 font-mono text-xs">v{deploymentResult.data.rule_set_version}</span>
+                                </div>
+                                {deploymentResult.agent_config && (
+                                    <div className="flex justify-between">
+                                        <span className="text-gray-400">Model:</span>
+                                        <span className="text-gray-300 font-mono text-xs">
+                                            {deploymentResult.agent_config.model} · T{deploymentResult.agent_config.temperature} · {deploymentResult.agent_config.max_tokens} tok
+                                        </span>
+                                    </div>
+                                )}
                                 <div className="flex justify-between">
                                     <span className="text-gray-400">Location:</span>
                                     <span className="text-gray-300 font-mono text-xs">
-                                        {location.lat.toFixed(2)}°, {location.lng.toFixed(2)}°
+                                        {(resultInput ?? analysis).lat.toFixed(2)}°, {(resultInput ?? analysis).lng.toFixed(2)}°
                                     </span>
                                 </div>
                             </div>
                         )}
 
+                        {/* Conformance audit of LIVE designs */}
+                        {deploymentResult.conformance && (
+                            <ConformanceReportPanel report={deploymentResult.conformance} />
+                        )}
+
                         {/* Internal Monologue (expandable) */}
                         {showMonologue && deploymentResult.internal_monologue && (
                             <div className="mt-4 pt-4 border-t border-gray-700 max-h-48 overflow-y-auto text-xs">
@@ -346,18 +914,27 @@ export default function OceanMap({ apiKey }: OceanMapProps) {
             <div className="absolute top-4 left-4 glass rounded-lg px-4 py-2 z-10">
                 <div className="text-xs text-gray-400">TARGET ZONE</div>
                 <div className="text-cyan-400 font-mono text-sm">
-                    {location.lat === DEFAULT_LOCATION.lat && location.lng === DEFAULT_LOCATION.lng
-                        ? 'Great Pacific Garbage Patch'
-                        : 'Custom Location'}
+                    {nearest.inside ? nearest.site.name : 'Custom Location'}
                 </div>
+                {!nearest.inside && (
+                    <div className="text-xs text-gray-400">
+                        📍 Nearest site: {nearest.site.name}, {nearest.distance_km.toLocaleString()} km
+                    </div>
+                )}
                 <div className="text-xs text-gray-500">
                     {location.lat.toFixed(2)}°{location.lat >= 0 ? 'N' : 'S'}, {Math.abs(location.lng).toFixed(2)}°{location.lng >= 0 ? 'E' : 'W'}
                 </div>
+                <div className={`text-xs ${onLand ? 'text-red-400' : 'text-gray-400'}`}>
+                    {onLand ? '⛰️' : '🌊'} {describeLocation(targetLocation)}
+                </div>
+                {locationNotice && (
+                    <div className="text-xs text-yellow-400 max-w-xs mt-1">⚠️ {locationNotice}</div>
+                )}
             </div>
 
             {/* Version Badge */}
             <div className="fixed bottom-4 right-4 glass rounded-lg px-3 py-1.5 text-xs text-gray-400 z-10">
-                POLYMER-X v0.3 • {geminiBridge.isLiveMode ? '🔑 Live' : '🧪 Sim'} Mode
+                POLYMER-X v0.3 • Rules v{geminiBridge.ruleSet.version} • {geminiBridge.isLiveMode ? '🔑 Live' : '🧪 Sim'} Mode
             </div>
         </div>
     );
@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { LANDMASSES } from '@core';
+import type { GeoBounds } from '../services/deploymentStore';
+import {
+    MAX_ZOOM,
+    WORLD_SIZE,
+    constrainViewport,
+    fromScreen,
+    panBy,
+    project,
+    ringPath,
+    toScreen,
+    visibleBounds,
+    worldOrigin,
+    worldWidth,
+    zoomAt,
+    type GeoPoint,
+    type MapViewport,
+} from '../services/mapProjection';
+
+export interface MapMarker extends GeoPoint {
+    label: string;
+
+    /** Drawn brighter (a campaign site within budget) */
+    highlighted?: boolean;
+}
+
+interface OfflineMapProps {
+    location: GeoPoint;
+    onLocationPick: (location: GeoPoint) => void;
+
+    /** Extra points to show besides the target, e.g. a campaign's sites */
+    markers?: MapMarker[];
+
+    /** Reports the area on screen after every pan, zoom or resize */
+    onBoundsChange: (bounds: GeoBounds) => void;
+}
+
+const INITIAL_ZOOM = 2;
+
+// Pointer travel (px) below which a press counts as a click rather than a drag
+const CLICK_TOLERANCE = 4;
+
+// Coastlines and graticule in world pixels at zoom 0, scaled on screen
+const LAND_PATHS = LANDMASSES.map(landmass => ({ name: landmass.name, path: ringPath(landmass.ring) }));
+const MERIDIANS = Array.from({ length: 13 }, (_, i) => (i * 30) / 360 * WORLD_SIZE);
+const PARALLELS = [-60, -30, 0, 30, 60].map(lat => project({ lat, lng: 0 }).y);
+
+export default function OfflineMap({ location, onLocationPick, markers = [], onBoundsChange }: OfflineMapProps) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<{ x: number; y: number; moved: number } | null>(null);
+    const [isDragging, setIsDragging] = useState(false);
+    const [view, setView] = useState<MapViewport>({ center: location, zoom: INITIAL_ZOOM, width: 0, height: 0 });
+
+    // Bring a location set elsewhere (reset, reopened deployment) into view
+    const [shownLocation, setShownLocation] = useState(location);
+    if (shownLocation !== location) {
+        setShownLocation(location);
+        const marker = toScreen(location, view);
+        if (marker.x < 0 || marker.x > view.width || marker.y < 0 || marker.y > view.height) {
+            setView(constrainViewport({ ...view, center: location }));
+        }
+    }
+
+    // Track the element size
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const observer = new ResizeObserver(([entry]) => {
+            const { width, height } = entry.contentRect;
+            setView(prev => constrainViewport({ ...prev, width, height }));
+        });
+        observer.observe(container);
+        return () => observer.disconnect();
+    }, []);
+
+    // Wheel zoom needs a non-passive listener to keep the page from scrolling
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            const rect = container.getBoundingClientRect();
+            const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+            setView(prev => zoomAt(prev, prev.zoom - e.deltaY / 500, anchor));
+        };
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    useEffect(() => {
+        if (view.width > 0) {
+            onBoundsChange(visibleBounds(view));
+        }
+    }, [view, onBoundsChange]);
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (e.button !== 0) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        dragRef.current = { x: e.clientX, y: e.clientY, moved: 0 };
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        if (!drag) return;
+
+        const dx = e.clientX - drag.x;
+        const dy = e.clientY - drag.y;
+        drag.x = e.clientX;
+        drag.y = e.clientY;
+        drag.moved += Math.abs(dx) + Math.abs(dy);
+        if (drag.moved > CLICK_TOLERANCE) {
+            setIsDragging(true);
+            setView(prev => panBy(prev, dx, dy));
+        }
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        setIsDragging(false);
+        if (!drag || drag.moved > CLICK_TOLERANCE) return;
+
+        const rect = e.currentTarget.getBoundingClientRect();
+        onLocationPick(fromScreen({ x: e.clientX - rect.left, y: e.clientY - rect.top }, view));
+    };
+
+    const zoomBy = (delta: number) => {
+        setView(prev => zoomAt(prev, prev.zoom + delta, { x: prev.width / 2, y: prev.height / 2 }));
+    };
+
+    // Horizontal copies of the world needed to cover the element
+    const origin = worldOrigin(view);
+    const size = worldWidth(view.zoom);
+    const copies = useMemo(() => {
+        const first = Math.floor(-origin.x / size);
+        const last = Math.floor((view.width - origin.x) / size);
+        return Array.from({ length: Math.max(0, last - first + 1) }, (_, i) => first + i);
+    }, [origin.x, size, view.width]);
+
+    const marker = toScreen(location, view);
+
+    return (
+        <div
+            ref={containerRef}
+            className={`absolute inset-0 touch-none select-none ${isDragging ? 'cursor-grabbing' : 'cursor-crosshair'}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => { dragRef.current = null; setIsDragging(false); }}
+        >
+            <svg className="absolute inset-0 w-full h-full" aria-hidden="true">
+                {copies.map((copy) => (
+                    <g key={copy} transform={`translate(${origin.x + copy * size} ${origin.y}) scale(${2 ** view.zoom})`}>
+                        {MERIDIANS.map((x) => (
+                            <line key={`m${x}`} x1={x} y1={0} x2={x} y2={WORLD_SIZE}
+                                stroke="rgba(0, 212, 255, 0.08)" vectorEffect="non-scaling-stroke" />
+                        ))}
+                        {PARALLELS.map((y) => (
+                            <line key={`p${y}`} x1={0} y1={y} x2={WORLD_SIZE} y2={y}
+                                stroke="rgba(0, 212, 255, 0.08)" vectorEffect="non-scaling-stroke" />
+                        ))}
+                        {LAND_PATHS.map((land) => (
+                            <path key={land.name} d={land.path}
+                                fill="rgba(30, 58, 76, 0.9)" stroke="rgba(0, 212, 255, 0.35)"
+                                strokeWidth={1} vectorEffect="non-scaling-stroke" />
+                        ))}
+                    </g>
+                ))}
+            </svg>
+
+            {/* Click instruction */}
+            <div className="absolute top-20 left-1/2 -translate-x-1/2 text-center pointer-events-none">
+                <div className="glass rounded-lg px-4 py-2 text-xs text-gray-400">
+                    Click to set deployment location · drag to pan · scroll to zoom
+                </div>
+            </div>
+
+            {/* Extra markers */}
+            {markers.map((marker, i) => {
+                const point = toScreen(marker, view);
+                return (
+                    <div
+                        key={`${i}-${marker.label}`}
+                        className="absolute flex items-center gap-1 -ml-1.5 -mt-1.5 pointer-events-none"
+                        style={{ left: point.x, top: point.y }}
+                    >
+                        <div className={`w-3 h-3 rounded-full border ${marker.highlighted
+                                ? 'bg-green-400 border-green-200 shadow-lg shadow-green-500/50'
+                                : 'bg-gray-400/60 border-gray-300/60'
+                            }`} />
+                        <span className={`text-[10px] whitespace-nowrap ${marker.highlighted ? 'text-green-300' : 'text-gray-400'}`}>
+                            {marker.label}
+                        </span>
+                    </div>
+                );
+            })}
+
+            {/* Location marker */}
+            <div
+                className="absolute w-8 h-8 -ml-4 -mt-4 pointer-events-none"
+                style={{ left: marker.x, top: marker.y }}
+            >
+                <div className="w-full h-full relative">
+                    <div className="absolute inset-0 bg-cyan-500/30 rounded-full animate-ping" />
+                    <div className="absolute inset-2 bg-cyan-500 rounded-full shadow-lg shadow-cyan-500/50" />
+                </div>
+            </div>
+
+            {/* Zoom controls */}
+            <div
+                className="absolute top-28 left-4 z-10 glass rounded-lg flex flex-col text-gray-300 text-sm"
+                onPointerDown={(e) => e.stopPropagation()}
+                onPointerUp={(e) => e.stopPropagation()}
+            >
+                <button onClick={() => zoomBy(1)} disabled={view.zoom >= MAX_ZOOM}
+                    className="px-2.5 py-1 hover:text-cyan-400 disabled:opacity-40 transition-colors" title="Zoom in">+</button>
+                <button onClick={() => zoomBy(-1)}
+                    className="px-2.5 py-1 hover:text-cyan-400 transition-colors border-t border-white/10" title="Zoom out">−</button>
+                <button onClick={() => setView(prev => constrainViewport({ ...prev, center: location, zoom: INITIAL_ZOOM }))}
+                    className="px-2.5 py-1 hover:text-cyan-400 transition-colors border-t border-white/10" title="Center on the target">⌖</button>
+            </div>
+        </div>
+    );
+}
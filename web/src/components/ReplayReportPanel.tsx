@@ -0,0 +1,125 @@
+import type { DesignImportResult } from '../services/designImport';
+import type { DeploymentRecord, ReplayDifference } from '../services/geminiBridge';
+
+interface ReplayReportPanelProps {
+    result: DesignImportResult;
+
+    /** Saves an imported dossier's deployment to the history and reopens it */
+    onOpenInHistory: (record: DeploymentRecord) => void;
+    onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ReplayDifference['field'], string> = {
+    outcome: 'Outcome',
+    chassis_type: 'Chassis',
+    enzyme_name: 'Enzyme',
+    mutation_list: 'Mutations',
+    safety_locks: 'Safety locks',
+    predicted_efficiency_score: 'Efficiency',
+    cocktail: 'Cocktail',
+};
+
+export default function ReplayReportPanel({ result, onOpenInHistory, onClose }: ReplayReportPanelProps) {
+    const dossier = result.status === 'replayed' && result.imported.kind === 'dossier' ? result.imported.dossier : undefined;
+
+    return (
+        <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+            <div
+                className="glass rounded-xl p-4 shadow-2xl animate-slideIn w-full max-w-3xl max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-cyan-400 font-bold flex items-center gap-2 min-w-0">
+                        <span>🔁</span>
+                        <span className="truncate">Replay of {result.fileName}</span>
+                        {result.status === 'replayed' && (
+                            <span className={`text-xs px-2 py-0.5 rounded font-normal ${result.report.verdict === 'UNCHANGED'
+                                    ? 'bg-green-500/20 text-green-400'
+                                    : 'bg-yellow-500/20 text-yellow-400'
+                                }`}>
+                                {result.report.verdict}
+                            </span>
+                        )}
+                    </h3>
+                    <button onClick={onClose} className="text-xs text-gray-400 hover:text-white transition-colors">✕ Close</button>
+                </div>
+
+                {result.status === 'invalid' ? (
+                    <div className="text-sm overflow-auto">
+                        <div className="text-red-400 mb-2">Not a valid dossier or EnzymeDesign:</div>
+                        <ul className="text-xs text-gray-300 font-mono space-y-1">
+                            {result.issues.map((issue) => <li key={issue}>- {issue}</li>)}
+                        </ul>
+                    </div>
+                ) : (
+                    <div className="text-sm space-y-3 overflow-auto">
+                        {/* Where the design and its input came from */}
+                        {dossier ? (
+                            <div className="space-y-1">
+                                <div className="text-gray-300">
+                                    Dossier exported {new Date(dossier.exported_at).toLocaleString()} ·{' '}
+                                    {dossier.deployment.response.mode} deployment of{' '}
+                                    {new Date(dossier.deployment.created_at).toLocaleString()}
+                                </div>
+                                {result.verification?.valid ? (
+                                    <div className="text-xs text-green-400">✅ Content hash verified</div>
+                                ) : (
+                                    <div className="text-xs text-red-400">
+                                        ❌ Content hash mismatch: the dossier was modified after export
+                                        <div className="font-mono text-gray-500 break-all mt-1">
+                                            recorded {result.verification?.expected}<br />
+                                            content {result.verification?.actual}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        ) : (
+                            <div className="text-gray-300">
+                                Plain EnzymeDesign - no input recorded, replayed on the current controls
+                                ({result.input.lat.toFixed(2)}°, {result.input.lng.toFixed(2)}°, {result.input.salinity} ppt)
+                            </div>
+                        )}
+
+                        <div className="text-xs text-gray-400">
+                            {result.report.stored_rule_set_version && <>Designed under rules v{result.report.stored_rule_set_version} · </>}
+                            Replayed under rules v{result.report.current_rule_set_version}
+                        </div>
+
+                        {result.report.differences.length === 0 ? (
+                            <div className="text-green-400">✅ The current rules reproduce the stored design.</div>
+                        ) : (
+                            <table className="w-full border-collapse text-xs">
+                                <thead>
+                                    <tr className="text-gray-500">
+                                        <th className="text-left font-normal p-2 w-28" />
+                                        <th className="text-left font-normal p-2">Stored</th>
+                                        <th className="text-left font-normal p-2">Current rules</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {result.report.differences.map((difference) => (
+                                        <tr key={difference.field} className="border-t border-white/5">
+                                            <td className="p-2 align-top text-yellow-400">{FIELD_LABELS[difference.field]}</td>
+                                            <td className="p-2 align-top text-gray-300">{difference.stored}</td>
+                                            <td className="p-2 align-top bg-yellow-500/10 text-yellow-200">{difference.current}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+
+                        {/* Only an intact dossier goes into the history */}
+                        {dossier && result.verification?.valid && (
+                            <button
+                                onClick={() => onOpenInHistory(dossier.deployment)}
+                                className="px-3 py-1.5 rounded bg-cyan-500/20 text-cyan-400 text-xs hover:bg-cyan-500/30 transition-colors"
+                            >
+                                📜 Open in history
+                            </button>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
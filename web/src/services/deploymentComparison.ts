@@ -0,0 +1,188 @@
+/**
+ * Polymer-X: Deployment Comparison
+ *
+ * Lines up two or more stored deployments field by field - inputs, design,
+ * efficiency modifiers and the committee's decisions - and marks the fields
+ * whose values differ, to answer "why did this site score lower than that one?"
+ */
+
+import {
+    FAILURE_LABELS,
+    TOXIN_KEYS,
+    WATER_BODY_LABELS,
+    explainEfficiencyScore,
+    getRuleSet,
+    normalizeComposition,
+    type EfficiencyTerm,
+} from '@core';
+import type { DeploymentRecord, SiteContext } from './geminiBridge';
+
+export interface ComparisonRow {
+    label: string;
+
+    /** One value per deployment, in the order they were given */
+    values: string[];
+    differs: boolean;
+}
+
+export interface ComparisonSection {
+    title: string;
+    rows: ComparisonRow[];
+}
+
+const MODIFIER_LABELS: Record<EfficiencyTerm['modifier'], string> = {
+    base: 'Base',
+    chassis_salinity_match_bonus: 'Chassis/salinity match',
+    favorable_conditions_bonus: 'Favorable conditions',
+    mesophilic_stress_penalty: 'Mesophilic under stress',
+    stressor_penalty: 'Measured stressors',
+    thermal_mismatch_penalty: 'Thermal mismatch',
+    per_mutation_bonus: 'Mutations',
+};
+
+const SITE_CONTEXT_LABELS: Record<keyof SiteContext, string> = {
+    near_urban_water_supply: 'Near urban water supply',
+    temperature_extremes: 'Temperature extremes',
+    coastal_zone: 'Coastal zone',
+};
+
+const NONE = '—';
+
+function row(label: string, values: string[]): ComparisonRow {
+    return { label, values, differs: values.some(value => value !== values[0]) };
+}
+
+function formatNumber(value: number | undefined, unit = ''): string {
+    return value === undefined ? NONE : `${value}${unit}`;
+}
+
+function formatPercent(score: number | undefined): string {
+    return score === undefined ? NONE : `${(score * 100).toFixed(1)}%`;
+}
+
+function formatDelta(delta: number): string {
+    if (delta === 0) return '0';
+    return `${delta > 0 ? '+' : '−'}${Math.abs(delta).toFixed(2)}`;
+}
+
+function describeOutcome(record: DeploymentRecord): string {
+    const { response } = record;
+    if (response.failure) return `Failed: ${FAILURE_LABELS[response.failure.category]}`;
+    if (!response.success) return 'Failed';
+    if (response.fallback) return `Simulated after LIVE failure: ${FAILURE_LABELS[response.fallback.category]}`;
+    return 'Succeeded';
+}
+
+function compareInputs(records: DeploymentRecord[]): ComparisonSection {
+    const inputs = records.map(record => record.input);
+    const rows = [
+        row('Location', inputs.map(input => `${input.lat.toFixed(2)}°, ${input.lng.toFixed(2)}°`)),
+        row('Salinity', inputs.map(input => `${input.salinity} ppt`)),
+        row('Composition', inputs.map(input => normalizeComposition(input)
+            .map(share => `${share.plastic_type} ${(share.fraction * 100).toFixed(0)}%`)
+            .join(' · '))),
+        row('Stress signal', inputs.map(input => input.stress_signal_bool ? 'Yes' : 'No')),
+        row('Temperature', inputs.map(input => formatNumber(input.temperature_c, ' °C'))),
+        row('pH', inputs.map(input => formatNumber(input.ph))),
+        row('Depth', inputs.map(input => formatNumber(input.depth_m, ' m'))),
+        row('Dissolved O₂', inputs.map(input => formatNumber(input.dissolved_oxygen_mg_l, ' mg/L'))),
+    ];
+
+    // Only the water body, toxins and site flags any of the deployments recorded
+    if (inputs.some(input => input.water_body !== undefined)) {
+        rows.splice(1, 0, row('Water body', inputs.map(input => input.water_body ? WATER_BODY_LABELS[input.water_body] : NONE)));
+    }
+    for (const toxin of TOXIN_KEYS) {
+        if (inputs.some(input => input.toxins?.[toxin] !== undefined)) {
+            rows.push(row(toxin, inputs.map(input => formatNumber(input.toxins?.[toxin]))));
+        }
+    }
+    for (const flag of Object.keys(SITE_CONTEXT_LABELS) as (keyof SiteContext)[]) {
+        if (inputs.some(input => input.site_context?.[flag] !== undefined)) {
+            rows.push(row(SITE_CONTEXT_LABELS[flag], inputs.map(input => input.site_context?.[flag] ? 'Yes' : 'No')));
+        }
+    }
+
+    rows.push(
+        row('Rule set', records.map(record => `v${record.rule_set_version}`)),
+        row('Mode', records.map(record => record.response.mode)),
+        row('Model', records.map(record => record.agent_config?.model ?? NONE)),
+    );
+    return { title: 'Inputs', rows };
+}
+
+function compareDesigns(records: DeploymentRecord[]): ComparisonSection {
+    const designs = records.map(record => record.response.data);
+    const rows = [
+        row('Outcome', records.map(describeOutcome)),
+        row('Enzyme', designs.map(design => design?.enzyme_name ?? NONE)),
+        row('Chassis', designs.map(design => design?.chassis_type ?? NONE)),
+        row('Mutations', designs.map(design => design ? [...design.mutation_list].sort().join(', ') : NONE)),
+        row('Safety locks', designs.map(design => design
+            ? design.safety_locks.map(lock => lock.type).sort().join(', ')
+            : NONE)),
+        row('Efficiency', designs.map(design => formatPercent(design?.predicted_efficiency_score))),
+    ];
+    if (designs.some(design => design?.cocktail)) {
+        rows.push(row('Cocktail', designs.map(design => design?.cocktail
+            ?.map(component => `${component.plastic_type} ${(component.fraction * 100).toFixed(0)}% ${component.enzyme_name}`)
+            .join(' · ') ?? NONE)));
+    }
+    return { title: 'Design', rows };
+}
+
+/**
+ * Re-derives each design's score with the rule set it was made under; for a
+ * cocktail, the component for the dominant polymer
+ */
+function compareModifiers(records: DeploymentRecord[]): ComparisonSection {
+    const breakdowns = records.map(record => {
+        const design = record.response.data;
+        const rules = getRuleSet(record.rule_set_version);
+        if (!design || !rules) {
+            return undefined;
+        }
+        const component = design.cocktail?.find(candidate => candidate.plastic_type === record.input.plastic_type);
+        const mutationCount = (component ?? design).mutation_list.length;
+        return explainEfficiencyScore(record.input, design.chassis_type, mutationCount, rules);
+    });
+
+    const rows = (Object.keys(MODIFIER_LABELS) as EfficiencyTerm['modifier'][]).map(modifier => row(
+        MODIFIER_LABELS[modifier],
+        breakdowns.map(breakdown => {
+            const term = breakdown?.terms.find(candidate => candidate.modifier === modifier);
+            return term ? formatDelta(term.delta) : NONE;
+        })
+    ));
+    rows.push(row('Engine score', breakdowns.map(breakdown => formatPercent(breakdown?.score))));
+    return { title: 'Efficiency Modifiers', rows };
+}
+
+/**
+ * Pairs up the committee's decisions by agent and turn (the Architect's
+ * first decision with the Architect's first decision, and so on)
+ */
+function compareDecisions(records: DeploymentRecord[]): ComparisonSection {
+    const keyed = records.map(record => {
+        const turns: Record<string, number> = {};
+        const decisions = new Map<string, string>();
+        for (const entry of record.response.internal_monologue) {
+            turns[entry.agent] = (turns[entry.agent] ?? 0) + 1;
+            decisions.set(`${entry.agent} #${turns[entry.agent]}`, `${entry.rejected ? '❌ ' : ''}${entry.decision ?? entry.thought}`);
+        }
+        return decisions;
+    });
+
+    const keys = [...new Set(keyed.flatMap(decisions => [...decisions.keys()]))];
+    return {
+        title: 'Committee Decisions',
+        rows: keys.map(key => row(key, keyed.map(decisions => decisions.get(key) ?? NONE))),
+    };
+}
+
+/**
+ * Compares deployments field by field, in the order given
+ */
+export function compareDeployments(records: DeploymentRecord[]): ComparisonSection[] {
+    return [compareInputs(records), compareDesigns(records), compareModifiers(records), compareDecisions(records)];
+}
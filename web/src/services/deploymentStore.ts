@@ -0,0 +1,467 @@
+/**
+ * Polymer-X: Deployment History Store
+ *
+ * Persists every deployment in the browser's IndexedDB with the input, rule
+ * set version, generation settings and full response that produced it, so the
+ * history survives reloads and a past deployment can be reopened as it was.
+ *
+ * Queries walk one index (the most selective the query allows) and check the
+ * remaining conditions on the records that index yields.
+ *
+ * Multi-site campaigns live in a second object store of the same database,
+ * each as one record holding its sites and their deployments.
+ */
+
+import type { CampaignRecord, ChassisType, DeploymentRecord, PlasticType } from './geminiBridge';
+
+const DB_NAME = 'polymer-x';
+const DB_VERSION = 3;
+const STORE_NAME = 'deployments';
+const CAMPAIGN_STORE_NAME = 'campaigns';
+const CAMPAIGN_UPDATED_AT_INDEX = 'updated_at';
+
+const INDEXES = {
+    createdAt: 'created_at',
+    efficiency: 'efficiency',
+    lat: 'lat',
+    chassis: 'chassis_type',
+    mode: 'mode',
+    plastics: 'plastics',
+    terms: 'terms',
+} as const;
+
+type IndexName = typeof INDEXES[keyof typeof INDEXES];
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/** Map area; west > east when it crosses the antimeridian */
+export interface GeoBounds {
+    south: number;
+    west: number;
+    north: number;
+    east: number;
+}
+
+export type DeploymentSort = 'newest' | 'oldest' | 'efficiency_desc' | 'efficiency_asc';
+
+/**
+ * Conditions a deployment must meet to be listed (all optional, combined with AND)
+ */
+export interface DeploymentQuery {
+    /** Words to find in enzyme_name or design_rationale (each word as a prefix) */
+    text?: string;
+
+    /** Polymer present in the site's composition */
+    plasticType?: PlasticType;
+    chassisType?: ChassisType;
+    mode?: 'LIVE' | 'SIMULATION';
+    success?: boolean;
+
+    /** Efficiency range (0.0 - 1.0); deployments without a design never match */
+    minEfficiency?: number;
+    maxEfficiency?: number;
+
+    /** created_at range (ISO 8601, inclusive) */
+    createdAfter?: string;
+    createdBefore?: string;
+
+    bounds?: GeoBounds;
+    sort?: DeploymentSort;
+}
+
+/** One page of query results */
+export interface DeploymentPage {
+    records: DeploymentRecord[];
+
+    /** Records matching the query */
+    total: number;
+
+    /** Records stored, matching or not */
+    stored: number;
+}
+
+// =============================================================================
+// Stored Shape
+// =============================================================================
+
+/** Fields derived from a record so the indexes can reach them */
+interface IndexFields {
+    efficiency?: number;
+    chassis_type?: ChassisType;
+    plastics: PlasticType[];
+
+    /** Lower-cased words of enzyme_name and design_rationale */
+    terms: string[];
+}
+
+type StoredDeployment = DeploymentRecord & { index: IndexFields };
+
+function tokenize(text: string): string[] {
+    return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function indexFields(record: DeploymentRecord): IndexFields {
+    const design = record.response.data;
+    const composition = record.input.composition;
+    const plastics = composition
+        ? (Object.keys(composition) as PlasticType[]).filter(plastic => (composition[plastic] ?? 0) > 0)
+        : [record.input.plastic_type];
+    return {
+        ...(design && { efficiency: design.predicted_efficiency_score, chassis_type: design.chassis_type }),
+        plastics,
+        terms: [...new Set(tokenize(`${design?.enzyme_name ?? ''} ${design?.design_rationale ?? ''}`))],
+    };
+}
+
+function toStored(record: DeploymentRecord): StoredDeployment {
+    return { ...record, index: indexFields(record) };
+}
+
+function fromStored(stored: StoredDeployment): DeploymentRecord {
+    const record: Partial<StoredDeployment> = { ...stored };
+    delete record.index;
+    return record as DeploymentRecord;
+}
+
+// =============================================================================
+// Query Planning
+// =============================================================================
+
+interface QueryPlan {
+    index: IndexName;
+    range?: IDBKeyRange;
+    direction: IDBCursorDirection;
+
+    /** The cursor yields records in the requested order (no sort needed) */
+    ordered: boolean;
+
+    /** The query has no conditions: every record in the index matches */
+    unfiltered?: boolean;
+}
+
+function boundRange(lower?: number | string, upper?: number | string): IDBKeyRange | undefined {
+    if (lower !== undefined && upper !== undefined) {
+        return IDBKeyRange.bound(lower, upper);
+    }
+    if (lower !== undefined) {
+        return IDBKeyRange.lowerBound(lower);
+    }
+    return upper !== undefined ? IDBKeyRange.upperBound(upper) : undefined;
+}
+
+/**
+ * Ranges whose lower end is above the upper end (min efficiency > max, "from"
+ * after "to"); such a query matches nothing
+ */
+export function invertedRanges(query: DeploymentQuery): string[] {
+    const inverted: string[] = [];
+    if (query.minEfficiency !== undefined && query.maxEfficiency !== undefined && query.minEfficiency > query.maxEfficiency) {
+        inverted.push('efficiency');
+    }
+    if (query.createdAfter && query.createdBefore && query.createdAfter > query.createdBefore) {
+        inverted.push('date');
+    }
+    return inverted;
+}
+
+function hasEfficiencyRange(query: DeploymentQuery): boolean {
+    return query.minEfficiency !== undefined || query.maxEfficiency !== undefined;
+}
+
+/**
+ * Picks the index to walk: exact matches first, then ranges, falling back to
+ * the whole created_at index
+ */
+function planQuery(query: DeploymentQuery): QueryPlan {
+    const sort = query.sort ?? 'newest';
+    const byTime = sort === 'newest' || sort === 'oldest';
+    const timeDirection: IDBCursorDirection = sort === 'oldest' ? 'next' : 'prev';
+    const words = tokenize(query.text ?? '');
+
+    if (words.length > 0) {
+        // Longest word: the narrowest prefix range
+        const word = words.reduce((longest, candidate) => candidate.length > longest.length ? candidate : longest);
+        return { index: INDEXES.terms, range: IDBKeyRange.bound(word, `${word}\uffff`), direction: 'next', ordered: false };
+    }
+    if (query.chassisType) {
+        return { index: INDEXES.chassis, range: IDBKeyRange.only(query.chassisType), direction: 'next', ordered: false };
+    }
+    if (query.plasticType) {
+        return { index: INDEXES.plastics, range: IDBKeyRange.only(query.plasticType), direction: 'next', ordered: false };
+    }
+    if (query.bounds) {
+        return { index: INDEXES.lat, range: IDBKeyRange.bound(query.bounds.south, query.bounds.north), direction: 'next', ordered: false };
+    }
+    if (query.createdAfter || query.createdBefore) {
+        return { index: INDEXES.createdAt, range: boundRange(query.createdAfter, query.createdBefore), direction: timeDirection, ordered: byTime };
+    }
+    if (hasEfficiencyRange(query)) {
+        return {
+            index: INDEXES.efficiency,
+            range: boundRange(query.minEfficiency, query.maxEfficiency),
+            direction: sort === 'efficiency_asc' ? 'next' : 'prev',
+            ordered: !byTime,
+        };
+    }
+    if (query.mode) {
+        return { index: INDEXES.mode, range: IDBKeyRange.only(query.mode), direction: 'next', ordered: false };
+    }
+    // Sorting everything by efficiency still walks created_at: records without a design are not in the efficiency index
+    return { index: INDEXES.createdAt, direction: timeDirection, ordered: byTime, unfiltered: byTime && query.success === undefined };
+}
+
+function withinBounds(lat: number, lng: number, bounds: GeoBounds): boolean {
+    if (lat < bounds.south || lat > bounds.north) {
+        return false;
+    }
+    return bounds.west <= bounds.east
+        ? lng >= bounds.west && lng <= bounds.east
+        : lng >= bounds.west || lng <= bounds.east;
+}
+
+/**
+ * Checks every condition of the query (the walked index has already applied one)
+ */
+function matches(stored: StoredDeployment, query: DeploymentQuery, words: string[]): boolean {
+    const { index, input, response } = stored;
+    if (words.some(word => !index.terms.some(term => term.startsWith(word)))) {
+        return false;
+    }
+    if (query.plasticType && !index.plastics.includes(query.plasticType)) {
+        return false;
+    }
+    if (query.chassisType && index.chassis_type !== query.chassisType) {
+        return false;
+    }
+    if (query.mode && response.mode !== query.mode) {
+        return false;
+    }
+    if (query.success !== undefined && response.success !== query.success) {
+        return false;
+    }
+    if (hasEfficiencyRange(query)) {
+        if (index.efficiency === undefined
+            || (query.minEfficiency !== undefined && index.efficiency < query.minEfficiency)
+            || (query.maxEfficiency !== undefined && index.efficiency > query.maxEfficiency)) {
+            return false;
+        }
+    }
+    if (query.createdAfter && stored.created_at < query.createdAfter) {
+        return false;
+    }
+    if (query.createdBefore && stored.created_at > query.createdBefore) {
+        return false;
+    }
+    return !query.bounds || withinBounds(input.lat, input.lng, query.bounds);
+}
+
+function compareRecords(sort: DeploymentSort): (a: StoredDeployment, b: StoredDeployment) => number {
+    switch (sort) {
+        case 'newest':
+            return (a, b) => b.created_at.localeCompare(a.created_at);
+        case 'oldest':
+            return (a, b) => a.created_at.localeCompare(b.created_at);
+        // Deployments without a design sort last either way
+        case 'efficiency_desc':
+            return (a, b) => (b.index.efficiency ?? -1) - (a.index.efficiency ?? -1);
+        case 'efficiency_asc':
+            return (a, b) => (a.index.efficiency ?? 2) - (b.index.efficiency ?? 2);
+    }
+}
+
+// =============================================================================
+// Database
+// =============================================================================
+
+/**
+ * Resolves with the result of an IndexedDB request
+ */
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available in this browser'));
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = event => {
+        const store = event.oldVersion < 1
+            ? request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+            : request.transaction!.objectStore(STORE_NAME);
+
+        if (event.oldVersion < 1) {
+            store.createIndex(INDEXES.createdAt, 'created_at');
+        }
+        if (event.oldVersion < 2) {
+            // v2: query indexes over derived fields, backfilled for existing records
+            store.createIndex(INDEXES.efficiency, 'index.efficiency');
+            store.createIndex(INDEXES.lat, 'input.lat');
+            store.createIndex(INDEXES.chassis, 'index.chassis_type');
+            store.createIndex(INDEXES.mode, 'response.mode');
+            store.createIndex(INDEXES.plastics, 'index.plastics', { multiEntry: true });
+            store.createIndex(INDEXES.terms, 'index.terms', { multiEntry: true });
+
+            const cursorRequest = store.openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (cursor) {
+                    cursor.update(toStored(cursor.value as DeploymentRecord));
+                    cursor.continue();
+                }
+            };
+        }
+        if (event.oldVersion < 3) {
+            // v3: campaigns, listed most recently saved first
+            request.result
+                .createObjectStore(CAMPAIGN_STORE_NAME, { keyPath: 'id' })
+                .createIndex(CAMPAIGN_UPDATED_AT_INDEX, 'updated_at');
+        }
+    };
+    return settle(request);
+}
+
+export class DeploymentStore {
+    private db: Promise<IDBDatabase> | null = null;
+
+    private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        // Opened on first use; a failed open is retried on the next call
+        this.db ??= openDatabase().catch(error => {
+            this.db = null;
+            throw error;
+        });
+        return (await this.db).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+    }
+
+    /**
+     * Stores a deployment under a new id and returns the stored record
+     */
+    async add(record: Omit<DeploymentRecord, 'id'>): Promise<DeploymentRecord> {
+        const stored: DeploymentRecord = { id: crypto.randomUUID(), ...record };
+        await settle((await this.objectStore('readwrite')).add(toStored(stored)));
+        return stored;
+    }
+
+    /**
+     * Stores a deployment under its own id (an imported dossier), replacing
+     * any record with that id
+     */
+    async put(record: DeploymentRecord): Promise<void> {
+        await settle((await this.objectStore('readwrite')).put(toStored(record)));
+    }
+
+    async get(id: string): Promise<DeploymentRecord | undefined> {
+        const stored = await settle((await this.objectStore('readonly')).get(id) as IDBRequest<StoredDeployment | undefined>);
+        return stored && fromStored(stored);
+    }
+
+    /**
+     * Returns up to limit records matching the query, in its sort order
+     * (newest first by default), skipping the first offset
+     */
+    async query(query: DeploymentQuery, offset: number, limit: number): Promise<DeploymentPage> {
+        const store = await this.objectStore('readonly');
+        if (invertedRanges(query).length > 0) {
+            // IDBKeyRange.bound throws on an inverted range
+            return { records: [], total: 0, stored: await settle(store.count()) };
+        }
+        const plan = planQuery(query);
+        const words = tokenize(query.text ?? '');
+        const seen = new Set<string>();
+        const found: StoredDeployment[] = [];
+        let total = 0;
+
+        // Both requests are issued before awaiting, while the transaction is active
+        const stored = settle(store.count());
+        const walked = new Promise<void>((resolve, reject) => {
+            const request = store.index(plan.index).openCursor(plan.range, plan.direction);
+            let skipped = !plan.unfiltered || offset === 0;
+            request.onerror = () => reject(request.error);
+            request.onsuccess = () => {
+                const cursor = request.result;
+                if (!cursor) {
+                    resolve();
+                    return;
+                }
+                if (plan.unfiltered) {
+                    // Plain listing: skip straight to the page
+                    if (!skipped) {
+                        skipped = true;
+                        cursor.advance(offset);
+                    } else if (found.length < limit) {
+                        found.push(cursor.value as StoredDeployment);
+                        cursor.continue();
+                    } else {
+                        resolve();
+                    }
+                    return;
+                }
+                const record = cursor.value as StoredDeployment;
+                // multiEntry indexes yield a record once per matching entry
+                if (!seen.has(record.id) && matches(record, query, words)) {
+                    seen.add(record.id);
+                    // In index order only the requested page needs keeping
+                    if (!plan.ordered || (total >= offset && total < offset + limit)) {
+                        found.push(record);
+                    }
+                    total++;
+                }
+                cursor.continue();
+            };
+        });
+
+        await walked;
+        const count = await stored;
+        const page = plan.ordered ? found : found.sort(compareRecords(query.sort ?? 'newest')).slice(offset, offset + limit);
+        return { records: page.map(fromStored), total: plan.unfiltered ? count : total, stored: count };
+    }
+
+    async delete(id: string): Promise<void> {
+        await settle((await this.objectStore('readwrite')).delete(id));
+    }
+
+    async clear(): Promise<void> {
+        await settle((await this.objectStore('readwrite')).clear());
+    }
+}
+
+export class CampaignStore {
+    private db: Promise<IDBDatabase> | null = null;
+
+    private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        this.db ??= openDatabase().catch(error => {
+            this.db = null;
+            throw error;
+        });
+        return (await this.db).transaction(CAMPAIGN_STORE_NAME, mode).objectStore(CAMPAIGN_STORE_NAME);
+    }
+
+    /**
+     * Stores a campaign with its sites and deployments, replacing the saved copy
+     */
+    async put(campaign: CampaignRecord): Promise<void> {
+        await settle((await this.objectStore('readwrite')).put(campaign));
+    }
+
+    /**
+     * Every saved campaign, most recently saved first
+     */
+    async list(): Promise<CampaignRecord[]> {
+        const store = await this.objectStore('readonly');
+        const campaigns = await settle(store.index(CAMPAIGN_UPDATED_AT_INDEX).getAll() as IDBRequest<CampaignRecord[]>);
+        return campaigns.reverse();
+    }
+
+    async delete(id: string): Promise<void> {
+        await settle((await this.objectStore('readwrite')).delete(id));
+    }
+}
+
+// Default singleton instances
+export const deploymentStore = new DeploymentStore();
+export const campaignStore = new CampaignStore();
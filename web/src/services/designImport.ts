@@ -0,0 +1,69 @@
+/**
+ * Polymer-X: Design Import
+ *
+ * Reads an exported dossier or a plain EnzymeDesign from a file, checks a
+ * dossier's content hash, and replays the design through the rule set the app
+ * is running. A plain design records no input, so it is replayed on the
+ * current controls.
+ */
+
+import {
+    DossierValidationError,
+    EnzymeDesignValidationError,
+    parseImportedDesign,
+    replayDesign,
+    verifyDossier,
+    type DossierVerification,
+    type ImportedDesign,
+} from '@core';
+import type { ReplayReport, RuleSet, WaterAnalysis } from './geminiBridge';
+
+export type DesignImportResult =
+    | {
+        status: 'replayed';
+        fileName: string;
+        imported: ImportedDesign;
+
+        /** Content hash check (dossiers only) */
+        verification?: DossierVerification;
+
+        /** Input the design was replayed on */
+        input: WaterAnalysis;
+        report: ReplayReport;
+    }
+    | {
+        status: 'invalid';
+        fileName: string;
+        issues: string[];
+    };
+
+export async function importDesignFile(file: File, currentInput: WaterAnalysis, rules: RuleSet): Promise<DesignImportResult> {
+    let imported: ImportedDesign;
+    try {
+        imported = parseImportedDesign(JSON.parse(await file.text()));
+    } catch (error) {
+        const issues = error instanceof DossierValidationError || error instanceof EnzymeDesignValidationError
+            ? error.issues
+            : [error instanceof Error ? error.message : String(error)];
+        return { status: 'invalid', fileName: file.name, issues };
+    }
+
+    if (imported.kind === 'dossier') {
+        const { deployment } = imported.dossier;
+        return {
+            status: 'replayed',
+            fileName: file.name,
+            imported,
+            verification: await verifyDossier(imported.dossier),
+            input: deployment.input,
+            report: await replayDesign(deployment.response.data, deployment.input, rules),
+        };
+    }
+    return {
+        status: 'replayed',
+        fileName: file.name,
+        imported,
+        input: currentInput,
+        report: await replayDesign(imported.design, currentInput, rules),
+    };
+}
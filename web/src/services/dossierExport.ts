@@ -0,0 +1,44 @@
+/**
+ * Polymer-X: Dossier Export
+ *
+ * Downloads a stored deployment as a hashed JSON dossier, or opens its
+ * printable report in a new window. The bibliography is bundled at build time.
+ */
+
+import { createDossier, parseBibliography, renderDossierHtml } from '@core';
+import bibliographyMarkdown from '../../../docs/BIBLIOGRAPHY.md?raw';
+import type { DeploymentRecord } from './geminiBridge';
+
+const bibliography = parseBibliography(bibliographyMarkdown);
+
+function dossierFileName(record: DeploymentRecord): string {
+    const name = record.response.data?.enzyme_name ?? 'failed-deployment';
+    const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `polymer-x-${slug}-${record.created_at.slice(0, 10)}.json`;
+}
+
+export async function downloadDossier(record: DeploymentRecord): Promise<void> {
+    const dossier = await createDossier(record, bibliography);
+    const blob = new Blob([JSON.stringify(dossier, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = dossierFileName(record);
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Opens the report for printing (or saving as PDF from the print dialog)
+ */
+export async function openDossierReport(record: DeploymentRecord): Promise<void> {
+    // Open before awaiting so the popup is still tied to the click
+    const report = window.open('', '_blank');
+    if (!report) {
+        throw new Error('The report window was blocked by the browser');
+    }
+    const dossier = await createDossier(record, bibliography);
+    report.document.open();
+    report.document.write(renderDossierHtml(dossier));
+    report.document.close();
+}
@@ -0,0 +1,186 @@
+/**
+ * Polymer-X: Offline Map Projection
+ *
+ * Web Mercator (the projection Google Maps uses) for the offline ocean map.
+ * Clicks, the marker, the coastlines and the visible history area all go
+ * through these functions, so they agree anywhere on the globe. The world
+ * repeats horizontally; screen positions use the copy nearest the map center.
+ */
+
+import type { LngLat } from '@core';
+import type { GeoBounds } from './deploymentStore';
+
+/** Width and height of the whole world at zoom 0, in pixels */
+export const WORLD_SIZE = 256;
+
+/** Latitude where Web Mercator's square world ends */
+export const MAX_LATITUDE = 85.05112878;
+
+export const MAX_ZOOM = 6;
+
+export interface GeoPoint {
+    lat: number;
+    lng: number;
+}
+
+export interface PixelPoint {
+    x: number;
+    y: number;
+}
+
+export interface MapViewport {
+    center: GeoPoint;
+    zoom: number;
+
+    /** Size of the map element in pixels */
+    width: number;
+    height: number;
+}
+
+export const normalizeLng = (lng: number) => ((lng % 360) + 540) % 360 - 180;
+
+const clampLat = (lat: number) => Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+
+export function worldWidth(zoom: number): number {
+    return WORLD_SIZE * 2 ** zoom;
+}
+
+// =============================================================================
+// World pixels
+// =============================================================================
+
+/**
+ * Position in world pixels at a zoom level: (0, 0) is 180°W at the top edge
+ */
+export function project(point: GeoPoint, zoom = 0): PixelPoint {
+    const size = worldWidth(zoom);
+    const sin = Math.sin(clampLat(point.lat) * Math.PI / 180);
+    return {
+        x: (point.lng + 180) / 360 * size,
+        y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+    };
+}
+
+export function unproject(pixel: PixelPoint, zoom = 0): GeoPoint {
+    const size = worldWidth(zoom);
+    const mercator = Math.PI * (1 - 2 * pixel.y / size);
+    return {
+        lat: clampLat(Math.atan(Math.sinh(mercator)) * 180 / Math.PI),
+        lng: normalizeLng(pixel.x / size * 360 - 180),
+    };
+}
+
+/**
+ * SVG path of a coastline ring in world pixels at zoom 0
+ */
+export function ringPath(ring: readonly LngLat[]): string {
+    return ring
+        .map(([lng, lat], i) => {
+            const { x, y } = project({ lat, lng });
+            return `${i === 0 ? 'M' : 'L'}${x.toFixed(2)},${y.toFixed(2)}`;
+        })
+        .join('') + 'Z';
+}
+
+// =============================================================================
+// Screen pixels
+// =============================================================================
+
+/**
+ * Position of a point on the map element (may fall outside it)
+ */
+export function toScreen(point: GeoPoint, viewport: MapViewport): PixelPoint {
+    const size = worldWidth(viewport.zoom);
+    const center = project(viewport.center, viewport.zoom);
+    const pixel = project(point, viewport.zoom);
+
+    // Nearest horizontal copy of the world
+    let dx = pixel.x - center.x;
+    dx -= Math.round(dx / size) * size;
+
+    return {
+        x: viewport.width / 2 + dx,
+        y: viewport.height / 2 + pixel.y - center.y,
+    };
+}
+
+export function fromScreen(screen: PixelPoint, viewport: MapViewport): GeoPoint {
+    const center = project(viewport.center, viewport.zoom);
+    return unproject({
+        x: center.x + screen.x - viewport.width / 2,
+        y: center.y + screen.y - viewport.height / 2,
+    }, viewport.zoom);
+}
+
+/**
+ * Screen offset of the world pixel origin (for drawing zoom 0 paths)
+ */
+export function worldOrigin(viewport: MapViewport): PixelPoint {
+    const center = project(viewport.center, viewport.zoom);
+    return { x: viewport.width / 2 - center.x, y: viewport.height / 2 - center.y };
+}
+
+// =============================================================================
+// Navigation
+// =============================================================================
+
+/**
+ * Smallest zoom at which the world still fills the map element's height
+ */
+export function minZoom(height: number): number {
+    return Math.max(0, Math.log2(height / WORLD_SIZE));
+}
+
+/**
+ * Keeps the zoom in range and the poles from scrolling into view
+ */
+export function constrainViewport(viewport: MapViewport): MapViewport {
+    const zoom = Math.max(minZoom(viewport.height), Math.min(MAX_ZOOM, viewport.zoom));
+    const size = worldWidth(zoom);
+    const center = project(viewport.center, zoom);
+    const halfHeight = Math.min(viewport.height / 2, size / 2);
+    const y = Math.max(halfHeight, Math.min(size - halfHeight, center.y));
+    return { ...viewport, zoom, center: unproject({ x: center.x, y }, zoom) };
+}
+
+/**
+ * Moves the map content by a screen distance (a drag)
+ */
+export function panBy(viewport: MapViewport, dx: number, dy: number): MapViewport {
+    const center = project(viewport.center, viewport.zoom);
+    return constrainViewport({
+        ...viewport,
+        center: unproject({ x: center.x - dx, y: center.y - dy }, viewport.zoom),
+    });
+}
+
+/**
+ * Changes the zoom while the point under `anchor` stays put (wheel, buttons)
+ */
+export function zoomAt(viewport: MapViewport, zoom: number, anchor: PixelPoint): MapViewport {
+    const target = constrainViewport({ ...viewport, zoom });
+    const anchored = fromScreen(anchor, viewport);
+    const pixel = project(anchored, target.zoom);
+    return constrainViewport({
+        ...target,
+        center: unproject({
+            x: pixel.x - (anchor.x - viewport.width / 2),
+            y: pixel.y - (anchor.y - viewport.height / 2),
+        }, target.zoom),
+    });
+}
+
+/**
+ * Area on screen; the full longitude range once the world is narrower than the map
+ */
+export function visibleBounds(viewport: MapViewport): GeoBounds {
+    const northWest = fromScreen({ x: 0, y: 0 }, viewport);
+    const southEast = fromScreen({ x: viewport.width, y: viewport.height }, viewport);
+    const wholeWorld = worldWidth(viewport.zoom) <= viewport.width;
+    return {
+        south: southEast.lat,
+        west: wholeWorld ? -180 : northWest.lng,
+        north: northWest.lat,
+        east: wholeWorld ? 180 : southEast.lng,
+    };
+}
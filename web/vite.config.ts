@@ -1,11 +1,25 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 
+// Shared design engine lives outside the web package (see ../core)
+const coreDir = fileURLToPath(new URL('../core', import.meta.url))
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     react(),
     tailwindcss(),
   ],
+  resolve: {
+    alias: {
+      '@core': coreDir,
+    },
+  },
+  server: {
+    fs: {
+      allow: ['..'],
+    },
+  },
 })